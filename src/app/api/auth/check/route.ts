@@ -0,0 +1,18 @@
+import { checkAuth, AuthCheckCode } from '@/lib/kalshi/authCheck';
+
+const STATUS_BY_CODE: Record<AuthCheckCode, number> = {
+  ok: 200,
+  missing_credentials: 400,
+  key_format: 400,
+  clock_skew: 401,
+  rejected: 401,
+  unreachable: 502,
+};
+
+export async function GET() {
+  const result = await checkAuth();
+  return new Response(JSON.stringify(result), {
+    status: STATUS_BY_CODE[result.code],
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,7 @@
+import { getCredentialStatus } from '@/lib/kalshi/signing';
+
+export async function GET() {
+  return new Response(JSON.stringify(getCredentialStatus()), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
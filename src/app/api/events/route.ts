@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { getOpenGames } from '@/lib/kalshi/gameBrowser';
+import { KalshiApiError, statusForKalshiError } from '@/lib/kalshi/http';
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export async function GET(request: NextRequest) {
+  const league = request.nextUrl.searchParams.get('league')?.trim().toLowerCase();
+
+  try {
+    const response = await getOpenGames();
+    if (!league) {
+      return json(response);
+    }
+    return json({ ...response, leagues: response.leagues.filter((l) => l.leagueId === league) });
+  } catch (err) {
+    if (err instanceof KalshiApiError) {
+      return json({ error: err.message, code: err.kind, retryable: err.transient }, statusForKalshiError(err));
+    }
+    return json({ error: err instanceof Error ? err.message : 'Failed to list games' }, 502);
+  }
+}
@@ -0,0 +1,42 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { NextRequest } from 'next/server';
+import { getRecordingPath } from '@/lib/kalshi/recorder';
+
+function notFound(name: string) {
+  return new Response(JSON.stringify({ error: `Recording not found: ${name}` }), {
+    status: 404,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+  const { name } = await params;
+  const file = getRecordingPath(name);
+  if (!file) return notFound(name);
+
+  // Open before stat so a file pruned in between is a 404, not a failed stream
+  let handle: fs.promises.FileHandle;
+  try {
+    handle = await fs.promises.open(file, 'r');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return notFound(name);
+    throw err;
+  }
+
+  // An active recording keeps growing; serve only the bytes Content-Length promises
+  const { size } = await handle.stat();
+  const stream = size > 0
+    ? handle.createReadStream({ start: 0, end: size - 1 })
+    : Readable.from([]);
+  if (size === 0) await handle.close();
+
+  const body = Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/gzip',
+      'Content-Length': String(size),
+      'Content-Disposition': `attachment; filename="${name}"`,
+    },
+  });
+}
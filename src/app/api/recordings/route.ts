@@ -0,0 +1,19 @@
+import { listRecordings, isRecordingEnabled } from '@/lib/kalshi/recorder';
+
+export async function GET() {
+  try {
+    const recordings = await listRecordings();
+    return new Response(JSON.stringify({
+      enabled: isRecordingEnabled(),
+      recordings,
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to list recordings';
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
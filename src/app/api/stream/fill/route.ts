@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { getStream } from '@/lib/kalshi/streamRegistry';
+import { estimateFill, FillRequest } from '@/lib/kalshi/fills';
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Price an order against a running stream's live book.
+ * Body: { streamId: string, market: string, side: 'yes' | 'no', action: 'buy' | 'sell', contracts?: number, dollars?: number }
+ */
+export async function POST(request: NextRequest) {
+  let parsed: unknown;
+  try {
+    parsed = await request.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return jsonResponse({ error: 'Body must be a JSON object' }, 400);
+  }
+  const body = parsed as Record<string, unknown>;
+
+  const streamId = typeof body.streamId === 'string' ? body.streamId : '';
+  const market = typeof body.market === 'string' ? body.market.trim().toUpperCase() : '';
+  const { side, action, contracts, dollars } = body;
+
+  if (!streamId || !market) {
+    return jsonResponse({ error: 'streamId and market are required' }, 400);
+  }
+  if (side !== 'yes' && side !== 'no') {
+    return jsonResponse({ error: 'side must be "yes" or "no"' }, 400);
+  }
+  if (action !== 'buy' && action !== 'sell') {
+    return jsonResponse({ error: 'action must be "buy" or "sell"' }, 400);
+  }
+  if ((contracts === undefined) === (dollars === undefined)) {
+    return jsonResponse({ error: 'Give exactly one of contracts or dollars' }, 400);
+  }
+  if (contracts !== undefined && !(isPositive(contracts) && Number.isInteger(contracts))) {
+    return jsonResponse({ error: 'contracts must be a positive whole number' }, 400);
+  }
+  if (dollars !== undefined && !isPositive(dollars)) {
+    return jsonResponse({ error: 'dollars must be a positive number' }, 400);
+  }
+
+  const stream = getStream(streamId);
+  if (!stream) {
+    return jsonResponse({ error: `Stream not found: ${streamId}` }, 404);
+  }
+  const book = stream.getOrderBook(market);
+  if (!book) {
+    return jsonResponse({ error: `No order book for ${market} (not streamed, or awaiting a snapshot)` }, 404);
+  }
+
+  const fillRequest: FillRequest = { side, action, contracts: contracts as number | undefined, dollars: dollars as number | undefined };
+  return jsonResponse({ market_ticker: market, ...estimateFill(book, fillRequest) });
+}
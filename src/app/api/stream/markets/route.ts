@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { getStream } from '@/lib/kalshi/streamRegistry';
+import { KalshiApiError, statusForKalshiError } from '@/lib/kalshi/http';
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function toTickerList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((t): t is string => typeof t === 'string' && t.trim().length > 0);
+}
+
+/**
+ * Add or remove markets on a running stream.
+ * Body: { streamId: string, add?: string[], remove?: string[] }
+ */
+export async function POST(request: NextRequest) {
+  let parsed: unknown;
+  try {
+    parsed = await request.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return jsonResponse({ error: 'Body must be a JSON object' }, 400);
+  }
+  const body = parsed as Record<string, unknown>;
+
+  const streamId = typeof body.streamId === 'string' ? body.streamId : '';
+  const add = toTickerList(body.add);
+  const remove = toTickerList(body.remove);
+
+  if (!streamId) {
+    return jsonResponse({ error: 'streamId is required' }, 400);
+  }
+  if (add.length === 0 && remove.length === 0) {
+    return jsonResponse({ error: 'add or remove must list at least one market ticker' }, 400);
+  }
+
+  const stream = getStream(streamId);
+  if (!stream) {
+    return jsonResponse({ error: `Stream not found: ${streamId}` }, 404);
+  }
+
+  try {
+    const removeResult = remove.length > 0 ? await stream.removeMarkets(remove) : null;
+    const addResult = add.length > 0 ? await stream.addMarkets(add) : null;
+
+    return jsonResponse({
+      added: addResult?.added ?? [],
+      removed: removeResult?.removed ?? [],
+      marketCount: (addResult ?? removeResult)?.marketCount ?? 0,
+    });
+  } catch (err) {
+    if (err instanceof KalshiApiError) {
+      return jsonResponse({ error: err.message, code: err.kind, retryable: err.transient }, statusForKalshiError(err));
+    }
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return jsonResponse({ error: message }, 400);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { getStream } from '@/lib/kalshi/streamRegistry';
+import { MAX_REPLAY_SPEED } from '@/lib/kalshi/replay';
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Control playback of a replay stream.
+ * Body: { streamId: string, action: 'step' | 'pause' | 'resume' | 'status', count?: number, speed?: number }
+ */
+export async function POST(request: NextRequest) {
+  let parsed: unknown;
+  try {
+    parsed = await request.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return jsonResponse({ error: 'Body must be a JSON object' }, 400);
+  }
+  const body = parsed as Record<string, unknown>;
+
+  const streamId = typeof body.streamId === 'string' ? body.streamId : '';
+  if (!streamId) {
+    return jsonResponse({ error: 'streamId is required' }, 400);
+  }
+
+  const stream = getStream(streamId);
+  if (!stream) {
+    return jsonResponse({ error: `Stream not found: ${streamId}` }, 404);
+  }
+  const controls = stream.replay;
+  if (!controls) {
+    return jsonResponse({ error: `Stream is not a replay: ${streamId}` }, 400);
+  }
+
+  switch (body.action) {
+    case 'step': {
+      const count = typeof body.count === 'number' && body.count >= 1 ? body.count : 1;
+      return jsonResponse(await controls.step(count));
+    }
+    case 'pause':
+      controls.pause();
+      return jsonResponse(controls.getProgress());
+    case 'resume': {
+      const { speed } = body;
+      if (speed !== undefined && (typeof speed !== 'number' || !(speed > 0) || speed > MAX_REPLAY_SPEED)) {
+        return jsonResponse({ error: `speed must be a number above 0 and at most ${MAX_REPLAY_SPEED}` }, 400);
+      }
+      controls.resume(speed);
+      return jsonResponse(controls.getProgress());
+    }
+    case 'status':
+      return jsonResponse(controls.getProgress());
+    default:
+      return jsonResponse({ error: 'action must be one of step, pause, resume, status' }, 400);
+  }
+}
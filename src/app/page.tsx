@@ -22,7 +22,11 @@ import {
   X,
   ChevronRight,
   BarChart3,
-  Zap
+  Zap,
+  Plus,
+  Trash2,
+  KeyRound,
+  Layers
 } from "lucide-react";
 import {
   LineChart,
@@ -37,9 +41,11 @@ import {
 } from "recharts";
 import { DepthBar } from "@/components/ui/depth-bar";
 import { MiniSparkline } from "@/components/ui/mini-sparkline";
+import { DepthChart } from "@/components/ui/depth-chart";
+import { GamePicker } from "@/components/ui/game-picker";
 
 type GroupType = 'winner' | 'spread' | 'total' | 'other';
-type SignalType = 'MONO_VIOLATION' | 'NEG_MASS' | 'SUM_GT_1' | 'OUTLIER_LINE' | 'STALE_QUOTE' | 'JUMP' | 'LOW_LIQUIDITY' | 'WIDE_SPREAD';
+type SignalType = 'MONO_VIOLATION' | 'NEG_MASS' | 'SUM_GT_1' | 'OUTLIER_LINE' | 'STALE_QUOTE' | 'JUMP' | 'LOW_LIQUIDITY' | 'WIDE_SPREAD' | 'CROSSED_BOOK';
 type SignalConfidence = 'low' | 'medium' | 'high';
 
 interface KalshiMarket {
@@ -56,6 +62,15 @@ interface KalshiMarket {
   open_interest?: number;
   result?: string;
   event_ticker?: string;
+  no_bid?: number;
+  no_ask?: number;
+  liquidity?: number;
+  close_time?: string;
+  expiration_time?: string;
+  rules_primary?: string;
+  strike_type?: string;
+  floor_strike?: number;
+  cap_strike?: number;
   group_type?: GroupType;
   line?: number | null;
   side?: string;
@@ -68,6 +83,32 @@ interface ResolvedEventInfo {
   marketCount: number;
 }
 
+interface ExcludedMarket {
+  ticker: string;
+  group_type?: GroupType;
+  reason: 'group_quota';
+  rank: number;
+  score: number;
+  quota: number;
+}
+
+interface ResolutionCandidate {
+  source: 'series_listing' | 'prefix';
+  seriesTicker?: string;
+  eventTicker?: string;
+  status: 'found' | 'not_found' | 'error';
+  groupType?: GroupType;
+  marketCount?: number;
+  error?: string;
+}
+
+interface ResolutionTrace {
+  method: 'series_listing' | 'prefix_fallback';
+  fallbackReason?: string;
+  seriesScanned: number;
+  candidates: ResolutionCandidate[];
+}
+
 interface KalshiEvent {
   event_ticker: string;
   title: string;
@@ -91,6 +132,56 @@ interface RawMessage {
   data: { type?: string; msg?: unknown };
 }
 
+interface DepthBand {
+  cents: number;
+  bid_depth: number;
+  ask_depth: number;
+  cost_up?: number;
+  cost_down?: number;
+}
+
+/** Resting contracts by price for one market, from `orderbook` or `depth` payloads */
+interface BookView {
+  yes: Map<number, number>;
+  no: Map<number, number>;
+}
+
+/** Apply flat [price, quantity, ...] pairs; quantity 0 removes the level */
+function applyLevels(side: Map<number, number>, flat: number[]): Map<number, number> {
+  const next = new Map(side);
+  for (let i = 0; i + 1 < flat.length; i += 2) {
+    if (flat[i + 1] > 0) next.set(flat[i], flat[i + 1]);
+    else next.delete(flat[i]);
+  }
+  return next;
+}
+
+interface FillEstimate {
+  market_ticker: string;
+  side: 'yes' | 'no';
+  action: 'buy' | 'sell';
+  contracts: number;
+  complete: boolean;
+  notional: number;
+  avg_price?: number;
+  worst_price?: number;
+  levels_consumed: number;
+  mid?: number;
+  slippage_cents?: number;
+  cost_vs_mid?: number;
+}
+
+interface WindowStats {
+  window_ms: number;
+  price_delta?: number;
+  vwap?: number;
+  trade_count: number;
+  volume: number;
+  buy_pressure?: number;
+  sell_pressure?: number;
+  realized_vol?: number;
+}
+
 interface MarketStats {
   market_ticker: string;
   ts: number;
@@ -101,6 +192,11 @@ interface MarketStats {
   spread_bps?: number;
   implied_prob?: number;
   price_delta_1m?: number;
+  crossed?: boolean;
+  no_bid?: number;
+  no_ask?: number;
+  no_mid?: number;
+  no_microprice?: number;
   microprice?: number;
   imbalance_top?: number;
   bid_size_top?: number;
@@ -122,10 +218,13 @@ interface MarketStats {
   vol_mid_60s?: number;
   jump_flag?: boolean;
   jump_size?: number;
+  windows?: Record<string, WindowStats>;
+  depth_bands?: Record<string, DepthBand>;
   last_ticker_age_ms?: number;
   last_orderbook_age_ms?: number;
   last_trade_ts?: number;
   feed_status: 'fresh' | 'stale' | 'unknown';
+  book_integrity?: 'ok' | 'pending' | 'resyncing';
   // Enriched fields
   group_type?: GroupType;
   line?: number | null;
@@ -174,7 +273,8 @@ interface LadderPoint {
   is_primary?: boolean;
   is_excluded?: boolean;
   exclude_reason?: string;
-  parse_source?: 'ticker' | 'title' | 'unknown';
+  parse_source?: 'strike' | 'ticker' | 'title' | 'unknown';
+  parse_disagreement?: string;
 }
 
 interface LadderDiagnostics {
@@ -182,6 +282,7 @@ interface LadderDiagnostics {
   parsed_markets: number;
   unparsed_markets: number;
   duplicates_dropped: number;
+  parse_disagreements: number;
   excluded_by_liquidity: number;
   excluded_by_spread: number;
   excluded_by_staleness: number;
@@ -215,19 +316,113 @@ interface LadderSummarySignal {
   details: SignalItem[];
 }
 
-type ConnectionStatus = "disconnected" | "resolving" | "connecting" | "streaming" | "error";
+/** One game of the watchlist, from its meta payload */
+interface GameView {
+  gameId: string;
+  event: KalshiEvent;
+  markets: KalshiMarket[];
+  resolvedEvents: ResolvedEventInfo[];
+  excludedMarkets: ExcludedMarket[];
+  resolution: ResolutionTrace | null;
+}
+
+// Server-side signing credentials, as reported by /api/auth/status
+interface CredentialStatus {
+  usable: boolean;
+  code: string;
+  message: string;
+  accessKey?: string;
+  keyFormat?: 'pkcs1' | 'pkcs8';
+  encrypted?: boolean;
+  modulusBits?: number;
+}
+
+/** A small pill toggle between a few fixed options */
+function Segmented<T extends string>({ value, options, onChange }: { value: T; options: [T, string][]; onChange: (value: T) => void }) {
+  return (
+    <div className="flex bg-black/20 rounded-lg p-0.5 border border-white/5">
+      {options.map(([option, label]) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`px-2 py-0.5 text-[10px] font-medium rounded-md transition-all ${value === option
+            ? 'bg-blue-500 text-white shadow-sm'
+            : 'text-gray-400 hover:text-gray-200 hover:bg-white/5'
+            }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+type Perspective = 'yes' | 'no';
+
+const flipPrice = (price?: number) => (price === undefined ? undefined : 100 - price);
+const negate = (value?: number) => (value === undefined ? undefined : -value);
+
+/** Stats as a NO holder reads them: NO prices, with the book's bid and ask sides swapped */
+function fromNoSide(stats: MarketStats): MarketStats {
+  return {
+    ...stats,
+    best_bid: stats.no_bid,
+    best_ask: stats.no_ask,
+    mid: stats.no_mid,
+    spread_bps: stats.spread !== undefined && stats.no_mid ? (stats.spread / stats.no_mid) * 10000 : undefined,
+    implied_prob: stats.no_mid !== undefined ? stats.no_mid / 100 : undefined,
+    price_delta_1m: negate(stats.price_delta_1m),
+    microprice: stats.no_microprice,
+    imbalance_top: negate(stats.imbalance_top),
+    bid_size_top: stats.ask_size_top,
+    ask_size_top: stats.bid_size_top,
+    sum_bid_top5: stats.sum_ask_top5,
+    sum_ask_top5: stats.sum_bid_top5,
+    book_imbalance_top5: negate(stats.book_imbalance_top5),
+    wall_bid_size: stats.wall_ask_size,
+    wall_ask_size: stats.wall_bid_size,
+    wall_bid_ratio: stats.wall_ask_ratio,
+    wall_ask_ratio: stats.wall_bid_ratio,
+    buy_pressure: stats.sell_pressure,
+    sell_pressure: stats.buy_pressure,
+    vwap_60s: flipPrice(stats.vwap_60s),
+    last_trade_price: flipPrice(stats.last_trade_price),
+    jump_size: negate(stats.jump_size),
+    windows: stats.windows && Object.fromEntries(Object.entries(stats.windows).map(([label, w]) => [label, {
+      ...w,
+      price_delta: negate(w.price_delta),
+      vwap: flipPrice(w.vwap),
+      buy_pressure: w.sell_pressure,
+      sell_pressure: w.buy_pressure,
+    }])),
+    depth_bands: stats.depth_bands && Object.fromEntries(Object.entries(stats.depth_bands).map(([label, band]) => [label, {
+      cents: band.cents,
+      bid_depth: band.ask_depth,
+      ask_depth: band.bid_depth,
+      cost_up: band.cost_down,
+      cost_down: band.cost_up,
+    }])),
+  };
+}
+
+type ConnectionStatus = "disconnected" | "resolving" | "connecting" | "streaming" | "degraded" | "reconnecting" | "error";
 
 export default function Home() {
   const [eventTicker, setEventTicker] = useState("");
   const [status, setStatus] = useState<ConnectionStatus>("disconnected");
   const [statusMessage, setStatusMessage] = useState("");
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [requiresAuth, setRequiresAuth] = useState(false);
+  const [credentials, setCredentials] = useState<CredentialStatus | null>(null);
 
-  const [event, setEvent] = useState<KalshiEvent | null>(null);
-  const [markets, setMarkets] = useState<KalshiMarket[]>([]);
   const [tickerData, setTickerData] = useState<Map<string, TickerData>>(new Map());
   const [rawMessages, setRawMessages] = useState<RawMessage[]>([]);
+  // Full depth streams every level; otherwise books hold the top five per side
+  const [fullDepth, setFullDepth] = useState(false);
+  const [books, setBooks] = useState<Map<string, BookView>>(new Map());
+  // Which contract the markets table and detail panel price
+  const [perspective, setPerspective] = useState<Perspective>('yes');
 
   const [filterTicker, setFilterTicker] = useState(true);
   const [filterOrderbook, setFilterOrderbook] = useState(true);
@@ -245,14 +440,25 @@ export default function Home() {
   const [statsSortField, setStatsSortField] = useState<string>("market_ticker");
   const [statsSortAsc, setStatsSortAsc] = useState(true);
 
-  // Related events state
-  const [resolvedEvents, setResolvedEvents] = useState<ResolvedEventInfo[]>([]);
-  const [gameId, setGameId] = useState<string | null>(null);
+  // Watchlist state: one entry per game, the switcher picks which one the tabs show
+  const [games, setGames] = useState<Map<string, GameView>>(new Map());
+  const [gameOrder, setGameOrder] = useState<string[]>([]);
+  const [activeGameId, setActiveGameId] = useState<string | null>(null);
+  const [streamId, setStreamId] = useState<string | null>(null);
+  const [addMarketsInput, setAddMarketsInput] = useState("");
+
+  // Fill calculator on the market detail panel
+  const [fillSide, setFillSide] = useState<'yes' | 'no'>('yes');
+  const [fillAction, setFillAction] = useState<'buy' | 'sell'>('buy');
+  const [fillUnit, setFillUnit] = useState<'contracts' | 'dollars'>('contracts');
+  const [fillAmount, setFillAmount] = useState("100");
+  const [fillQuote, setFillQuote] = useState<FillEstimate | null>(null);
+  const [fillError, setFillError] = useState<string | null>(null);
   const [selectedGroup, setSelectedGroup] = useState<GroupType | 'all'>('all');
 
   // Signals and ladders state
-  const [signals, setSignals] = useState<SignalItem[]>([]);
-  const [ladders, setLadders] = useState<LadderState[]>([]);
+  const [signalsByGame, setSignalsByGame] = useState<Map<string, SignalItem[]>>(new Map());
+  const [laddersByGame, setLaddersByGame] = useState<Map<string, LadderState[]>>(new Map());
   const [selectedMarket, setSelectedMarket] = useState<string | null>(null);
   const [midHistory, setMidHistory] = useState<Map<string, { ts: number; mid: number }[]>>(new Map());
   const [mainTab, setMainTab] = useState<string>("markets");
@@ -261,6 +467,18 @@ export default function Home() {
   const [lastMessageTs, setLastMessageTs] = useState<number | null>(null);
 
   const eventSourceRef = useRef<EventSource | null>(null);
+  // Market tickers per game as of its last meta payload, to spot removals
+  const gameMarketsRef = useRef<Map<string, Set<string>>>(new Map());
+
+  const activeGame = activeGameId ? games.get(activeGameId) : undefined;
+  const event = activeGame?.event ?? null;
+  const markets = activeGame?.markets ?? [];
+  const resolvedEvents = activeGame?.resolvedEvents ?? [];
+  const excludedMarkets = activeGame?.excludedMarkets ?? [];
+  const resolution = activeGame?.resolution ?? null;
+  const gameId = activeGame?.gameId ?? null;
+  const ladders = (activeGameId && laddersByGame.get(activeGameId)) || [];
+  const isWatchlist = gameOrder.length > 1;
 
   const disconnect = useCallback(() => {
     if (eventSourceRef.current) {
@@ -269,10 +487,12 @@ export default function Home() {
     }
     setStatus("disconnected");
     setStatusMessage("");
+    setReconnectAttempt(0);
   }, []);
 
-  const connect = useCallback((useAuth = false) => {
-    if (!eventTicker.trim()) {
+  const connect = useCallback((useAuth = false, tickersInput?: string, depthMode = fullDepth) => {
+    const eventTickers = (tickersInput ?? eventTicker).split(/[\s,]+/).map((t) => t.trim()).filter(Boolean);
+    if (eventTickers.length === 0) {
       setError("Please enter an event ticker");
       return;
     }
@@ -280,24 +500,26 @@ export default function Home() {
     disconnect();
     setError(null);
     setRequiresAuth(false);
-    setEvent(null);
-    setMarkets([]);
+    setGames(new Map());
+    setGameOrder([]);
+    setActiveGameId(null);
+    gameMarketsRef.current = new Map();
     setTickerData(new Map());
     setRawMessages([]);
+    setBooks(new Map());
     setMarketStats(new Map());
     setDebugMarket(null);
-    setResolvedEvents([]);
-    setGameId(null);
+    setStreamId(null);
     setSelectedGroup('all');
-    setSignals([]);
-    setLadders([]);
+    setSignalsByGame(new Map());
+    setLaddersByGame(new Map());
     setSelectedMarket(null);
     setMidHistory(new Map());
     setMessageCount(0);
     setLastMessageTs(null);
     setStatus("resolving");
 
-    const url = `/api/stream?eventTicker=${encodeURIComponent(eventTicker.trim())}${useAuth ? "&useAuth=true" : ""}`;
+    const url = `/api/stream?eventTickers=${encodeURIComponent(eventTickers.join(","))}${useAuth ? "&useAuth=true" : ""}${depthMode ? "&depth=full" : ""}`;
     const es = new EventSource(url);
     eventSourceRef.current = es;
 
@@ -309,16 +531,56 @@ export default function Home() {
           case "status":
             setStatus(payload.status);
             setStatusMessage(payload.message || "");
+            setReconnectAttempt(payload.status === "reconnecting" ? payload.attempt ?? 0 : 0);
             break;
 
-          case "meta":
-            setEvent(payload.event);
-            setMarkets(payload.markets || []);
-            if (payload.resolvedEvents) {
-              setResolvedEvents(payload.resolvedEvents);
+          case "meta": {
+            const metaGameId: string = payload.gameId || payload.event?.event_ticker || "";
+            const metaMarkets: KalshiMarket[] = payload.markets || [];
+            const liveTickers = new Set(metaMarkets.map((m) => m.ticker || m.market_ticker || ""));
+            // Drop live data for markets removed from this game
+            const previousTickers = gameMarketsRef.current.get(metaGameId);
+            gameMarketsRef.current.set(metaGameId, liveTickers);
+            const removedTickers = previousTickers ? [...previousTickers].filter((t) => !liveTickers.has(t)) : [];
+            if (removedTickers.length > 0) {
+              const prune = <T,>(prev: Map<string, T>) => {
+                const next = new Map(prev);
+                for (const ticker of removedTickers) next.delete(ticker);
+                return next;
+              };
+              setMarketStats(prune);
+              setMidHistory(prune);
+              setTickerData(prune);
+              setBooks(prune);
             }
-            if (payload.gameId) {
-              setGameId(payload.gameId);
+            setGames((prev) => new Map(prev).set(metaGameId, {
+              gameId: metaGameId,
+              event: payload.event,
+              markets: metaMarkets,
+              resolvedEvents: payload.resolvedEvents || [],
+              excludedMarkets: payload.excludedMarkets || [],
+              resolution: payload.resolution || null,
+            }));
+            setGameOrder((prev) => payload.gameIds || (prev.includes(metaGameId) ? prev : [...prev, metaGameId]));
+            setActiveGameId((prev) => prev ?? metaGameId);
+            if (payload.streamId) {
+              setStreamId(payload.streamId);
+            }
+            break;
+          }
+
+          case "history":
+            // Backfilled candle mids go in front of anything already streamed
+            if (payload.markets) {
+              setMidHistory((prev) => {
+                const next = new Map(prev);
+                for (const [ticker, mids] of Object.entries(payload.markets as Record<string, { ts: number; mid: number }[]>)) {
+                  const lastSeeded = mids.length > 0 ? mids[mids.length - 1].ts : 0;
+                  const live = (next.get(ticker) || []).filter((p) => p.ts > lastSeeded);
+                  next.set(ticker, [...mids, ...live].slice(-60));
+                }
+                return next;
+              });
             }
             break;
 
@@ -330,6 +592,25 @@ export default function Home() {
             });
             break;
 
+          case "orderbook":
+            // Full-depth streams keep their books from `depth` payloads
+            if (depthMode) break;
+            setBooks((prev) => new Map(prev).set(payload.market_ticker, {
+              yes: new Map(payload.yes_levels),
+              no: new Map(payload.no_levels),
+            }));
+            break;
+
+          case "depth":
+            setBooks((prev) => {
+              const current = payload.snapshot ? undefined : prev.get(payload.market_ticker);
+              return new Map(prev).set(payload.market_ticker, {
+                yes: applyLevels(current?.yes ?? new Map(), payload.yes),
+                no: applyLevels(current?.no ?? new Map(), payload.no),
+              });
+            });
+            break;
+
           case "raw":
             setRawMessages((prev) => {
               const next = [...prev, ...payload.messages];
@@ -365,17 +646,24 @@ export default function Home() {
             }
             break;
 
-          case "signals":
+          case "signals": {
+            const signalsGameId: string = payload.gameId || "";
             if (payload.signals) {
-              setSignals(payload.signals);
+              setSignalsByGame((prev) => new Map(prev).set(signalsGameId, payload.signals));
             }
             if (payload.ladders) {
-              setLadders(payload.ladders);
+              setLaddersByGame((prev) => new Map(prev).set(signalsGameId, payload.ladders));
             }
             break;
+          }
 
           case "error":
-            setError(payload.message);
+            // A single watchlist game failed to resolve; the others keep streaming
+            if (payload.gameId) {
+              setError(`${payload.gameId.toUpperCase()}: ${payload.message}`);
+              break;
+            }
+            setError(payload.retryable ? `${payload.message} (temporary Kalshi error, try reconnecting shortly)` : payload.message);
             if (payload.requiresAuth) {
               setRequiresAuth(true);
             }
@@ -392,7 +680,14 @@ export default function Home() {
         setStatus("disconnected");
       }
     };
-  }, [eventTicker, disconnect]);
+  }, [eventTicker, fullDepth, disconnect]);
+
+  useEffect(() => {
+    fetch("/api/auth/status")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setCredentials)
+      .catch(() => setCredentials(null));
+  }, []);
 
   useEffect(() => {
     return () => {
@@ -504,7 +799,16 @@ export default function Home() {
     }
   };
 
-  const filteredStats = Array.from(marketStats.values()).filter((stats) => {
+  const activeTickers = new Set(markets.map((m) => m.ticker || m.market_ticker || ""));
+
+  const fromPerspective = (stats: MarketStats) => (perspective === 'no' ? fromNoSide(stats) : stats);
+  const fromPerspectiveHistory = (history: { ts: number; mid: number }[]) =>
+    perspective === 'no' ? history.map((point) => ({ ...point, mid: 100 - point.mid })) : history;
+
+  const filteredStats = Array.from(marketStats.values()).map(fromPerspective).filter((stats) => {
+    if (activeGame && !activeTickers.has(stats.market_ticker)) {
+      return false;
+    }
     if (statsSearch && !stats.market_ticker.toLowerCase().includes(statsSearch.toLowerCase())) {
       return false;
     }
@@ -550,7 +854,7 @@ export default function Home() {
   const filteredRawMessages = rawMessages.filter((msg) => {
     const type = msg.data?.type;
     if (type === "ticker" && !filterTicker) return false;
-    if ((type === "orderbook_snapshot" || type === "orderbook_delta") && !filterOrderbook) return false;
+    if ((type === "orderbook_snapshot" || type === "orderbook_delta" || type === "book_resync") && !filterOrderbook) return false;
     if (type === "trade" && !filterTrade) return false;
     return true;
   });
@@ -560,6 +864,8 @@ export default function Home() {
     resolving: "bg-yellow-500",
     connecting: "bg-yellow-500",
     streaming: "bg-green-500",
+    degraded: "bg-amber-500",
+    reconnecting: "bg-orange-500",
     error: "bg-red-500",
   };
 
@@ -600,12 +906,84 @@ export default function Home() {
   const freshCount = Array.from(marketStats.values()).filter(s => s.feed_status === 'fresh').length;
   const staleCount = Array.from(marketStats.values()).filter(s => s.feed_status === 'stale').length;
   const totalTradesPerMin = Array.from(marketStats.values()).reduce((sum, s) => sum + (s.trades_per_min || 0), 0);
-  const signalsFiring = signals.length;
+  // Signal board spans every game on the watchlist, most severe first
+  const boardSignals = Array.from(signalsByGame.entries())
+    .flatMap(([id, items]) => items.map((signal) => ({ ...signal, gameId: id })))
+    .sort((a, b) => (b.severity_score ?? 0) - (a.severity_score ?? 0) || b.ts - a.ts);
+  const signalsFiring = boardSignals.length;
+  const watchlistMarketCount = Array.from(games.values()).reduce((sum, g) => sum + g.markets.length, 0);
   const msgPerSec = lastMessageTs ? Math.round(messageCount / ((Date.now() - (lastMessageTs - 30000)) / 1000)) : 0;
 
   // Get stats for selected market
-  const selectedStats = selectedMarket ? marketStats.get(selectedMarket) : null;
-  const selectedHistory = selectedMarket ? midHistory.get(selectedMarket) || [] : [];
+  const selectedMarketStats = selectedMarket ? marketStats.get(selectedMarket) : undefined;
+  const selectedStats = selectedMarketStats ? fromPerspective(selectedMarketStats) : null;
+  const selectedHistory = selectedMarket ? fromPerspectiveHistory(midHistory.get(selectedMarket) || []) : [];
+  const selectedBook = selectedMarket ? books.get(selectedMarket) : undefined;
+  const selectedMarketInfo = selectedMarket
+    ? markets.find(m => m.ticker === selectedMarket || m.market_ticker === selectedMarket)
+    : undefined;
+
+  // Add or remove markets on the running stream
+  const updateStreamMarkets = async (change: { add?: string[]; remove?: string[] }) => {
+    if (!streamId) return;
+    try {
+      const res = await fetch("/api/stream/markets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ streamId, ...change }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body.error || `Failed to update markets (${res.status})`);
+        return;
+      }
+      if (change.remove?.includes(selectedMarket ?? "")) {
+        setSelectedMarket(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update markets");
+    }
+  };
+
+  // Walk the live book on the server for the order in the fill calculator
+  const requestFill = async () => {
+    if (!streamId || !selectedMarket) return;
+    const amount = Number(fillAmount);
+    if (!(amount > 0)) {
+      setFillError("Enter a positive amount");
+      return;
+    }
+    try {
+      const res = await fetch("/api/stream/fill", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ streamId, market: selectedMarket, side: fillSide, action: fillAction, [fillUnit]: amount }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setFillQuote(null);
+        setFillError(body.error || `Quote failed (${res.status})`);
+        return;
+      }
+      setFillQuote(body);
+      setFillError(null);
+    } catch (err) {
+      setFillError(err instanceof Error ? err.message : "Quote failed");
+    }
+  };
+
+  const submitAddMarkets = () => {
+    const tickers = addMarketsInput.split(/[\s,]+/).map((t) => t.trim()).filter(Boolean);
+    if (tickers.length === 0) return;
+    updateStreamMarkets({ add: tickers });
+    setAddMarketsInput("");
+  };
+
+  const selectGame = (id: string) => {
+    setActiveGameId(id);
+    setSelectedMarket(null);
+    setDebugMarket(null);
+  };
 
   // Copy signal to clipboard
   const copySignalToClipboard = (signal: SignalItem) => {
@@ -631,7 +1009,7 @@ export default function Home() {
                   <p className="text-[10px] text-gray-500 uppercase tracking-widest font-medium">Market Terminal</p>
                 </div>
                 <Badge variant="outline" className="text-[10px] ml-2 border-gray-700 text-gray-400 bg-gray-900/50">
-                  {process.env.NEXT_PUBLIC_KALSHI_ENV === 'demo' ? 'DEMO ENV' : 'LIVE'}
+                  {process.env.NEXT_PUBLIC_KALSHI_ENV === 'demo' ? 'DEMO ENV' : process.env.NEXT_PUBLIC_KALSHI_ENV === 'mock' ? 'MOCK ENV' : 'LIVE'}
                 </Badge>
               </div>
 
@@ -640,7 +1018,7 @@ export default function Home() {
                   <Input
                     value={eventTicker}
                     onChange={(e) => setEventTicker(e.target.value)}
-                    placeholder="Search Event (e.g., kxnflgame-...)"
+                    placeholder="Event ticker(s), comma-separated (e.g., kxnflgame-...)"
                     className="w-full bg-gray-900/50 border-gray-800 text-sm focus:border-blue-500/50 transition-all font-mono pl-3"
                     onKeyDown={(e) => e.key === "Enter" && connect(true)}
                   />
@@ -657,6 +1035,69 @@ export default function Home() {
                   </div>
                 </div>
 
+                <GamePicker
+                  onLaunch={(ticker) => {
+                    setEventTicker(ticker);
+                    connect(true, ticker);
+                  }}
+                  onAdd={(ticker) => setEventTicker((prev) => {
+                    const current = prev.split(/[\s,]+/).filter(Boolean);
+                    return current.some((t) => t.toLowerCase() === ticker.toLowerCase())
+                      ? prev
+                      : [...current, ticker].join(", ");
+                  })}
+                />
+
+                {/* Book Depth */}
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        const next = !fullDepth;
+                        setFullDepth(next);
+                        if (status !== "disconnected" && status !== "error") connect(true, undefined, next);
+                      }}
+                      className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-full border text-xs ${
+                        fullDepth ? 'bg-blue-950/30 border-blue-800/50 text-blue-300' : 'bg-gray-900/50 border-gray-800 text-gray-500'
+                      }`}
+                    >
+                      <Layers className="w-3 h-3" />
+                      {fullDepth ? 'Full depth' : 'Top 5'}
+                    </button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Stream every book level instead of the top five (reconnects a running stream)</p>
+                  </TooltipContent>
+                </Tooltip>
+
+                {/* Signing Credentials */}
+                {credentials && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <div className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-full border text-xs ${
+                        credentials.usable
+                          ? 'bg-emerald-950/30 border-emerald-800/50 text-emerald-400'
+                          : credentials.code === 'missing_private_key' && !credentials.accessKey
+                            ? 'bg-gray-900/50 border-gray-800 text-gray-500'
+                            : 'bg-amber-950/30 border-amber-800/50 text-amber-400'
+                      }`}>
+                        <KeyRound className="w-3 h-3" />
+                        {credentials.usable ? 'Signed' : credentials.code === 'missing_private_key' && !credentials.accessKey ? 'Public' : 'Key error'}
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>{credentials.message}</p>
+                      {credentials.accessKey && <p className="text-xs text-gray-400 mt-1 font-mono">Key {credentials.accessKey}</p>}
+                      {credentials.keyFormat && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          {credentials.keyFormat.toUpperCase()}{credentials.encrypted ? ', encrypted' : ''}{credentials.modulusBits ? `, ${credentials.modulusBits}-bit` : ''}
+                        </p>
+                      )}
+                    </TooltipContent>
+                  </Tooltip>
+                )}
+
                 {/* Connection Status */}
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -668,6 +1109,11 @@ export default function Home() {
                           {msgPerSec} msg/s
                         </span>
                       )}
+                      {status === 'reconnecting' && reconnectAttempt > 0 && (
+                        <span className="text-orange-400/80 border-l border-gray-800 pl-2 ml-1">
+                          retry {reconnectAttempt}
+                        </span>
+                      )}
                     </div>
                   </TooltipTrigger>
                   <TooltipContent>
@@ -704,7 +1150,7 @@ export default function Home() {
           )}
 
           {/* Overview Cards */}
-          {status === 'streaming' && (
+          {(status === 'streaming' || status === 'degraded') && (
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
               <Card className="glass-card hover:bg-white/5 transition-colors group">
                 <CardContent className="p-4">
@@ -763,7 +1209,7 @@ export default function Home() {
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="text-[10px] text-gray-500 uppercase tracking-wider font-semibold group-hover:text-gray-400 transition-colors">Tickers</p>
-                      <p className="text-2xl font-bold text-gray-200 font-mono-nums mt-1">{markets.length}</p>
+                      <p className="text-2xl font-bold text-gray-200 font-mono-nums mt-1">{watchlistMarketCount}</p>
                     </div>
                     <div className="p-2 rounded-lg bg-gray-800 group-hover:bg-gray-700 transition-colors">
                       <TrendingUp className="w-5 h-5 text-gray-400" />
@@ -774,6 +1220,35 @@ export default function Home() {
             </div>
           )}
 
+          {/* Game Switcher */}
+          {isWatchlist && (
+            <div className="flex flex-wrap gap-2">
+              {gameOrder.map((id) => {
+                const game = games.get(id);
+                const signalCount = signalsByGame.get(id)?.length ?? 0;
+                return (
+                  <button
+                    key={id}
+                    onClick={() => selectGame(id)}
+                    title={game?.event.title}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-xs font-mono transition-all ${activeGameId === id
+                      ? 'bg-blue-500/20 border-blue-500/40 text-blue-200'
+                      : 'bg-gray-900/50 border-gray-800 text-gray-400 hover:text-gray-200 hover:bg-white/5'
+                      }`}
+                  >
+                    {id.toUpperCase()}
+                    {game && <span className="text-[10px] text-gray-500">{game.markets.length}</span>}
+                    {signalCount > 0 && (
+                      <span className="min-w-[16px] h-4 px-1 rounded-full bg-purple-500/20 text-purple-400 text-[10px] flex items-center justify-center font-bold">
+                        {signalCount}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {/* Event Info */}
           {event && (
             <div className="glass-panel rounded-xl p-6 relative overflow-hidden group">
@@ -800,6 +1275,73 @@ export default function Home() {
                       <Badge variant="secondary" className="h-5 text-[10px] px-1.5 min-w-[20px] justify-center">{re.marketCount}</Badge>
                     </div>
                   ))}
+                  {resolution && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <div className="px-3 py-1.5 rounded-lg bg-gray-900/50 border border-gray-800 flex items-center gap-2 cursor-help">
+                          <span className="text-[10px] uppercase text-gray-500 font-bold">
+                            {resolution.method === 'series_listing' ? 'Discovered' : 'Prefix'}
+                          </span>
+                          <Badge variant="secondary" className="h-5 text-[10px] px-1.5 min-w-[20px] justify-center">
+                            {resolution.candidates.filter((c) => c.status === 'found').length}/{resolution.candidates.length}
+                          </Badge>
+                        </div>
+                      </TooltipTrigger>
+                      <TooltipContent className="max-w-md">
+                        <p className="text-xs mb-1">
+                          {resolution.method === 'series_listing'
+                            ? `Listed open events in ${resolution.seriesScanned} series:`
+                            : `Prefix table fallback (${resolution.fallbackReason ?? 'discovery unavailable'}):`}
+                        </p>
+                        <div className="font-mono text-[10px] space-y-0.5 max-h-64 overflow-hidden">
+                          {resolution.candidates.slice(0, 20).map((c, i) => (
+                            <p key={`${c.seriesTicker ?? ''}-${c.eventTicker ?? ''}-${i}`} className={c.status === 'found' ? '' : 'text-gray-500'}>
+                              {c.eventTicker ?? c.seriesTicker}{' '}
+                              <span className="text-gray-400">
+                                {c.status}{c.groupType ? ` · ${c.groupType}` : ''}{c.marketCount !== undefined ? ` · ${c.marketCount} mkts` : ''}{c.error ? ` · ${c.error}` : ''}
+                              </span>
+                            </p>
+                          ))}
+                          {resolution.candidates.length > 20 && <p className="text-gray-400">+{resolution.candidates.length - 20} more</p>}
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
+                  {excludedMarkets.length > 0 && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <div className="px-3 py-1.5 rounded-lg bg-amber-500/10 border border-amber-500/20 flex items-center gap-2 cursor-help">
+                          <span className="text-[10px] uppercase text-amber-400/80 font-bold">Excluded</span>
+                          <Badge variant="secondary" className="h-5 text-[10px] px-1.5 min-w-[20px] justify-center">{excludedMarkets.length}</Badge>
+                        </div>
+                      </TooltipTrigger>
+                      <TooltipContent className="max-w-md">
+                        <p className="text-xs mb-1">Ranked below the per-group quota (volume, open interest, distance from ladder center):</p>
+                        <div className="font-mono text-[10px] space-y-0.5 max-h-64 overflow-hidden">
+                          {excludedMarkets.slice(0, 20).map((m) => (
+                            <p key={m.ticker}>
+                              {m.ticker} <span className="text-gray-400">{m.group_type} #{m.rank} (quota {m.quota}, score {m.score.toFixed(2)})</span>
+                            </p>
+                          ))}
+                          {excludedMarkets.length > 20 && <p className="text-gray-400">+{excludedMarkets.length - 20} more</p>}
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
+                  {streamId && (
+                    <div className="flex items-center gap-1 w-full justify-end">
+                      <Input
+                        value={addMarketsInput}
+                        onChange={(e) => setAddMarketsInput(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && submitAddMarkets()}
+                        placeholder="Add market tickers..."
+                        className="w-56 h-7 text-xs bg-black/20 border-white/10 font-mono focus:border-blue-500/50"
+                      />
+                      <Button onClick={submitAddMarkets} variant="ghost" size="icon" title="Add markets to stream" className="h-7 w-7 text-gray-400 hover:text-white">
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -819,9 +1361,9 @@ export default function Home() {
                 className="rounded-none border-b-2 border-transparent data-[state=active]:border-purple-500 data-[state=active]:bg-transparent data-[state=active]:text-purple-400 px-0 py-3 text-sm font-medium text-gray-400 hover:text-gray-200 transition-colors gap-2"
               >
                 <Zap className="w-4 h-4" /> Signal Board
-                {signals.length > 0 && (
+                {boardSignals.length > 0 && (
                   <span className="w-5 h-5 rounded-full bg-purple-500/20 text-purple-400 text-[10px] flex items-center justify-center font-bold">
-                    {signals.length}
+                    {boardSignals.length}
                   </span>
                 )}
               </TabsTrigger>
@@ -865,6 +1407,7 @@ export default function Home() {
                             </button>
                           ))}
                         </div>
+                        <Segmented value={perspective} onChange={setPerspective} options={[['yes', 'YES'], ['no', 'NO']]} />
                         <div className="flex items-center gap-3 px-3 py-1.5 rounded-lg border border-white/5 bg-black/20">
                           <label className="flex items-center gap-2 text-[10px] cursor-pointer text-gray-400 hover:text-gray-200">
                             <input
@@ -926,7 +1469,7 @@ export default function Home() {
                             })
                             .map((stats) => {
                               const market = markets.find(m => m.ticker === stats.market_ticker || m.market_ticker === stats.market_ticker);
-                              const history = midHistory.get(stats.market_ticker) || [];
+                              const history = fromPerspectiveHistory(midHistory.get(stats.market_ticker) || []);
                               const delta = stats.price_delta_1m;
                               const deltaColor = delta && delta > 0 ? "text-emerald-400" : delta && delta < 0 ? "text-rose-400" : "text-gray-500";
 
@@ -1002,6 +1545,8 @@ export default function Home() {
                                       {stats.jump_flag && <Badge variant="jump" className="text-[9px] px-1.5 h-4">JUMP</Badge>}
                                       {stats.signals?.includes('STALE_QUOTE') && <Badge variant="stale" className="text-[9px] px-1.5 h-4">STALE</Badge>}
                                       {stats.signals?.includes('MONO_VIOLATION') && <Badge variant="destructive" className="text-[9px] px-1.5 h-4">MONO</Badge>}
+                                      {stats.book_integrity === 'resyncing' && <Badge variant="warning" className="text-[9px] px-1.5 h-4">RESYNC</Badge>}
+                                      {stats.crossed && <Badge variant="warning" className="text-[9px] px-1.5 h-4">CROSSED</Badge>}
                                       {/* Only show generic Status badge if no specific signals or if stale */}
                                       {(!stats.signals || stats.signals.length === 0) && (
                                         <div className={`w-1.5 h-1.5 rounded-full ${stats.feed_status === 'fresh' ? 'bg-emerald-500/50' : 'bg-amber-500/50'}`} />
@@ -1024,13 +1569,20 @@ export default function Home() {
                       <div className="flex items-center justify-between">
                         <div className="overflow-hidden">
                           <p className="text-[10px] text-blue-400 font-mono mb-1">{selectedMarket}</p>
-                          <CardTitle className="text-sm truncate pr-2 text-white">
-                            {markets.find(m => m.ticker === selectedMarket || m.market_ticker === selectedMarket)?.title || "Unknown Market"}
+                          <CardTitle className="text-sm truncate pr-2 text-white" title={selectedMarketInfo?.rules_primary}>
+                            {selectedMarketInfo?.title || "Unknown Market"}
                           </CardTitle>
                         </div>
-                        <Button variant="ghost" size="icon" onClick={() => setSelectedMarket(null)} className="h-6 w-6 text-gray-400 hover:text-white">
-                          <X className="w-4 h-4" />
-                        </Button>
+                        <div className="flex items-center gap-1">
+                          {streamId && (
+                            <Button variant="ghost" size="icon" onClick={() => updateStreamMarkets({ remove: [selectedMarket] })} title="Remove market from stream" className="h-6 w-6 text-gray-400 hover:text-red-400">
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="icon" onClick={() => setSelectedMarket(null)} className="h-6 w-6 text-gray-400 hover:text-white">
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
                       </div>
                     </CardHeader>
                     <CardContent className="space-y-6 pt-6">
@@ -1038,7 +1590,7 @@ export default function Home() {
                       {selectedHistory.length > 1 && (
                         <div>
                           <div className="flex items-center justify-between mb-2">
-                            <p className="text-xs text-gray-400">Price Action (60s)</p>
+                            <p className="text-xs text-gray-400">Price Action</p>
                             <span className="text-xs font-mono text-white">{formatPrice(selectedStats.mid)}</span>
                           </div>
                           <div className="h-32 w-full bg-black/20 rounded-lg p-2 border border-white/5">
@@ -1065,15 +1617,43 @@ export default function Home() {
                         </div>
                       )}
 
+                      {/* Contract Terms */}
+                      {selectedMarketInfo && (selectedMarketInfo.close_time || selectedMarketInfo.strike_type || selectedMarketInfo.liquidity !== undefined) && (
+                        <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[10px] font-mono">
+                          {selectedMarketInfo.close_time && (
+                            <>
+                              <span className="text-gray-500 uppercase tracking-wider">Closes</span>
+                              <span className="text-gray-300 text-right">{new Date(selectedMarketInfo.close_time).toLocaleString()}</span>
+                            </>
+                          )}
+                          {selectedMarketInfo.strike_type && (
+                            <>
+                              <span className="text-gray-500 uppercase tracking-wider">Strike</span>
+                              <span className="text-gray-300 text-right">
+                                {selectedMarketInfo.strike_type}
+                                {selectedMarketInfo.floor_strike !== undefined && ` ≥ ${selectedMarketInfo.floor_strike}`}
+                                {selectedMarketInfo.cap_strike !== undefined && ` ≤ ${selectedMarketInfo.cap_strike}`}
+                              </span>
+                            </>
+                          )}
+                          {selectedMarketInfo.liquidity !== undefined && (
+                            <>
+                              <span className="text-gray-500 uppercase tracking-wider">Liquidity</span>
+                              <span className="text-gray-300 text-right">${(selectedMarketInfo.liquidity / 100).toLocaleString()}</span>
+                            </>
+                          )}
+                        </div>
+                      )}
+
                       {/* Key Stats Grid */}
                       <div className="grid grid-cols-2 gap-3">
                         <div className="glass-card p-3 rounded-lg border-white/5 bg-white/[0.02]">
-                          <p className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">Best Bid</p>
+                          <p className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">Best {perspective.toUpperCase()} Bid</p>
                           <p className="font-mono text-lg text-emerald-400">{formatPrice(selectedStats.best_bid)}</p>
                           <p className="text-[10px] text-gray-500 font-mono mt-0.5">Size: {selectedStats.bid_size_top}</p>
                         </div>
                         <div className="glass-card p-3 rounded-lg border-white/5 bg-white/[0.02]">
-                          <p className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">Best Ask</p>
+                          <p className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">Best {perspective.toUpperCase()} Ask</p>
                           <p className="font-mono text-lg text-rose-400">{formatPrice(selectedStats.best_ask)}</p>
                           <p className="text-[10px] text-gray-500 font-mono mt-0.5">Size: {selectedStats.ask_size_top}</p>
                         </div>
@@ -1087,6 +1667,124 @@ export default function Home() {
                         </div>
                       </div>
 
+                      {/* Depth */}
+                      {selectedBook && (selectedBook.yes.size > 0 || selectedBook.no.size > 0) && (
+                        <div className="text-xs">
+                          <div className="flex items-center justify-between mb-2">
+                            <p className="text-gray-500 font-medium">Depth</p>
+                            <span className="text-[10px] text-gray-500 uppercase tracking-wider">{fullDepth ? "Full book" : "Top 5 levels"}</span>
+                          </div>
+                          <div className="bg-black/20 rounded-lg p-2 border border-white/5">
+                            <DepthChart
+                              bids={Array.from(perspective === 'yes' ? selectedBook.yes : selectedBook.no)}
+                              asks={Array.from(perspective === 'yes' ? selectedBook.no : selectedBook.yes, ([price, size]): [number, number] => [100 - price, size])}
+                            />
+                          </div>
+                          {selectedStats.depth_bands && Object.keys(selectedStats.depth_bands).length > 0 && (
+                            <table className="w-full font-mono text-[11px] mt-2">
+                              <thead>
+                                <tr className="text-[10px] text-gray-500 uppercase tracking-wider">
+                                  <th className="text-left font-medium pb-1">±Mid</th>
+                                  <th className="text-right font-medium pb-1">Bids</th>
+                                  <th className="text-right font-medium pb-1">Asks</th>
+                                  <th className="text-right font-medium pb-1">Move ↑</th>
+                                  <th className="text-right font-medium pb-1">Move ↓</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {Object.entries(selectedStats.depth_bands).map(([label, band]) => (
+                                  <tr key={label} className="text-gray-300">
+                                    <td className="text-gray-500 py-0.5">{band.cents}¢</td>
+                                    <td className="text-right text-emerald-400">{band.bid_depth.toLocaleString()}</td>
+                                    <td className="text-right text-rose-400">{band.ask_depth.toLocaleString()}</td>
+                                    <td className="text-right">{band.cost_up !== undefined ? `$${Math.round(band.cost_up).toLocaleString()}` : '—'}</td>
+                                    <td className="text-right">{band.cost_down !== undefined ? `$${Math.round(band.cost_down).toLocaleString()}` : '—'}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Fill Calculator */}
+                      {streamId && (
+                        <div className="text-xs">
+                          <p className="text-gray-500 mb-2 font-medium">Fill Calculator</p>
+                          <div className="flex flex-wrap items-center gap-1.5">
+                            <Segmented value={fillAction} onChange={setFillAction} options={[['buy', 'Buy'], ['sell', 'Sell']]} />
+                            <Segmented value={fillSide} onChange={setFillSide} options={[['yes', 'YES'], ['no', 'NO']]} />
+                            <Segmented value={fillUnit} onChange={setFillUnit} options={[['contracts', '#'], ['dollars', '$']]} />
+                            <Input
+                              value={fillAmount}
+                              onChange={(e) => setFillAmount(e.target.value)}
+                              onKeyDown={(e) => e.key === "Enter" && requestFill()}
+                              inputMode="decimal"
+                              className="w-20 h-6 text-xs bg-black/20 border-white/10 font-mono focus:border-blue-500/50"
+                            />
+                            <Button onClick={requestFill} size="sm" className="h-6 text-[10px] bg-blue-600 hover:bg-blue-500">
+                              Quote
+                            </Button>
+                          </div>
+                          {fillError && <p className="text-rose-400 mt-2">{fillError}</p>}
+                          {fillQuote && fillQuote.market_ticker === selectedMarket && (
+                            <div className="grid grid-cols-2 gap-x-3 gap-y-1 mt-2 text-[10px] font-mono">
+                              <span className="text-gray-500 uppercase tracking-wider">Filled</span>
+                              <span className={`text-right ${fillQuote.complete ? "text-gray-300" : "text-amber-400"}`}>
+                                {fillQuote.contracts.toLocaleString()} {fillQuote.side.toUpperCase()}{fillQuote.complete ? "" : " (book exhausted)"}
+                              </span>
+                              <span className="text-gray-500 uppercase tracking-wider">{fillQuote.action === "buy" ? "Cost" : "Proceeds"}</span>
+                              <span className="text-gray-300 text-right">${fillQuote.notional.toFixed(2)}</span>
+                              <span className="text-gray-500 uppercase tracking-wider">Avg / Worst</span>
+                              <span className="text-gray-300 text-right">
+                                {fillQuote.avg_price !== undefined ? `${fillQuote.avg_price.toFixed(2)}¢` : "—"} / {formatPrice(fillQuote.worst_price)}
+                              </span>
+                              <span className="text-gray-500 uppercase tracking-wider">Levels</span>
+                              <span className="text-gray-300 text-right">{fillQuote.levels_consumed}</span>
+                              <span className="text-gray-500 uppercase tracking-wider">Vs Mid</span>
+                              <span className="text-gray-300 text-right">
+                                {fillQuote.slippage_cents !== undefined && fillQuote.cost_vs_mid !== undefined
+                                  ? `${fillQuote.slippage_cents.toFixed(2)}¢ ($${fillQuote.cost_vs_mid.toFixed(2)})`
+                                  : "—"}
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Horizons */}
+                      {selectedStats.windows && Object.keys(selectedStats.windows).length > 0 && (
+                        <div className="text-xs">
+                          <p className="text-gray-500 mb-2 font-medium">Horizons</p>
+                          <table className="w-full font-mono text-[11px]">
+                            <thead>
+                              <tr className="text-[10px] text-gray-500 uppercase tracking-wider">
+                                <th className="text-left font-medium pb-1"></th>
+                                <th className="text-right font-medium pb-1">Δ</th>
+                                <th className="text-right font-medium pb-1">VWAP</th>
+                                <th className="text-right font-medium pb-1">Trades</th>
+                                <th className="text-right font-medium pb-1">Buy</th>
+                                <th className="text-right font-medium pb-1">RV</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {Object.entries(selectedStats.windows).map(([label, w]) => (
+                                <tr key={label} className="text-gray-300">
+                                  <td className="text-gray-500 py-0.5">{label}</td>
+                                  <td className={`text-right ${w.price_delta && w.price_delta > 0 ? "text-emerald-400" : w.price_delta && w.price_delta < 0 ? "text-rose-400" : ""}`}>
+                                    {w.price_delta !== undefined ? (w.price_delta > 0 ? '+' : '') + w.price_delta.toFixed(1) + '¢' : '—'}
+                                  </td>
+                                  <td className="text-right">{formatPrice(w.vwap !== undefined ? Math.round(w.vwap * 10) / 10 : undefined)}</td>
+                                  <td className="text-right">{w.trade_count}</td>
+                                  <td className="text-right">{formatPercent(w.buy_pressure)}</td>
+                                  <td className="text-right text-blue-300">{formatDecimal(w.realized_vol, 1)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+
                       {/* Health */}
                       <div className="text-xs pt-4 border-t border-white/5">
                         <p className="text-gray-500 mb-2 font-medium">Data Freshness</p>
@@ -1097,6 +1795,9 @@ export default function Home() {
                           <span className={selectedStats.last_orderbook_age_ms && selectedStats.last_orderbook_age_ms < 500 ? "text-emerald-400" : ""}>
                             Bk: {formatAge(selectedStats.last_orderbook_age_ms)}
                           </span>
+                          <span className={selectedStats.book_integrity === 'ok' ? "text-emerald-400" : selectedStats.book_integrity === 'resyncing' ? "text-amber-400" : ""}>
+                            Seq: {selectedStats.book_integrity ?? "—"}
+                          </span>
                         </div>
                       </div>
                     </CardContent>
@@ -1115,7 +1816,7 @@ export default function Home() {
                       Signal Board
                     </CardTitle>
                     <Badge variant="outline" className="text-xs border-purple-500/30 text-purple-400 bg-purple-500/10">
-                      {signals.length} active signals
+                      {boardSignals.length} active signals{isWatchlist && ` across ${gameOrder.length} games`}
                     </Badge>
                   </div>
                   <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
@@ -1124,7 +1825,7 @@ export default function Home() {
                   </p>
                 </CardHeader>
                 <CardContent className="pt-6">
-                  {signals.length === 0 ? (
+                  {boardSignals.length === 0 ? (
                     <div className="text-center py-12 text-gray-500">
                       <div className="w-16 h-16 rounded-full bg-white/5 flex items-center justify-center mx-auto mb-4">
                         <Zap className="w-8 h-8 opacity-50" />
@@ -1135,8 +1836,8 @@ export default function Home() {
                   ) : (
                     <ScrollArea className="h-[500px] pr-4">
                       <div className="space-y-3">
-                        {signals.map((signal) => (
-                          <div key={signal.id} className="p-4 bg-white/5 rounded-xl border border-white/5 hover:border-white/10 transition-all hover:shadow-lg hover:shadow-purple-900/10 group">
+                        {boardSignals.map((signal) => (
+                          <div key={`${signal.gameId}:${signal.id}`} className="p-4 bg-white/5 rounded-xl border border-white/5 hover:border-white/10 transition-all hover:shadow-lg hover:shadow-purple-900/10 group">
                             <div className="flex items-start justify-between gap-4">
                               <div className="flex-1">
                                 <div className="flex items-center gap-2 mb-2">
@@ -1158,6 +1859,15 @@ export default function Home() {
                                   <span className="text-[10px] text-gray-500 font-mono">
                                     {new Date(signal.ts).toLocaleTimeString()}
                                   </span>
+                                  {isWatchlist && (
+                                    <button
+                                      onClick={() => selectGame(signal.gameId)}
+                                      title="Show this game"
+                                      className="text-[10px] font-mono px-1.5 rounded bg-white/5 text-gray-400 hover:text-white hover:bg-white/10"
+                                    >
+                                      {signal.gameId.toUpperCase()}
+                                    </button>
+                                  )}
                                 </div>
                                 <p className="text-sm font-mono text-blue-400 mb-1 group-hover:text-blue-300 transition-colors">{signal.market_ticker}</p>
                                 <p className="text-sm text-gray-200 font-medium">{signal.suggested_action}</p>
@@ -1225,6 +1935,11 @@ export default function Home() {
                                     {ladder.diagnostics.duplicates_dropped} dupes
                                   </Badge>
                                 )}
+                                {ladder.diagnostics?.parse_disagreements > 0 && (
+                                  <Badge variant="outline" className="text-[10px] text-orange-400 border-orange-500/20 bg-orange-500/5">
+                                    {ladder.diagnostics.parse_disagreements} parse conflicts
+                                  </Badge>
+                                )}
                               </div>
                             </div>
                             <div className="flex gap-2">
@@ -1354,6 +2069,7 @@ export default function Home() {
                                             {pt.is_violation && <Badge variant="destructive" className="text-[9px] px-1">MONO</Badge>}
                                             {pt.is_outlier && <Badge variant="warning" className="text-[9px] px-1">OUTLIER</Badge>}
                                             {pt.parse_source === 'unknown' && <Badge variant="outline" className="text-[9px] px-1 text-orange-400">UNPARSED</Badge>}
+                                            {pt.parse_disagreement && <Badge variant="outline" className="text-[9px] px-1 text-orange-400">CONFLICT</Badge>}
                                           </div>
                                         </td>
                                       </tr>
@@ -1363,6 +2079,7 @@ export default function Home() {
                                         <p className="font-mono text-blue-400">{pt.market_ticker}</p>
                                         {pt.title && <p className="text-gray-400">{pt.title}</p>}
                                         <p>Source: {pt.parse_source || 'unknown'}</p>
+                                        {pt.parse_disagreement && <p className="text-orange-400">Parse conflict: {pt.parse_disagreement}</p>}
                                         {pt.is_violation && (
                                           <p className="text-red-400">
                                             Monotonic {ladder.expected_direction} violated vs adjacent line
@@ -0,0 +1,62 @@
+"use client";
+
+import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
+
+interface DepthChartProps {
+    /** Bids as [price, contracts], in the cents of the side being shown */
+    bids: [number, number][];
+    /** Asks as [price, contracts] */
+    asks: [number, number][];
+    height?: number;
+}
+
+interface DepthPoint {
+    price: number;
+    bid?: number;
+    ask?: number;
+}
+
+/** Cumulative depth: contracts bid at or above each price, and offered at or below it */
+export function DepthChart({ bids, asks, height = 128 }: DepthChartProps) {
+    const points: DepthPoint[] = [];
+
+    let cumulative = 0;
+    for (const [price, size] of [...bids].sort((a, b) => b[0] - a[0])) {
+        cumulative += size;
+        points.push({ price, bid: cumulative });
+    }
+    cumulative = 0;
+    for (const [price, size] of [...asks].sort((a, b) => a[0] - b[0])) {
+        cumulative += size;
+        points.push({ price, ask: cumulative });
+    }
+    points.sort((a, b) => a.price - b.price);
+
+    if (points.length === 0) {
+        return <div style={{ height }} className="bg-gray-800/20 rounded opacity-20" />;
+    }
+
+    return (
+        <div style={{ height }} className="w-full">
+            <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={points}>
+                    <XAxis
+                        dataKey="price"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        tick={{ fontSize: 10, fill: '#6b7280' }}
+                        tickFormatter={(price) => `${price}¢`}
+                    />
+                    <YAxis hide />
+                    <Area type="stepBefore" dataKey="bid" stroke="#10b981" fill="#10b981" fillOpacity={0.2} isAnimationActive={false} />
+                    <Area type="stepAfter" dataKey="ask" stroke="#f43f5e" fill="#f43f5e" fillOpacity={0.2} isAnimationActive={false} />
+                    <Tooltip
+                        contentStyle={{ background: 'rgba(9,9,11,0.9)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '8px', fontSize: '12px' }}
+                        labelFormatter={(price) => `${price}¢`}
+                        formatter={(value, name) => [Number(value).toLocaleString(), name === 'bid' ? 'Bid depth' : 'Ask depth']}
+                    />
+                </AreaChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { CalendarDays, Plus, RefreshCw, Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+interface GameListing {
+  eventTicker: string;
+  title: string;
+  gameId: string;
+  startTime: string | null;
+  marketCount: number;
+  totalVolume: number;
+  status: string;
+}
+
+interface LeagueGames {
+  leagueId: string;
+  name: string;
+  games: GameListing[];
+}
+
+interface GamesResponse {
+  leagues: LeagueGames[];
+  fetchedAt: string;
+  errors?: string[];
+}
+
+interface GamePickerProps {
+  /** Stream this game on its own */
+  onLaunch: (eventTicker: string) => void;
+  /** Append this game to the watchlist input */
+  onAdd: (eventTicker: string) => void;
+  className?: string;
+}
+
+function formatStart(startTime: string | null): string {
+  if (!startTime) return "TBD";
+  // Date-only values come from the game id and carry no time of day
+  if (/^\d{4}-\d{2}-\d{2}$/.test(startTime)) {
+    const [y, m, d] = startTime.split("-").map(Number);
+    return new Date(y, m - 1, d).toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" });
+  }
+  return new Date(startTime).toLocaleString([], { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function formatVolume(volume: number): string {
+  if (volume >= 1_000_000) return `${(volume / 1_000_000).toFixed(1)}M`;
+  if (volume >= 1_000) return `${(volume / 1_000).toFixed(1)}K`;
+  return String(volume);
+}
+
+export function GamePicker({ onLaunch, onAdd, className }: GamePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [data, setData] = useState<GamesResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/events");
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || `Failed to load games (${res.status})`);
+      setData(body);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load games");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = () => {
+    if (!open && !data && !loading) load();
+    setOpen(!open);
+  };
+
+  const leagues: LeagueGames[] = useMemo(() => {
+    if (!data) return [];
+    const q = query.trim().toLowerCase();
+    if (!q) return data.leagues;
+    return data.leagues
+      .map((league) => ({
+        ...league,
+        games: league.name.toLowerCase().includes(q)
+          ? league.games
+          : league.games.filter((g) =>
+              g.title.toLowerCase().includes(q) || g.eventTicker.toLowerCase().includes(q)
+            ),
+      }))
+      .filter((league) => league.games.length > 0);
+  }, [data, query]);
+
+  return (
+    <div className={cn("relative", className)}>
+      <Button
+        onClick={toggle}
+        variant="outline"
+        size="sm"
+        className="h-9 text-xs border-gray-800 bg-gray-900/50 text-gray-300 hover:text-white"
+      >
+        <CalendarDays className="w-3.5 h-3.5 mr-1.5" />
+        Browse
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-11 z-50 w-[420px] max-w-[90vw] rounded-xl border border-gray-800 bg-gray-950/95 backdrop-blur shadow-2xl">
+          <div className="flex items-center gap-2 p-2 border-b border-gray-800">
+            <Search className="w-3.5 h-3.5 text-gray-500 ml-1" />
+            <Input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === "Escape" && setOpen(false)}
+              placeholder="Search team, league or ticker..."
+              className="h-7 text-xs bg-transparent border-0 focus-visible:ring-0"
+            />
+            <Button onClick={load} variant="ghost" size="icon" title="Refresh" className="h-7 w-7 text-gray-400 hover:text-white">
+              <RefreshCw className={cn("w-3.5 h-3.5", loading && "animate-spin")} />
+            </Button>
+          </div>
+
+          <div className="max-h-[420px] overflow-auto p-2 space-y-3">
+            {error && <p className="text-xs text-red-400 px-1">{error}</p>}
+            {loading && !data && <p className="text-xs text-gray-500 px-1">Loading open games...</p>}
+            {data && leagues.length === 0 && <p className="text-xs text-gray-500 px-1">No open games match.</p>}
+
+            {leagues.map((league) => (
+              <div key={league.leagueId}>
+                <div className="flex items-center justify-between px-1 mb-1">
+                  <span className="text-[10px] uppercase tracking-wider font-bold text-gray-500">{league.name}</span>
+                  <span className="text-[10px] text-gray-600">{league.games.length}</span>
+                </div>
+                {league.games.map((game) => (
+                  <div
+                    key={game.eventTicker}
+                    className="group flex items-center gap-2 rounded-lg px-2 py-1.5 hover:bg-white/5 cursor-pointer"
+                    onClick={() => {
+                      onLaunch(game.eventTicker);
+                      setOpen(false);
+                    }}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-gray-200 truncate">{game.title}</p>
+                      <p className="text-[10px] text-gray-500 font-mono truncate">
+                        {formatStart(game.startTime)} · {game.eventTicker}
+                      </p>
+                    </div>
+                    <Badge variant="secondary" className="h-5 text-[10px] px-1.5" title="Markets">{game.marketCount}</Badge>
+                    <span className="text-[10px] text-gray-400 font-mono w-12 text-right" title="Volume">{formatVolume(game.totalVolume)}</span>
+                    <Badge variant="outline" className="h-5 text-[10px] px-1.5 border-gray-700 text-gray-400 capitalize">{game.status}</Badge>
+                    <Button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onAdd(game.eventTicker);
+                      }}
+                      variant="ghost"
+                      size="icon"
+                      title="Add to watchlist"
+                      className="h-6 w-6 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100"
+                    >
+                      <Plus className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            {data?.errors && (
+              <p className="text-[10px] text-amber-400/80 px-1">Some leagues failed to load: {data.errors.join("; ")}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
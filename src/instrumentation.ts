@@ -0,0 +1,8 @@
+export async function register() {
+  // Parse and validate the signing key at boot so a bad key is reported
+  // before the first request instead of on it
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getCredentialStatus } = await import('./lib/kalshi/signing');
+    getCredentialStatus();
+  }
+}
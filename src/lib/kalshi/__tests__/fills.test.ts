@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { OrderBook } from '../orderbook';
+import { estimateFill, computeExitCost } from '../fills';
+
+// YES bids 40 x100, 39 x50; NO bids 55 x30, 54 x20, so YES asks 45 x30, 46 x20. Mid 42.5.
+function book(): OrderBook {
+  const b = new OrderBook();
+  b.yes.set(40, 100);
+  b.yes.set(39, 50);
+  b.no.set(55, 30);
+  b.no.set(54, 20);
+  return b;
+}
+
+describe('estimateFill', () => {
+  it('buys YES up the asks', () => {
+    expect(estimateFill(book(), { side: 'yes', action: 'buy', contracts: 40 })).toEqual({
+      side: 'yes',
+      action: 'buy',
+      contracts: 40,
+      complete: true,
+      notional: (30 * 45 + 10 * 46) / 100,
+      avg_price: (30 * 45 + 10 * 46) / 40,
+      worst_price: 46,
+      levels_consumed: 2,
+      mid: 42.5,
+      slippage_cents: (30 * 45 + 10 * 46) / 40 - 42.5,
+      cost_vs_mid: (((30 * 45 + 10 * 46) / 40 - 42.5) * 40) / 100,
+    });
+  });
+
+  it('sells YES into the bids', () => {
+    const fill = estimateFill(book(), { side: 'yes', action: 'sell', contracts: 120 });
+
+    expect(fill).toMatchObject({ contracts: 120, avg_price: (100 * 40 + 20 * 39) / 120, worst_price: 39, levels_consumed: 2 });
+    expect(fill.slippage_cents).toBeCloseTo(42.5 - (100 * 40 + 20 * 39) / 120);
+  });
+
+  it('prices NO against the YES bids, in NO cents', () => {
+    const fill = estimateFill(book(), { side: 'no', action: 'buy', contracts: 10 });
+
+    expect(fill).toMatchObject({ contracts: 10, avg_price: 60, worst_price: 60, mid: 57.5, slippage_cents: 2.5 });
+  });
+
+  it('spends a dollar budget on whole contracts', () => {
+    // $20 buys 30 at 45¢ ($13.50), then 14 at 46¢ ($6.44)
+    const fill = estimateFill(book(), { side: 'yes', action: 'buy', dollars: 20 });
+
+    expect(fill).toMatchObject({ contracts: 44, notional: 19.94, complete: true, levels_consumed: 2 });
+  });
+
+  it('reports a partial fill when the book runs out', () => {
+    const fill = estimateFill(book(), { side: 'yes', action: 'buy', contracts: 80 });
+
+    expect(fill).toMatchObject({ contracts: 50, complete: false, worst_price: 46 });
+  });
+
+  it('fills nothing from an empty side', () => {
+    expect(estimateFill(new OrderBook(), { side: 'no', action: 'sell', contracts: 5 })).toEqual({
+      side: 'no',
+      action: 'sell',
+      contracts: 0,
+      complete: false,
+      notional: 0,
+      worst_price: undefined,
+      levels_consumed: 0,
+      mid: undefined,
+    });
+  });
+});
+
+describe('computeExitCost', () => {
+  it('takes the costlier of selling YES and selling NO', () => {
+    // 100 YES at 40 is 2.5 under mid; 100 NO is only 50 deep, so the clip cannot exit
+    expect(computeExitCost(book(), 100)).toBe(50);
+    // 40 NO: 30 at 55 and 10 at 54 against a 57.5 NO mid
+    expect(computeExitCost(book(), 40)).toBeCloseTo(57.5 - (30 * 55 + 10 * 54) / 40);
+  });
+
+  it('caps a deep walk at 50 cents', () => {
+    const thin = new OrderBook();
+    thin.yes.set(90, 5);
+    thin.yes.set(1, 100);
+    thin.no.set(5, 100);
+    // 100 YES: 5 at 90 and 95 at 1 against a 92.5 mid
+    expect(computeExitCost(thin, 100)).toBe(50);
+  });
+
+  it('reports 99 for an empty book and nothing without a book', () => {
+    expect(computeExitCost(new OrderBook(), 10)).toBe(99);
+    expect(computeExitCost(undefined, 10)).toBeUndefined();
+  });
+});
@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { ManualClock, TimestampPolicy } from '../clock';
+import { StatsEngine, MarketStats } from '../stats';
+import { SignalsEngine, LadderState, MarketMeta } from '../signals';
+import { GroupType } from '../relatedSeries';
+import { createConnectionState, applyTickerUpdate, applyOrderbookSnapshot } from '../ws';
+import { RecordingLine } from '../recorder';
+import { ConnectionState, SSEMetaPayload, TickerMessage, TradeMessage } from '../types';
+
+// Whole second, so exchange `ts` values in seconds land exactly on it
+export const T0 = 1_700_000_000_000;
+export const SEC = T0 / 1000;
+
+export const GAME_ID = '26jan04balpit';
+
+export interface LadderMarketFixture {
+  ticker: string;
+  title: string;
+  group_type: GroupType;
+  bid: number;
+  ask: number;
+  /** Contracts resting at the top level on each side */
+  depth: number;
+}
+
+// Above LADDER_CONFIG.MIN_LIQUIDITY_DEPTH so markets pass the ladder gates
+const LIQUID = 2500;
+
+/**
+ * Ravens spread ladder. P(YES) should fall as the line rises, but line 7
+ * trades above line 3: a monotonic violation and an outlier against the fit.
+ */
+export const RAVENS_SPREAD: LadderMarketFixture[] = [
+  { ticker: 'KXNFLSPREAD-26JAN04BALPIT-BAL3', title: 'Ravens win by over 3 points', group_type: 'spread', bid: 60, ask: 62, depth: LIQUID },
+  { ticker: 'KXNFLSPREAD-26JAN04BALPIT-BAL7', title: 'Ravens win by over 7 points', group_type: 'spread', bid: 74, ask: 76, depth: LIQUID },
+  { ticker: 'KXNFLSPREAD-26JAN04BALPIT-BAL10', title: 'Ravens win by over 10 points', group_type: 'spread', bid: 40, ask: 42, depth: LIQUID },
+];
+
+/**
+ * A clean Steelers ladder, plus a shallower duplicate of line 7 from another
+ * series, a thin market and a wide market that the gates drop
+ */
+export const STEELERS_SPREAD: LadderMarketFixture[] = [
+  { ticker: 'KXNFLSPREAD-26JAN04BALPIT-PIT3', title: 'Steelers win by over 3 points', group_type: 'spread', bid: 40, ask: 42, depth: LIQUID },
+  { ticker: 'KXNFLSPREAD-26JAN04BALPIT-PIT7', title: 'Steelers win by over 7 points', group_type: 'spread', bid: 25, ask: 27, depth: LIQUID },
+  { ticker: 'KXNFLALTSPREAD-26JAN04BALPIT-PIT7', title: 'Steelers win by over 7 points', group_type: 'spread', bid: 24, ask: 26, depth: 2100 },
+  { ticker: 'KXNFLSPREAD-26JAN04BALPIT-PIT10', title: 'Steelers win by over 10 points', group_type: 'spread', bid: 15, ask: 17, depth: 100 },
+  { ticker: 'KXNFLSPREAD-26JAN04BALPIT-PIT14', title: 'Steelers win by over 14 points', group_type: 'spread', bid: 5, ask: 12, depth: LIQUID },
+];
+
+/** Over and Under at 45 bid a combined 105¢: a cross-ladder SUM_GT_1 */
+export const TOTALS: LadderMarketFixture[] = [
+  { ticker: 'KXNFLTOTAL-26JAN04BALPIT-O41', title: 'Total over 41 points', group_type: 'total', bid: 70, ask: 72, depth: LIQUID },
+  { ticker: 'KXNFLTOTAL-26JAN04BALPIT-O45', title: 'Total over 45 points', group_type: 'total', bid: 55, ask: 57, depth: LIQUID },
+  { ticker: 'KXNFLTOTAL-26JAN04BALPIT-U41', title: 'Total under 41 points', group_type: 'total', bid: 30, ask: 32, depth: LIQUID },
+  { ticker: 'KXNFLTOTAL-26JAN04BALPIT-U45', title: 'Total under 45 points', group_type: 'total', bid: 50, ask: 52, depth: LIQUID },
+];
+
+export interface StatsHarness {
+  clock: ManualClock;
+  engine: StatsEngine;
+  state: ConnectionState;
+  ticker: (receivedAt: number, msg: TickerMessage['msg']) => void;
+  trade: (receivedAt: number, msg: TradeMessage['msg']) => void;
+  /** Stats for markets with a ticker or book entry, as the hub computes them */
+  statsAt: (now: number, market?: string) => MarketStats | undefined;
+}
+
+/** A StatsEngine on a manual clock that starts at T0 */
+export function createStatsHarness(policy: TimestampPolicy = 'exchange'): StatsHarness {
+  const clock = new ManualClock(T0);
+  const engine = new StatsEngine(clock, policy);
+  const state = createConnectionState();
+
+  return {
+    clock,
+    engine,
+    state,
+    ticker: (receivedAt, msg) => {
+      clock.advanceTo(receivedAt);
+      applyTickerUpdate(state, msg);
+      engine.onTickerUpdate(msg);
+    },
+    trade: (receivedAt, msg) => {
+      clock.advanceTo(receivedAt);
+      engine.onTradeUpdate(msg);
+    },
+    statsAt: (now, market = 'M') => {
+      clock.advanceTo(now);
+      return engine.computeAllStats(state)[market];
+    },
+  };
+}
+
+export interface LadderPipeline {
+  clock: ManualClock;
+  signals: SignalsEngine;
+  /** Quote every fixture market from its book, then run stats → enriched stats → ladders */
+  computeLadders: (now: number) => LadderState[];
+}
+
+/**
+ * The hub's stats-to-ladders path for one game: order books feed StatsEngine,
+ * whose output goes through SignalsEngine.computeEnrichedStats and computeLadders.
+ */
+export function createLadderPipeline(markets: LadderMarketFixture[]): LadderPipeline {
+  const clock = new ManualClock(T0);
+  const stats = new StatsEngine(clock, 'exchange');
+  const signals = new SignalsEngine(clock);
+  const state = createConnectionState();
+
+  signals.setGameId(GAME_ID);
+  signals.setMarketMeta(markets.map((m): MarketMeta => ({
+    ticker: m.ticker,
+    title: m.title,
+    group_type: m.group_type,
+    event_ticker: m.ticker.split('-').slice(0, 2).join('-'),
+  })));
+
+  return {
+    clock,
+    signals,
+    computeLadders: (now) => {
+      clock.advanceTo(now);
+      for (const m of markets) {
+        applyOrderbookSnapshot(state, { market_ticker: m.ticker, yes: [[m.bid, m.depth]], no: [[100 - m.ask, m.depth]] });
+        stats.onOrderbookUpdate(m.ticker);
+      }
+      const enriched = signals.computeEnrichedStats(stats.computeAllStats(state), now, state.orderbookByMarket);
+      return signals.computeLadders(enriched, GAME_ID, now);
+    },
+  };
+}
+
+export const RECORDED_META: SSEMetaPayload = {
+  type: 'meta',
+  event: { event_ticker: 'KXNFLGAME-26JAN04BALPIT', title: 'Baltimore at Pittsburgh' },
+  markets: [],
+  gameId: GAME_ID,
+};
+
+/** A recorded ticker line for `market` at `t`, its bid tagging the line's position */
+export function recordedTicker(t: number, market: string, yesBid: number): Extract<RecordingLine, { kind: 'ws' }> {
+  return { t, kind: 'ws', data: { type: 'ticker', msg: { market_ticker: market, yes_bid: yesBid, yes_ask: yesBid + 2 } } };
+}
+
+/**
+ * Write `lines` as a recording. `unfinished` flushes the gzip stream without
+ * ending it, the way a file still being recorded looks on disk; `tail` is
+ * raw text after the last line, such as a half-written one.
+ */
+export async function writeRecordingFile(
+  dir: string,
+  name: string,
+  lines: RecordingLine[],
+  { unfinished = false, tail = '' } = {}
+): Promise<string> {
+  const file = path.join(dir, name);
+  const text = lines.map((line) => JSON.stringify(line) + '\n').join('') + tail;
+
+  if (!unfinished) {
+    fs.writeFileSync(file, zlib.gzipSync(text));
+    return file;
+  }
+
+  const gzip = zlib.createGzip();
+  const chunks: Buffer[] = [];
+  gzip.on('data', (chunk: Buffer) => chunks.push(chunk));
+  gzip.write(text);
+  await new Promise<void>((resolve) => gzip.flush(() => resolve()));
+  fs.writeFileSync(file, Buffer.concat(chunks));
+  gzip.destroy();
+  return file;
+}
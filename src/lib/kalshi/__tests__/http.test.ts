@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { kalshiGet, kalshiRequest, KalshiApiError, HTTP_CONFIG, statusForKalshiError } from '../http';
+
+let fetchMock: ReturnType<typeof vi.fn<typeof fetch>>;
+
+function respond(status: number, body: unknown = {}, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/** The request's rejection, captured so a fake-timer test can await it later */
+async function failureOf(request: Promise<unknown>): Promise<KalshiApiError> {
+  return request.then(
+    () => { throw new Error('expected the request to fail'); },
+    (err: unknown) => err as KalshiApiError
+  );
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // A full bucket per test, at the basic tier's 20 requests per second
+  delete (globalThis as { kalshiRateBucket?: unknown }).kalshiRateBucket;
+  delete process.env.KALSHI_RATE_TIER;
+  delete process.env.KALSHI_PRIVATE_KEY_PEM;
+  delete process.env.KALSHI_PRIVATE_KEY_PATH;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  // Backoff without jitter: half the exponential delay
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  fetchMock = vi.fn<typeof fetch>();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('kalshiRequest', () => {
+  it('retries a 5xx with exponential backoff until it succeeds', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(503))
+      .mockResolvedValueOnce(respond(502))
+      .mockResolvedValueOnce(respond(200, { events: [] }));
+
+    const request = kalshiGet('/events');
+    await vi.advanceTimersByTimeAsync(HTTP_CONFIG.BASE_BACKOFF_MS / 2 - 1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(HTTP_CONFIG.BASE_BACKOFF_MS);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await expect(request).resolves.toEqual({ events: [] });
+  });
+
+  it('waits out Retry-After on a 429 instead of its own backoff', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(429, {}, { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(respond(200, { ok: true }));
+
+    const request = kalshiGet('/series');
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(request).resolves.toEqual({ ok: true });
+  });
+
+  it('gives up after the retry budget with the last error', async () => {
+    fetchMock.mockImplementation(async () => respond(500, { error: 'boom' }));
+
+    const failure = failureOf(kalshiRequest('/events', { maxRetries: 2 }));
+    await vi.runAllTimersAsync();
+
+    expect(await failure).toMatchObject({ kind: 'server', status: 500, transient: true, path: '/events' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails at once when Retry-After is longer than it will wait', async () => {
+    fetchMock.mockResolvedValueOnce(respond(429, {}, { 'Retry-After': String(HTTP_CONFIG.MAX_RETRY_AFTER_MS / 1000 + 1) }));
+
+    expect(await failureOf(kalshiGet('/events'))).toMatchObject({ kind: 'rate_limited', status: 429 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    [404, 'not_found', 404],
+    [401, 'unauthorized', 401],
+    [403, 'unauthorized', 401],
+    [400, 'client', 502],
+  ] as const)('maps a %i to %s without retrying', async (status, kind, routeStatus) => {
+    fetchMock.mockResolvedValueOnce(new Response('nope', { status, headers: { Date: 'Sun, 04 Jan 2026 18:00:00 GMT' } }));
+
+    const err = await failureOf(kalshiGet('/markets/X'));
+    expect(err).toBeInstanceOf(KalshiApiError);
+    expect(err).toMatchObject({ kind, status, transient: false, serverTime: Date.UTC(2026, 0, 4, 18) });
+    expect(err.message).toBe(`Kalshi GET /markets/X failed: ${status} - nope`);
+    expect(statusForKalshiError(err)).toBe(routeStatus);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps a failed fetch to a retried network error and an abort to a timeout', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    const network = failureOf(kalshiGet('/events', { maxRetries: 1 }));
+    await vi.runAllTimersAsync();
+    expect(await network).toMatchObject({ kind: 'network', transient: true });
+    expect(statusForKalshiError(await network)).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init!.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    }));
+    const timeout = failureOf(kalshiGet('/events', { maxRetries: 0, timeoutMs: 100 }));
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await timeout).toMatchObject({ kind: 'timeout', message: 'Kalshi request timed out after 100ms: /events' });
+  });
+
+  it('times out a body that stalls after the headers', async () => {
+    fetchMock.mockImplementation(async (_url, init) => new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"events":['));
+        init!.signal!.addEventListener('abort', () => controller.error(new DOMException('aborted', 'AbortError')));
+      },
+    })));
+
+    const failure = failureOf(kalshiGet('/events', { maxRetries: 0, timeoutMs: 100 }));
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await failure).toMatchObject({ kind: 'timeout', transient: true });
+  });
+
+  it('retries a 200 with a malformed body as a bad_response', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('{"events":[', { status: 200 }))
+      .mockResolvedValueOnce(respond(200, { events: [] }));
+
+    const request = kalshiGet('/events');
+    await vi.runAllTimersAsync();
+    await expect(request).resolves.toEqual({ events: [] });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockImplementation(async () => new Response('<html>gateway</html>', { status: 200 }));
+    const failure = failureOf(kalshiGet('/events', { maxRetries: 1 }));
+    await vi.runAllTimersAsync();
+    const err = await failure;
+    expect(err).toBeInstanceOf(KalshiApiError);
+    expect(err).toMatchObject({ kind: 'bad_response', status: 200, transient: true });
+    expect(statusForKalshiError(err)).toBe(503);
+  });
+});
+
+describe('rate limiting', () => {
+  it('holds requests past the tier rate until the bucket refills', async () => {
+    fetchMock.mockImplementation(async () => respond(200));
+
+    const requests = Array.from({ length: 22 }, () => kalshiGet('/events'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(20);
+
+    // One token every 50ms at 20 requests per second
+    await vi.advanceTimersByTimeAsync(50);
+    expect(fetchMock).toHaveBeenCalledTimes(21);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(fetchMock).toHaveBeenCalledTimes(22);
+
+    await Promise.all(requests);
+  });
+
+  it('uses the configured tier', async () => {
+    process.env.KALSHI_RATE_TIER = 'advanced';
+    fetchMock.mockImplementation(async () => respond(200));
+
+    const requests = Array.from({ length: 31 }, () => kalshiGet('/events'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(30);
+
+    await vi.advanceTimersByTimeAsync(34);
+    await Promise.all(requests);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { parseTickerSuffix, parseMarketForLadder, parseMarketTitle, parseMarket } from '../marketParsing';
+
+describe('parseTickerSuffix', () => {
+  it.each([
+    ['KXNFLSPREAD-26JAN04BALPIT-BAL3', 'BAL', 3],
+    ['KXNFLSPREAD-26JAN04BALPIT-PIT7', 'PIT', 7],
+    ['KXNFLTOTAL-26JAN04BALPIT-O45', 'OVER', 45],
+    ['KXNFLTOTAL-26JAN04BALPIT-U42', 'UNDER', 42],
+    ['KXNHLSPREAD-25OCT19NYRBOS-NYR2', 'NYR', 2],
+    ['KXNCAAFSPREAD-25NOV29OSUMICH-MICH7', 'MICH', 7],
+  ])('parses %s as %s %d', (ticker, teamAbbrev, line) => {
+    const parsed = parseTickerSuffix(ticker);
+    expect(parsed.teamAbbrev).toBe(teamAbbrev);
+    expect(parsed.line).toBe(line);
+  });
+
+  it('returns no team for an empty ticker', () => {
+    expect(parseTickerSuffix('').teamAbbrev).toBeNull();
+  });
+
+  it('returns no team for a winner market without a suffix', () => {
+    expect(parseTickerSuffix('KXNFLGAME-26JAN04BALPIT').teamAbbrev).toBeNull();
+  });
+
+  it('reads TIE as a draw only in three-way leagues', () => {
+    expect(parseTickerSuffix('KXEPLGAME-25OCT18ARSCHE-TIE').teamAbbrev).toBe('DRAW');
+    expect(parseTickerSuffix('KXNFLGAME-26JAN04BALPIT-TIE').teamAbbrev).not.toBe('DRAW');
+  });
+});
+
+describe('parseMarketForLadder', () => {
+  it('resolves the same abbreviation per league', () => {
+    expect(parseMarketForLadder('KXNFLSPREAD-26JAN04CHIGB-CHI3', 'Bears win by over 3 points', 'spread', '26jan04chigb').side).toBe('Bears');
+    expect(parseMarketForLadder('KXNBASPREAD-26JAN04CHIMIL-CHI5', 'Bulls win by over 5 points', 'spread', '26jan04chimil').side).toBe('Bulls');
+    expect(parseMarketForLadder('KXWNBASPREAD-25AUG01LVNY-LV5', 'Aces win by over 4.5 points', 'spread', '25aug01lvny').side).toBe('Aces');
+  });
+
+  it('parses NHL puck lines and totals', () => {
+    const puckLine = parseMarketForLadder('KXNHLSPREAD-25OCT19NYRBOS-NYR2', 'Rangers win by over 1.5 goals', 'spread', '25oct19nyrbos');
+    expect(puckLine.side).toBe('Rangers');
+    expect(puckLine.ladderKey).not.toBeNull();
+
+    const total = parseMarketForLadder('KXNHLTOTAL-25OCT19NYRBOS-O6', 'Over 5.5 goals scored', 'total', '25oct19nyrbos');
+    expect(total).toMatchObject({ side: 'Over', line: 6 });
+  });
+
+  it('parses MLB run lines', () => {
+    const runLine = parseMarketForLadder('KXMLBSPREAD-25OCT24LADTOR-LAD2', 'Dodgers win by over 1.5 runs', 'spread', '25oct24ladtor');
+    expect(runLine).toMatchObject({ side: 'Dodgers', line: 2 });
+  });
+
+  it('parses college codes up to four letters and keeps unlisted schools by code', () => {
+    expect(parseMarketForLadder('KXNCAAFSPREAD-25NOV29OSUMICH-MICH7', 'Michigan wins by over 6.5 points', 'spread', '25nov29osumich').side).toBe('Michigan');
+    expect(parseMarketForLadder('KXNCAAMBSPREAD-26MAR01DUKEUNC-DUKE4', 'Duke wins by over 3.5 points', 'spread', '26mar01dukeunc'))
+      .toMatchObject({ side: 'Duke', line: 4 });
+
+    const unlisted = parseMarketForLadder('KXNCAAFSPREAD-25NOV29WYOUNM-WYO3', 'Wyoming wins by over 2.5 points', 'spread', '25nov29wyounm');
+    expect(unlisted).toMatchObject({ side: 'WYO', isParsed: true });
+  });
+
+  it('parses three-way soccer winners', () => {
+    expect(parseMarketForLadder('KXEPLGAME-25OCT18ARSCHE-TIE', 'Arsenal vs Chelsea: Tie', 'winner', '25oct18arsche').side).toBe('Draw');
+    expect(parseMarketForLadder('KXEPLGAME-25OCT18ARSCHE-ARS', 'Arsenal vs Chelsea: Arsenal', 'winner', '25oct18arsche'))
+      .toMatchObject({ side: 'Arsenal', line: null });
+  });
+
+  it('builds spread ladder keys from game, type and side', () => {
+    const parsed = parseMarketForLadder('KXNFLSPREAD-26JAN04BALPIT-BAL3', 'Ravens win by over 3 points', 'spread', '26jan04balpit');
+    expect(parsed.isParsed).toBe(true);
+    expect(parsed.side).toBe('Ravens');
+    expect(parsed.ladderKey).toContain('spread');
+    expect(parsed.ladderKey).toContain('Ravens');
+  });
+
+  it('builds total ladder components with the over predicate', () => {
+    const parsed = parseMarketForLadder('KXNFLTOTAL-26JAN04BALPIT-O45', 'Total over 45 points', 'total', '26jan04balpit');
+    expect(parsed.isParsed).toBe(true);
+    expect(parsed.side).toBe('Over');
+    expect(parsed.ladderComponents?.predicate).toBe('total_over');
+  });
+
+  it('prefers strike fields over a ticker that rounds the half point', () => {
+    const parsed = parseMarketForLadder(
+      'KXNFLSPREAD-26JAN04BALPIT-BAL3',
+      'Baltimore wins by over 2.5 points',
+      'spread',
+      '26jan04balpit',
+      { strike_type: 'greater', floor_strike: 2.5, yes_sub_title: 'Ravens wins by over 2.5 Points' }
+    );
+    expect(parsed).toMatchObject({ line: 2.5, side: 'Ravens', parseSource: 'strike' });
+    expect(parsed.disagreement).toBeUndefined();
+  });
+});
+
+describe('parseMarketTitle', () => {
+  it('parses multi-word team names', () => {
+    expect(parseMarketTitle('Blue Jays win by more than 1.5 runs', 'spread', 'KXMLBSPREAD-25OCT24LADTOR-TOR2'))
+      .toMatchObject({ side: 'Blue Jays', line: 1.5 });
+  });
+
+  it('matches team names on word boundaries', () => {
+    expect(parseMarketTitle('Hornets win by over 2.5 points', 'spread', 'KXNBASPREAD-26JAN04CHABKN-CHA3').side).toBe('Hornets');
+  });
+});
+
+describe('parseMarket', () => {
+  it('uses strike fields and flags a year in the title', () => {
+    const total = parseMarket('KXNFLTOTAL-26JAN04BALPIT-O45', '2026 Wild Card: over 44.5 points', 'total', {
+      strike_type: 'greater',
+      floor_strike: 44.5,
+    });
+    expect(total).toMatchObject({ line: 44.5, side: 'Over' });
+    expect(total.disagreement).toContain('title=2026');
+  });
+
+  it('reads a less-than strike as Under at the cap', () => {
+    const under = parseMarket('KXNFLTOTAL-26JAN04BALPIT-U45', 'Under 44.5', 'total', { strike_type: 'less', cap_strike: 44.5 });
+    expect(under).toMatchObject({ side: 'Under', line: 44.5 });
+  });
+
+  it('falls back to the ticker without strike fields', () => {
+    expect(parseMarket('KXNHLSPREAD-25OCT19NYRBOS-NYR2', 'Rangers win by over 1.5 goals', 'spread'))
+      .toMatchObject({ parseSource: 'ticker', line: 2 });
+  });
+
+  it('reports a side conflict between ticker and title', () => {
+    const conflict = parseMarket('KXNFLSPREAD-26JAN04BALPIT-PIT3', 'Ravens win by over 2.5 points', 'spread');
+    expect(conflict.disagreement).toContain('side');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { selectMarkets } from '../marketSelection';
+import { GroupType, KalshiMarket } from '../types';
+
+function market(ticker: string, group_type: GroupType, fields: Partial<KalshiMarket> = {}): KalshiMarket {
+  return { ticker, title: ticker, group_type, ...fields };
+}
+
+/** A BAL spread at `line`, priced so 4.5 sits at 50¢ and the ladder center; equal volume throughout */
+function spread(line: number): KalshiMarket {
+  const price = 95 - 10 * line;
+  return market(`SPREAD-BAL${line}`, 'spread', { line, side: 'BAL', yes_bid: price - 1, yes_ask: price + 1, volume: 1000 });
+}
+
+// 13 markets against a budget of 10: quotas are winner 1, spread 4, total 4, other 0
+const MARKETS = [
+  market('WIN-BAL', 'winner', { volume: 5000 }),
+  market('WIN-PIT', 'winner', { volume: 0 }),
+  ...[1.5, 2.5, 3.5, 4.5, 5.5, 6.5, 7.5, 8.5].map(spread),
+  market('TOTAL-44.5', 'total', { line: 44.5, side: 'Over', volume: 10 }),
+  market('TOTAL-47.5', 'total', { line: 47.5, side: 'Over', volume: 10 }),
+  market('PROP-MVP', 'other', { volume: 50 }),
+];
+
+describe('selectMarkets', () => {
+  it('keeps every market, in order, when they fit the budget', () => {
+    expect(selectMarkets(MARKETS, MARKETS.length)).toEqual({ selected: MARKETS, excluded: [] });
+  });
+
+  it('fills each group quota with its best-scoring markets', () => {
+    const tickers = selectMarkets(MARKETS, 10).selected.map((m) => m.ticker);
+
+    // Winner quota 1: the traded side beats the untraded one
+    expect(tickers).toContain('WIN-BAL');
+    // Spread quota 4: the lines nearest the 50¢ center
+    expect(tickers).toEqual(expect.arrayContaining(['SPREAD-BAL2.5', 'SPREAD-BAL3.5', 'SPREAD-BAL4.5', 'SPREAD-BAL5.5']));
+    // Both totals fit well inside their quota of 4
+    expect(tickers).toEqual(expect.arrayContaining(['TOTAL-44.5', 'TOTAL-47.5']));
+  });
+
+  it('gives unused quota to the best remaining markets of any group', () => {
+    const { selected } = selectMarkets(MARKETS, 10);
+
+    // Totals leave 2 slots and the budget has 1 more: the zero-quota prop scores
+    // highest on its own, then the next two spreads (6.5 before the tied 1.5 and
+    // 7.5, and 1.5 ahead of 7.5 by listing order)
+    expect(selected).toHaveLength(10);
+    expect(selected.map((m) => m.ticker)).toEqual([
+      'WIN-BAL',
+      'SPREAD-BAL1.5',
+      'SPREAD-BAL2.5',
+      'SPREAD-BAL3.5',
+      'SPREAD-BAL4.5',
+      'SPREAD-BAL5.5',
+      'SPREAD-BAL6.5',
+      'TOTAL-44.5',
+      'TOTAL-47.5',
+      'PROP-MVP',
+    ]);
+  });
+
+  it('reports each excluded market with its group rank, score and quota', () => {
+    expect(selectMarkets(MARKETS, 10).excluded).toEqual([
+      { ticker: 'SPREAD-BAL7.5', group_type: 'spread', reason: 'group_quota', rank: 7, score: 0.5, quota: 4 },
+      { ticker: 'SPREAD-BAL8.5', group_type: 'spread', reason: 'group_quota', rank: 8, score: 0.4, quota: 4 },
+      { ticker: 'WIN-PIT', group_type: 'winner', reason: 'group_quota', rank: 2, score: 0, quota: 1 },
+    ]);
+  });
+
+  it('reports a market without a group type under other', () => {
+    // A budget of 1 floors every quota to 0, so the tied scores fall back to listing order
+    const markets = [market('WIN-BAL', 'winner', { volume: 10 }), { ticker: 'MYSTERY', title: 'MYSTERY', volume: 10 }];
+
+    expect(selectMarkets(markets, 1)).toEqual({
+      selected: [markets[0]],
+      excluded: [{ ticker: 'MYSTERY', group_type: 'other', reason: 'group_quota', rank: 1, score: 0.667, quota: 0 }],
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { startMockKalshi, MockKalshiServer } from '../mock/server';
+import { MockScenarioName } from '../mock/scenarios';
+import { fetchRelatedEvents } from '../rest';
+import { fetchMarketHistory } from '../history';
+import { connectAndSubscribe, connectPool, createConnectionState, getOrderbookSummary, WSConnectionHandle, WSConnectionOptions } from '../ws';
+import { BookResyncMessage, KalshiWSMessage, OrderbookSnapshotMessage } from '../types';
+
+const BAL = 'KXNFLGAME-26JAN04BALPIT-BAL';
+const BAL3 = 'KXNFLSPREAD-26JAN04BALPIT-BAL3';
+const BAL7 = 'KXNFLSPREAD-26JAN04BALPIT-BAL7';
+const MARKETS = [BAL, BAL3, BAL7];
+const TICK_MS = 20;
+
+async function waitFor(predicate: () => boolean, timeoutMs = 3_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/** Point the client at a fresh mock server for the tests in the enclosing describe */
+function useMockKalshi(scenario: MockScenarioName) {
+  const context: { server?: MockKalshiServer; handle?: WSConnectionHandle } = {};
+
+  beforeAll(async () => {
+    context.server = await startMockKalshi({ scenario, tickMs: TICK_MS });
+    process.env.KALSHI_ENV = 'mock';
+    process.env.KALSHI_MOCK_URL = context.server.url;
+  });
+
+  afterEach(() => {
+    context.handle?.close();
+    context.handle = undefined;
+  });
+
+  afterAll(async () => {
+    delete process.env.KALSHI_ENV;
+    delete process.env.KALSHI_MOCK_URL;
+    await context.server?.close();
+  });
+
+  const connect = (options: Partial<WSConnectionOptions> = {}) => {
+    context.handle = connectAndSubscribe({ marketTickers: MARKETS, ...options });
+    return context.handle;
+  };
+
+  return { context, connect };
+}
+
+function booksReady(handle: WSConnectionHandle): boolean {
+  return MARKETS.every((m) => handle.getState().bookIntegrityByMarket.get(m) === 'ok');
+}
+
+describe('mock Kalshi: normal', () => {
+  const { connect } = useMockKalshi('normal');
+
+  it('resolves the game through series discovery', async () => {
+    const result = await fetchRelatedEvents('kxnflgame-26jan04balpit');
+
+    expect(result.resolution.method).toBe('series_listing');
+    expect(result.resolvedEvents.map((e) => e.groupType)).toEqual(['winner', 'spread', 'total']);
+    expect(result.markets).toHaveLength(11);
+    expect(result.markets.find((m) => m.ticker === BAL3)).toMatchObject({ yes_bid: 44, yes_ask: 46, line: 2.5 });
+  });
+
+  it('lists each series at most once across parallel resolves', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    try {
+      await Promise.all([fetchRelatedEvents('kxnflgame-26jan04balpit'), fetchRelatedEvents('kxnflspread-26jan04balpit')]);
+
+      const eventListings = fetchSpy.mock.calls
+        .map(([url]) => String(url))
+        .filter((url) => url.includes('/events?series_ticker='));
+      expect(eventListings.length).toBe(new Set(eventListings).size);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it('serves trade and candlestick history', async () => {
+    const history = await fetchMarketHistory({ ticker: BAL, event_ticker: 'KXNFLGAME-26JAN04BALPIT' });
+
+    expect(history.trades.length).toBeGreaterThan(0);
+    expect(history.mids.length).toBeGreaterThan(0);
+    expect(history.mids.at(-1)!.mid).toBe(56);
+  });
+
+  it('streams snapshots, deltas, tickers and trades over the subscribe protocol', async () => {
+    const types = new Set<string>();
+    const handle = connect({ onMessage: (msg) => types.add(msg.type) });
+
+    await waitFor(() => booksReady(handle) && types.has('trade') && types.has('orderbook_delta'));
+
+    expect(types).toEqual(new Set(['subscribed', 'orderbook_snapshot', 'orderbook_delta', 'ticker', 'trade']));
+    expect(getOrderbookSummary(handle.getState(), BAL3)).toMatchObject({ yes_bid: 44 });
+  });
+});
+
+describe('mock Kalshi: ladder_violation', () => {
+  const { connect } = useMockKalshi('ladder_violation');
+
+  it('re-quotes the 6.5 line above the 2.5 line through deltas', async () => {
+    const handle = connect();
+
+    await waitFor(() => getOrderbookSummary(handle.getState(), BAL7).yes_bid === 56);
+
+    expect(handle.getState().bookIntegrityByMarket.get(BAL7)).toBe('ok');
+    expect(getOrderbookSummary(handle.getState(), BAL3).yes_bid).toBe(44);
+  });
+});
+
+describe('mock Kalshi: crossed_book', () => {
+  const { connect } = useMockKalshi('crossed_book');
+
+  it('crosses the winner book', async () => {
+    const handle = connect();
+
+    await waitFor(() => getOrderbookSummary(handle.getState(), BAL).yes_bid === 60);
+
+    const book = handle.getState().orderbookByMarket.get(BAL)!;
+    expect(book.yesAsk).toBe(57);
+    expect(book.crossed).toBe(true);
+  });
+});
+
+describe('mock Kalshi: socket pool', () => {
+  const { context } = useMockKalshi('normal');
+
+  it('reports one dropped socket as degraded rather than disconnected', async () => {
+    const events: string[] = [];
+    const pool = connectPool({
+      marketTickers: MARKETS,
+      maxMarketsPerSocket: 1,
+      reconnect: { baseDelayMs: 10, maxDelayMs: 10 },
+      onConnected: () => events.push('connected'),
+      onReconnecting: () => events.push('reconnecting'),
+      onDegraded: (up, total) => events.push(`degraded ${up}/${total}`),
+      onDisconnected: () => events.push('disconnected'),
+    });
+
+    try {
+      await waitFor(() => events.length > 0);
+      expect(pool.getSocketCount()).toBe(3);
+
+      // Wait for every socket's snapshot so the drop is not mistaken for an auth failure
+      await waitFor(() => MARKETS.every((m) => pool.getState().bookIntegrityByMarket.get(m) === 'ok'));
+      context.server!.dropSocket();
+      await waitFor(() => events.length >= 3);
+
+      expect(events).toEqual(['connected', 'degraded 2/3', 'connected']);
+    } finally {
+      pool.close();
+    }
+  });
+});
+
+describe('mock Kalshi: seq_gap', () => {
+  const { connect } = useMockKalshi('seq_gap');
+
+  it('resubscribes the gapped book and rebuilds it from a fresh snapshot', async () => {
+    const messages: KalshiWSMessage[] = [];
+    const state = createConnectionState();
+    let integrityAtResync: string | undefined;
+    let bookAtResync = true;
+    const handle = connect({
+      state,
+      onMessage: (msg) => {
+        messages.push(msg);
+        if (msg.type !== 'book_resync') return;
+        integrityAtResync = state.bookIntegrityByMarket.get(BAL);
+        bookAtResync = state.orderbookByMarket.has(BAL);
+      },
+    });
+
+    await waitFor(() => messages.some((m) => m.type === 'book_resync'));
+    const resync = messages.find((m): m is BookResyncMessage => m.type === 'book_resync')!;
+
+    expect(resync.msg).toMatchObject({ market_ticker: BAL, reason: 'gap' });
+    expect(resync.msg.received_seq).toBe(resync.msg.expected_seq + 1);
+    expect(integrityAtResync).toBe('resyncing');
+    expect(bookAtResync).toBe(false);
+
+    await waitFor(() => booksReady(handle));
+
+    // The fresh snapshot arrives on a new sid, and only the gapped market was resubscribed
+    const snapshots = messages.filter((m): m is OrderbookSnapshotMessage => m.type === 'orderbook_snapshot');
+    expect(snapshots.filter((m) => m.msg.market_ticker === BAL)).toHaveLength(2);
+    expect(snapshots.at(-1)!.sid).not.toBe(resync.msg.sid);
+    expect(snapshots).toHaveLength(MARKETS.length + 1);
+  });
+});
+
+describe('mock Kalshi: disconnect', () => {
+  const { connect } = useMockKalshi('disconnect');
+
+  it('drops the socket and the client resubscribes from fresh snapshots', async () => {
+    const reconnects: number[] = [];
+    const handle = connect({
+      reconnect: { baseDelayMs: 10, maxDelayMs: 10 },
+      onReconnecting: (attempt) => reconnects.push(attempt),
+    });
+
+    await waitFor(() => booksReady(handle));
+    await waitFor(() => reconnects.length > 0);
+    await waitFor(() => booksReady(handle));
+
+    expect(reconnects[0]).toBe(1);
+  });
+
+  it('keeps backing off while sockets drop before they are stable', async () => {
+    const reconnects: number[] = [];
+    connect({
+      reconnect: { baseDelayMs: 10, maxDelayMs: 10 },
+      onReconnecting: (attempt) => reconnects.push(attempt),
+    });
+
+    await waitFor(() => reconnects.length >= 2);
+
+    expect(reconnects.slice(0, 2)).toEqual([1, 2]);
+  });
+
+  it('starts the backoff over once a socket has stayed up', async () => {
+    const reconnects: number[] = [];
+    connect({
+      reconnect: { baseDelayMs: 10, maxDelayMs: 10, stableAfterMs: 50 },
+      onReconnecting: (attempt) => reconnects.push(attempt),
+    });
+
+    await waitFor(() => reconnects.length >= 2);
+
+    expect(reconnects.slice(0, 2)).toEqual([1, 1]);
+  });
+});
+
+describe('mock Kalshi: auth_rejection', () => {
+  const { context, connect } = useMockKalshi('auth_rejection');
+
+  it('refuses the WebSocket upgrade as an auth failure', async () => {
+    const errors: { error: string; requiresAuth?: boolean }[] = [];
+    let disconnected = false;
+    connect({
+      onError: (error, requiresAuth) => errors.push({ error, requiresAuth }),
+      onDisconnected: () => { disconnected = true; },
+    });
+
+    await waitFor(() => disconnected);
+
+    expect(errors.some((e) => e.requiresAuth)).toBe(true);
+  });
+
+  it('rejects authenticated REST calls', async () => {
+    const response = await fetch(`${context.server!.url}/trade-api/v2/portfolio/balance`, {
+      headers: { 'KALSHI-ACCESS-KEY': 'key' },
+    });
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createConnectionState,
+  createSequenceTracker,
+  checkSequence,
+  applyOrderbookSnapshot,
+  applyOrderbookDelta,
+  getOrderbookSummary,
+} from '../ws';
+import { BookSide, OrderBook } from '../orderbook';
+
+function bookWith(yes: [number, number][], no: [number, number][]) {
+  const state = createConnectionState();
+  applyOrderbookSnapshot(state, { market_ticker: 'M', yes, no });
+  return state;
+}
+
+describe('applyOrderbookDelta', () => {
+  it('adds to and reduces an existing level', () => {
+    const state = bookWith([[40, 100]], [[55, 30]]);
+    applyOrderbookDelta(state, { market_ticker: 'M', price: 40, delta: 25, side: 'yes' });
+    applyOrderbookDelta(state, { market_ticker: 'M', price: 55, delta: -10, side: 'no' });
+
+    const book = state.orderbookByMarket.get('M')!;
+    expect(book.yes.get(40)).toBe(125);
+    expect(book.no.get(55)).toBe(20);
+  });
+
+  it('removes a level that drops to zero or below', () => {
+    const state = bookWith([[40, 100], [39, 50]], []);
+    applyOrderbookDelta(state, { market_ticker: 'M', price: 40, delta: -100, side: 'yes' });
+    applyOrderbookDelta(state, { market_ticker: 'M', price: 39, delta: -80, side: 'yes' });
+
+    expect(state.orderbookByMarket.get('M')!.yes.size).toBe(0);
+  });
+
+  it('creates a book for a market without a snapshot', () => {
+    const state = createConnectionState();
+    applyOrderbookDelta(state, { market_ticker: 'N', price: 20, delta: 5, side: 'no' });
+
+    expect(state.orderbookByMarket.get('N')!.no.get(20)).toBe(5);
+  });
+});
+
+describe('checkSequence', () => {
+  // A snapshot on sid 7 carried seq 3
+  function tracker() {
+    const t = createSequenceTracker();
+    t.lastSeqBySid.set(7, 3);
+    t.sidByMarket.set('M', 7);
+    return t;
+  }
+
+  it('accepts the next seq and advances', () => {
+    const t = tracker();
+
+    expect(checkSequence(t, 7, 4)).toBe('ok');
+    expect(checkSequence(t, 7, 5)).toBe('ok');
+    expect(t.lastSeqBySid.get(7)).toBe(5);
+  });
+
+  it('reports a gap without advancing, so every later delta is a gap too', () => {
+    const t = tracker();
+
+    expect(checkSequence(t, 7, 6)).toBe('gap');
+    expect(checkSequence(t, 7, 7)).toBe('gap');
+    expect(t.lastSeqBySid.get(7)).toBe(3);
+  });
+
+  it('drops a seq that was already applied', () => {
+    const t = tracker();
+
+    expect(checkSequence(t, 7, 3)).toBe('duplicate');
+    expect(checkSequence(t, 7, 1)).toBe('duplicate');
+    expect(checkSequence(t, 7, 4)).toBe('ok');
+  });
+
+  it('calls a sid with no snapshot an orphan', () => {
+    expect(checkSequence(tracker(), 8, 1)).toBe('orphan');
+  });
+
+  it('cannot check a message without sid and seq', () => {
+    const t = tracker();
+
+    expect(checkSequence(t, undefined, 4)).toBe('untracked');
+    expect(checkSequence(t, 7, undefined)).toBe('untracked');
+    expect(t.lastSeqBySid.get(7)).toBe(3);
+  });
+});
+
+describe('getOrderbookSummary', () => {
+  it('derives the yes ask from the best no bid', () => {
+    const summary = getOrderbookSummary(bookWith([[38, 10], [40, 100]], [[54, 5], [55, 30]]), 'M');
+
+    expect(summary).toEqual({
+      yes_bid: 40,
+      yes_ask: 45,
+      no_bid: 55,
+      no_ask: 60,
+      yes_levels: [[40, 100], [38, 10]],
+      no_levels: [[55, 30], [54, 5]],
+    });
+  });
+
+  it('keeps the top five levels per side', () => {
+    const levels: [number, number][] = [10, 20, 30, 40, 50, 60, 70].map((p) => [p, 1]);
+    const summary = getOrderbookSummary(bookWith(levels, []), 'M');
+
+    expect(summary.yes_levels.map(([price]) => price)).toEqual([70, 60, 50, 40, 30]);
+    expect(summary.yes_ask).toBeUndefined();
+  });
+
+  it('reflects deltas applied after the snapshot', () => {
+    const state = bookWith([[40, 100]], [[55, 30]]);
+    applyOrderbookDelta(state, { market_ticker: 'M', price: 40, delta: -100, side: 'yes' });
+    applyOrderbookDelta(state, { market_ticker: 'M', price: 41, delta: 7, side: 'yes' });
+
+    expect(getOrderbookSummary(state, 'M')).toMatchObject({ yes_bid: 41, yes_levels: [[41, 7]] });
+  });
+
+  it('returns empty levels for an unknown market', () => {
+    expect(getOrderbookSummary(createConnectionState(), 'X')).toEqual({ yes_levels: [], no_levels: [] });
+  });
+});
+
+describe('BookSide', () => {
+  it('tracks the best level as levels open and close out of order', () => {
+    const side = new BookSide();
+    side.set(40, 10);
+    side.set(45, 5);
+    side.set(42, 7);
+    expect(side.best).toBe(45);
+
+    side.set(45, 0);
+    expect(side.best).toBe(42);
+    expect(side.bestSize).toBe(7);
+
+    side.add(42, -7);
+    side.add(40, -10);
+    expect(side.best).toBeUndefined();
+    expect(side.bestSize).toBe(0);
+  });
+
+  it('returns the top levels best first and keeps total depth', () => {
+    const side = new BookSide();
+    for (const price of [12, 99, 1, 50, 37]) side.set(price, price);
+    side.set(50, 0);
+    side.add(12, 3);
+
+    expect(side.top(3)).toEqual([[99, 99], [37, 37], [12, 15]]);
+    expect(side.levels()).toEqual([[99, 99], [37, 37], [12, 15], [1, 1]]);
+    expect(side.size).toBe(4);
+    expect(side.depth).toBe(152);
+    expect(side.depthTop(2)).toBe(136);
+  });
+
+  it('ignores prices off the cent grid', () => {
+    const side = new BookSide();
+    side.set(0, 10);
+    side.set(100, 10);
+    side.set(40.5, 10);
+
+    expect(side.size).toBe(0);
+    expect(side.get(100)).toBe(0);
+  });
+});
+
+describe('BookSide sweeps and encoding', () => {
+  function sideWith(levels: [number, number][]) {
+    const side = new BookSide();
+    for (const [price, quantity] of levels) side.set(price, quantity);
+    return side;
+  }
+
+  it('sums depth and the cost of taking levels down to a price', () => {
+    const side = sideWith([[40, 100], [39, 50], [30, 10]]);
+
+    expect(side.depthFrom(39)).toBe(150);
+    expect(side.depthFrom(41)).toBe(0);
+    // Taking a bid at p buys the other side at 100 - p
+    expect(side.sweepCostFrom(39)).toBe(100 * 60 + 50 * 61);
+  });
+
+  it('encodes the book best first and the changes against an earlier copy', () => {
+    const side = sideWith([[40, 100], [39, 50]]);
+    const sent = new BookSide();
+    sent.copyFrom(side);
+
+    side.set(39, 0);
+    side.add(40, 5);
+    side.set(41, 7);
+
+    expect(side.encode()).toEqual([41, 7, 40, 105]);
+    expect(side.changesSince(sent)).toEqual([41, 7, 40, 105, 39, 0]);
+    expect(side.changesSince(side)).toEqual([]);
+  });
+});
+
+describe('OrderBook', () => {
+  it('quotes the yes ask off the best no bid', () => {
+    const book = new OrderBook();
+    book.yes.set(40, 1);
+    book.no.set(55, 1);
+
+    expect(book.yesBid).toBe(40);
+    expect(book.yesAsk).toBe(45);
+  });
+
+  it('views the book from either side', () => {
+    const book = new OrderBook();
+    book.yes.set(40, 100);
+    book.yes.set(39, 50);
+    book.no.set(55, 30);
+
+    expect(book.view('yes')).toEqual({ bid: 40, ask: 45, bid_size: 100, ask_size: 30, bid_depth: 150, ask_depth: 30 });
+    expect(book.view('no')).toEqual({ bid: 55, ask: 60, bid_size: 30, ask_size: 100, bid_depth: 30, ask_depth: 150 });
+    expect(new OrderBook().view('no')).toEqual({ bid: undefined, ask: undefined, bid_size: 0, ask_size: 0, bid_depth: 0, ask_depth: 0 });
+  });
+
+  it('flags bids that would have matched as crossed', () => {
+    const book = new OrderBook();
+    book.yes.set(60, 1);
+    expect(book.crossed).toBe(false);
+
+    book.no.set(39, 1);
+    expect(book.crossed).toBe(false);
+
+    // Locked: 60 + 40 is a trade the exchange would have made
+    book.no.set(40, 1);
+    expect(book.crossed).toBe(true);
+    expect(book.yesAsk).toBe(60);
+  });
+});
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { listRecordings, RecordingLine, SessionRecorder } from '../recorder';
+import { readRecording } from '../replay';
+import { RECORDED_META, T0, recordedTicker, writeRecordingFile } from './fixtures';
+
+const BAL = 'KXNFLGAME-26JAN04BALPIT-BAL';
+const STREAM_KEY = 'kxnflgame-26jan04balpit|*';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let dir: string;
+
+async function waitFor(predicate: () => Promise<boolean> | boolean, timeoutMs = 3_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await predicate())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+async function readAll(file: string): Promise<RecordingLine[]> {
+  const lines: RecordingLine[] = [];
+  for await (const line of readRecording(file)) lines.push(line);
+  return lines;
+}
+
+/** Close the recorder and wait until its files are flushed to disk */
+async function closeRecorder(recorder: SessionRecorder): Promise<void> {
+  recorder.close();
+  await waitFor(async () => (await listRecordings()).every((r) => !r.active));
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kalshi-recorder-'));
+  process.env.KALSHI_RECORD_DIR = dir;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  delete process.env.KALSHI_RECORD_DIR;
+  delete process.env.KALSHI_RECORD_ROTATE_MB;
+  delete process.env.KALSHI_RECORD_RETAIN_DAYS;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('SessionRecorder', () => {
+  it('writes gzip NDJSON that reads back line for line', async () => {
+    const recorder = new SessionRecorder(STREAM_KEY);
+    recorder.recordMeta(RECORDED_META, T0);
+    const ticks = [recordedTicker(T0 + 10, BAL, 40), recordedTicker(T0 + 20, BAL, 41)];
+    for (const line of ticks) recorder.recordMessage(line.data, line.t);
+
+    await waitFor(async () => (await listRecordings()).length > 0);
+    const [active] = await listRecordings();
+    expect(active.active).toBe(true);
+    expect(active.name).toMatch(/^kxnflgame-26jan04balpit-.*-000\.ndjson\.gz$/);
+
+    await closeRecorder(recorder);
+    expect(await readAll(path.join(dir, active.name))).toEqual([{ t: T0, kind: 'meta', data: RECORDED_META }, ...ticks]);
+  });
+
+  it('flushes an active file so it reads back before the recorder closes', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    const recorder = new SessionRecorder(STREAM_KEY);
+    recorder.recordMeta(RECORDED_META, T0);
+    recorder.recordMessage(recordedTicker(T0 + 10, BAL, 40).data, T0 + 10);
+    await waitFor(async () => (await listRecordings()).length > 0);
+    const file = path.join(dir, (await listRecordings())[0].name);
+
+    vi.advanceTimersByTime(5_000);
+    await waitFor(async () => (await readAll(file)).length === 2);
+    expect((await listRecordings())[0].active).toBe(true);
+
+    await closeRecorder(recorder);
+  });
+
+  it('starts each rotated file with the latest meta so it replays on its own', async () => {
+    // Small enough that every line rotates to a new file
+    process.env.KALSHI_RECORD_ROTATE_MB = String(1 / (1024 * 1024));
+    const recorder = new SessionRecorder(STREAM_KEY);
+    recorder.recordMeta(RECORDED_META, T0);
+    recorder.recordMessage(recordedTicker(T0 + 10, BAL, 40).data, T0 + 10);
+    await closeRecorder(recorder);
+
+    const names = (await listRecordings()).map((r) => r.name).sort();
+    expect(names).toHaveLength(2);
+    expect(await readAll(path.join(dir, names[1]))).toEqual([
+      { t: T0 + 10, kind: 'meta', data: RECORDED_META },
+      recordedTicker(T0 + 10, BAL, 40),
+    ]);
+  });
+
+  it('prunes recordings past retention when it opens its first file', async () => {
+    process.env.KALSHI_RECORD_RETAIN_DAYS = '1';
+    const old = await writeRecordingFile(dir, 'old-game.ndjson.gz', [recordedTicker(T0, BAL, 40)]);
+    const recent = await writeRecordingFile(dir, 'recent-game.ndjson.gz', [recordedTicker(T0, BAL, 40)]);
+    const unrelated = path.join(dir, 'notes.txt');
+    fs.writeFileSync(unrelated, '');
+    const stale = (Date.now() - 2 * DAY_MS) / 1000;
+    fs.utimesSync(old, stale, stale);
+    fs.utimesSync(unrelated, stale, stale);
+
+    const recorder = new SessionRecorder(STREAM_KEY);
+    recorder.recordMeta(RECORDED_META);
+    await waitFor(() => !fs.existsSync(old));
+    await closeRecorder(recorder);
+
+    expect(fs.existsSync(recent)).toBe(true);
+    expect(fs.existsSync(unrelated)).toBe(true);
+  });
+});
+
+describe('readRecording', () => {
+  it('reads an unfinished file up to its last complete line', async () => {
+    const lines = [recordedTicker(T0, BAL, 40), recordedTicker(T0 + 10, BAL, 41)];
+    const file = await writeRecordingFile(dir, 'live.ndjson.gz', lines, { unfinished: true });
+
+    expect(await readAll(file)).toEqual(lines);
+  });
+
+  it('skips a truncated final line', async () => {
+    const lines = [recordedTicker(T0, BAL, 40)];
+    const file = await writeRecordingFile(dir, 'live.ndjson.gz', lines, { unfinished: true, tail: '{"t":1,"kind":"ws","da' });
+
+    expect(await readAll(file)).toEqual(lines);
+  });
+});
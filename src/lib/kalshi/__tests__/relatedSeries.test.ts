@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getRelatedEventTickers, getGroupTypeForEventTicker, classifySeries } from '../relatedSeries';
+
+describe('getRelatedEventTickers', () => {
+  it('resolves game, spread and total events for team sports', () => {
+    expect(getRelatedEventTickers('kxnhlgame-25oct19nyrbos')).toHaveLength(3);
+    expect(getRelatedEventTickers('kxnhlgame-25oct19nyrbos')).toContain('kxnhlspread-25oct19nyrbos');
+    expect(getRelatedEventTickers('kxeplgame-25oct18arsche')).toHaveLength(3);
+    expect(getRelatedEventTickers('kxncaambgame-26mar01dukeunc')).toContain('kxncaambtotal-26mar01dukeunc');
+  });
+
+  it('resolves back to the game from a spread or total', () => {
+    expect(getRelatedEventTickers('kxmlbtotal-25oct24ladtor')).toContain('kxmlbgame-25oct24ladtor');
+  });
+
+  it('keeps WNBA separate from NBA', () => {
+    expect(getRelatedEventTickers('kxwnbagame-25aug01lvny')).toContain('kxwnbaspread-25aug01lvny');
+  });
+
+  it('resolves only the match for tennis', () => {
+    expect(getRelatedEventTickers('kxatpmatch-25oct19sinalc')).toEqual(['kxatpmatch-25oct19sinalc']);
+  });
+});
+
+describe('getGroupTypeForEventTicker', () => {
+  it.each([
+    ['KXNHLSPREAD-25OCT19NYRBOS', 'spread'],
+    ['KXWNBATOTAL-25AUG01LVNY', 'total'],
+    ['KXATPMATCH-25OCT19SINALC', 'winner'],
+    ['KXUNKNOWN-25OCT19ABC', 'other'],
+  ])('classifies %s as %s', (eventTicker, groupType) => {
+    expect(getGroupTypeForEventTicker(eventTicker)).toBe(groupType);
+  });
+});
+
+describe('classifySeries', () => {
+  it.each([
+    ['KXNFLSPREAD', 'Pro Football Anything', 'spread'],
+    ['KXNFLALTSPREAD', 'Pro Football Alternate Spread', 'spread'],
+    ['KXMLBRL', 'MLB Run Line', 'spread'],
+    ['KXNBA1HSPREAD', 'Pro Basketball 1st Half Spread', 'other'],
+    ['KXNFLTEAMTOTAL', 'Pro Football Team Total', 'other'],
+    ['KXNFLANYTD', 'Pro Football Anytime Touchdown', 'other'],
+  ])('classifies %s (%s) as %s', (seriesTicker, title, groupType) => {
+    expect(classifySeries(seriesTicker, title)).toBe(groupType);
+  });
+});
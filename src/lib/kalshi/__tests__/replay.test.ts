@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ManualClock } from '../clock';
+import { connectReplay, ReplayHandle, ReplayOptions } from '../replay';
+import { TickerMessage } from '../types';
+import { RECORDED_META, T0, recordedTicker, writeRecordingFile } from './fixtures';
+
+const BAL = 'KXNFLGAME-26JAN04BALPIT-BAL';
+const PIT = 'KXNFLGAME-26JAN04BALPIT-PIT';
+const RECORDING = 'game.ndjson.gz';
+// Far enough apart that real-time playback never reaches the next line during a test
+const GAP_MS = 60_000;
+
+let dir: string;
+let handle: ReplayHandle | undefined;
+
+async function waitFor(predicate: () => boolean, timeoutMs = 3_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/** Replay five BAL ticks (bids 40..44, GAP_MS apart) and record the bids as they are applied */
+async function startReplay(speed: ReplayOptions['speed'], marketTickers = [BAL]) {
+  await writeRecordingFile(dir, RECORDING, [
+    { t: T0, kind: 'meta', data: RECORDED_META },
+    ...[40, 41, 42, 43, 44].map((bid, i) => recordedTicker(T0 + i * GAP_MS, BAL, bid)),
+  ]);
+
+  const applied: number[] = [];
+  const result = { applied, finished: false };
+  handle = connectReplay({
+    recording: RECORDING,
+    speed,
+    clock: new ManualClock(),
+    marketTickers,
+    onMessage: (msg) => applied.push((msg as TickerMessage).msg.yes_bid!),
+    onFinished: () => { result.finished = true; },
+  });
+  return result;
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kalshi-replay-'));
+  process.env.KALSHI_RECORD_DIR = dir;
+});
+
+afterEach(() => {
+  handle?.close();
+  handle = undefined;
+  delete process.env.KALSHI_RECORD_DIR;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('connectReplay', () => {
+  it('applies nothing in step mode until stepped, then exactly the requested count', async () => {
+    const replay = await startReplay('step');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(replay.applied).toEqual([]);
+
+    expect(await handle!.step()).toMatchObject({ position: 1, replayTime: T0, paused: true });
+    expect(await handle!.step(2)).toMatchObject({ position: 3, replayTime: T0 + 2 * GAP_MS });
+    expect(replay.applied).toEqual([40, 41, 42]);
+    expect(handle!.getState().tickersByMarket.get(BAL)).toMatchObject({ yes_bid: 42 });
+  });
+
+  it('resolves a step past the end with the finished progress', async () => {
+    const replay = await startReplay('step');
+
+    expect(await handle!.step(10)).toMatchObject({ position: 5, finished: true });
+    expect(replay.applied).toEqual([40, 41, 42, 43, 44]);
+    expect(replay.finished).toBe(true);
+  });
+
+  it('steps out of a real-time wait without waiting out the gap', async () => {
+    const replay = await startReplay(1);
+    await waitFor(() => replay.applied.length === 1);
+
+    handle!.pause();
+    expect(await handle!.step()).toMatchObject({ position: 2, paused: true, speed: 1 });
+    expect(replay.applied).toEqual([40, 41]);
+  });
+
+  it('holds while paused and plays the rest in order on resume', async () => {
+    const replay = await startReplay(1);
+    await waitFor(() => replay.applied.length === 1);
+    handle!.pause();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(replay.applied).toEqual([40]);
+
+    // 1000× turns each minute-long gap into 60ms
+    handle!.resume(1000);
+    await waitFor(() => replay.finished);
+    expect(replay.applied).toEqual([40, 41, 42, 43, 44]);
+    expect(handle!.getProgress()).toMatchObject({ speed: 1000, paused: false, finished: true, position: 5 });
+  });
+
+  it('skips recorded lines for markets outside the stream', async () => {
+    const replay = await startReplay('step', [PIT]);
+
+    expect(await handle!.step()).toMatchObject({ position: 0, finished: true });
+    expect(replay.applied).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { isotonicRegression } from '../signals';
+import { LADDER_CONFIG, getExpectedDirection } from '../ladderConfig';
+import { RAVENS_SPREAD, STEELERS_SPREAD, TOTALS, T0, createLadderPipeline } from './fixtures';
+
+function expectMonotone(values: number[], direction: 'nonincreasing' | 'nondecreasing') {
+  for (let i = 0; i < values.length - 1; i++) {
+    if (direction === 'nonincreasing') expect(values[i]).toBeGreaterThanOrEqual(values[i + 1]);
+    else expect(values[i]).toBeLessThanOrEqual(values[i + 1]);
+  }
+}
+
+describe('isotonicRegression', () => {
+  it('leaves a monotone series unchanged', () => {
+    expect(isotonicRegression([0.9, 0.7, 0.5, 0.3, 0.1], 'nonincreasing')).toEqual([0.9, 0.7, 0.5, 0.3, 0.1]);
+    expect(isotonicRegression([0.1, 0.3, 0.5, 0.7, 0.9], 'nondecreasing')).toEqual([0.1, 0.3, 0.5, 0.7, 0.9]);
+  });
+
+  it('pools a single violating pair to its mean', () => {
+    const fitted = isotonicRegression([0.8, 0.4, 0.6, 0.3, 0.1], 'nonincreasing');
+    expect(fitted[1]).toBeCloseTo(0.5);
+    expect(fitted[2]).toBeCloseTo(0.5);
+    expect([fitted[0], fitted[3], fitted[4]]).toEqual([0.8, 0.3, 0.1]);
+  });
+
+  it('fixes multiple violations', () => {
+    const fitted = isotonicRegression([0.5, 0.7, 0.3, 0.6, 0.2], 'nonincreasing');
+    expectMonotone(fitted, 'nonincreasing');
+    [0.6, 0.6, 0.45, 0.45, 0.2].forEach((expected, i) => expect(fitted[i]).toBeCloseTo(expected));
+  });
+
+  it('pools a run of three or more into one block at the run mean', () => {
+    const fitted = isotonicRegression([0.1, 0.2, 0.3], 'nonincreasing');
+    fitted.forEach((value) => expect(value).toBeCloseTo(0.2));
+
+    // 0.3 pools with 0.2, then 0.9 pulls that block above the first point
+    const cascade = isotonicRegression([0.3, 0.2, 0.3, 0.9], 'nonincreasing');
+    cascade.forEach((value) => expect(value).toBeCloseTo(0.425));
+  });
+
+  it('weights a pool that merged more than once by all of its points', () => {
+    // 0.6 pools with 0.5, then 0.7 joins that pool: the fit is the plain mean of
+    // all three. The original fit counted the first pool twice and gave 0.58
+    isotonicRegression([0.5, 0.6, 0.7], 'nonincreasing').forEach((value) => expect(value).toBeCloseTo(0.6));
+    isotonicRegression([0.7, 0.6, 0.5], 'nondecreasing').forEach((value) => expect(value).toBeCloseTo(0.6));
+
+    const fitted = isotonicRegression([0.9, 0.2, 0.3, 0.4, 0.1], 'nonincreasing');
+    [0.9, 0.3, 0.3, 0.3, 0.1].forEach((expected, i) => expect(fitted[i]).toBeCloseTo(expected));
+  });
+
+  it('fits non-decreasing series', () => {
+    const fitted = isotonicRegression([0.2, 0.6, 0.4, 0.7, 0.9], 'nondecreasing');
+    expectMonotone(fitted, 'nondecreasing');
+    expect(fitted[1]).toBeCloseTo(0.5);
+    expect(fitted[2]).toBeCloseTo(0.5);
+  });
+
+  it('clips the fit to [0, 1]', () => {
+    expect(isotonicRegression([1.2, 0.5, -0.1], 'nonincreasing')).toEqual([1, 0.5, 0]);
+  });
+
+  it('returns an empty fit for no points', () => {
+    expect(isotonicRegression([], 'nonincreasing')).toEqual([]);
+  });
+});
+
+describe('getExpectedDirection', () => {
+  it('expects spreads and overs to fall and unders to rise with the line', () => {
+    expect(getExpectedDirection('spread', 'Ravens')).toBe('nonincreasing');
+    expect(getExpectedDirection('spread', 'Steelers')).toBe('nonincreasing');
+    expect(getExpectedDirection('total', 'Over')).toBe('nonincreasing');
+    expect(getExpectedDirection('total', 'Under')).toBe('nondecreasing');
+  });
+});
+
+describe('SignalsEngine.computeLadders', () => {
+  it('builds a ladder per side with points sorted by line', () => {
+    const [ladder] = createLadderPipeline(RAVENS_SPREAD).computeLadders(T0);
+
+    expect(ladder).toMatchObject({
+      ladder_key: '26jan04balpit|spread|Ravens|wins_by_over',
+      game_id: '26jan04balpit',
+      ladder_type: 'spread',
+      team_or_direction: 'Ravens',
+      expected_direction: 'nonincreasing',
+      last_updated: T0,
+    });
+    expect(ladder.points.map((p) => [p.line, p.bid, p.ask])).toEqual([[3, 60, 62], [7, 74, 76], [10, 40, 42]]);
+  });
+
+  it('flags the inverted line as a monotonic violation and an outlier against the fit', () => {
+    const [ladder] = createLadderPipeline(RAVENS_SPREAD).computeLadders(T0);
+    const [line3, line7, line10] = ladder.points;
+
+    // Line 7 bid 74¢ vs line 3 ask 62¢, less the 1.5¢ band epsilon
+    expect(ladder.mono_violation_count).toBe(1);
+    expect(line3.is_violation && line7.is_violation).toBe(true);
+    expect(line10.is_violation).toBeUndefined();
+
+    // Mids 0.61 and 0.75 pool to 0.68; line 10 fits itself
+    expect(line3.fitted_prob).toBeCloseTo(0.68);
+    expect(line7.fitted_prob).toBeCloseTo(0.68);
+    expect(line3.residual).toBeCloseTo(-7);
+    expect(line7.residual).toBeCloseTo(7);
+    expect(line10.residual).toBeCloseTo(0);
+    expect(ladder.outlier_count).toBe(2);
+    expect(ladder.max_violation_cents).toBeCloseTo(10.5);
+  });
+
+  it('emits signals only once they persist', () => {
+    const pipeline = createLadderPipeline(RAVENS_SPREAD);
+
+    expect(pipeline.computeLadders(T0)[0].violations).toEqual([]);
+    expect(pipeline.computeLadders(T0 + LADDER_CONFIG.PERSIST_MS - 1)[0].violations).toEqual([]);
+
+    const { violations } = pipeline.computeLadders(T0 + LADDER_CONFIG.PERSIST_MS)[0];
+    expect(violations.map((v) => v.type).sort()).toEqual(['MONO_VIOLATION', 'OUTLIER_LINE', 'OUTLIER_LINE']);
+
+    const mono = violations.find((v) => v.type === 'MONO_VIOLATION')!;
+    expect(mono).toMatchObject({
+      market_ticker: 'KXNFLSPREAD-26JAN04BALPIT-BAL7',
+      related_tickers: ['KXNFLSPREAD-26JAN04BALPIT-BAL3', 'KXNFLSPREAD-26JAN04BALPIT-BAL7'],
+      confidence: 'high',
+      ts: T0 + LADDER_CONFIG.PERSIST_MS,
+    });
+    expect(mono.magnitude).toBeCloseTo(10.5);
+    expect(pipeline.signals.getActiveSignals()).toHaveLength(3);
+  });
+
+  it('respects the cooldown after emitting', () => {
+    const pipeline = createLadderPipeline(RAVENS_SPREAD);
+    pipeline.computeLadders(T0);
+    pipeline.computeLadders(T0 + LADDER_CONFIG.PERSIST_MS);
+
+    expect(pipeline.computeLadders(T0 + LADDER_CONFIG.PERSIST_MS + 1000)[0].violations).toEqual([]);
+  });
+
+  it('drops duplicate lines and markets that fail the gates', () => {
+    const [ladder] = createLadderPipeline(STEELERS_SPREAD).computeLadders(T0);
+
+    expect(ladder.points.map((p) => p.market_ticker)).toEqual([
+      'KXNFLSPREAD-26JAN04BALPIT-PIT3',
+      'KXNFLSPREAD-26JAN04BALPIT-PIT7',
+    ]);
+    expect(ladder.diagnostics).toMatchObject({
+      total_markets: 5,
+      duplicates_dropped: 1,
+      excluded_by_liquidity: 1,
+      excluded_by_spread: 1,
+      excluded_by_staleness: 0,
+    });
+    expect(ladder.mono_violation_count).toBe(0);
+    expect(ladder.outlier_count).toBe(0);
+  });
+
+  it('fits Under ladders as non-decreasing', () => {
+    const ladders = createLadderPipeline(TOTALS).computeLadders(T0);
+    const under = ladders.find((l) => l.team_or_direction === 'Under')!;
+
+    expect(under.expected_direction).toBe('nondecreasing');
+    expect(under.mono_violation_count).toBe(0);
+  });
+
+  it('emits a cross-ladder arb when opposing bids sum past 100%', () => {
+    const pipeline = createLadderPipeline(TOTALS);
+    pipeline.computeLadders(T0);
+    const ladders = pipeline.computeLadders(T0 + LADDER_CONFIG.PERSIST_MS);
+
+    const arb = ladders.flatMap((l) => l.violations).find((v) => v.type === 'SUM_GT_1')!;
+    expect(arb.related_tickers).toEqual(['KXNFLTOTAL-26JAN04BALPIT-O45', 'KXNFLTOTAL-26JAN04BALPIT-U45']);
+    expect(arb.magnitude).toBeCloseTo(5);
+  });
+});
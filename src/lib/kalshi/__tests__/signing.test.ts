@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateAuthHeaders, getCredentialStatus, KalshiAuthHeaders } from '../signing';
+import { kalshiGet } from '../http';
+
+const ACCESS_KEY = 'test-access-key-1234';
+
+let privatePem: string;
+let publicKey: crypto.KeyObject;
+
+/** Whether `headers` carry a valid PSS signature of `timestamp + method + path` */
+function verifies(headers: KalshiAuthHeaders, method: string, path: string): boolean {
+  return crypto.verify(
+    'sha256',
+    Buffer.from(headers['KALSHI-ACCESS-TIMESTAMP'] + method + path),
+    { key: publicKey, padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST },
+    Buffer.from(headers['KALSHI-ACCESS-SIGNATURE'], 'base64')
+  );
+}
+
+beforeAll(() => {
+  const pair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  privatePem = pair.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  publicKey = pair.publicKey;
+});
+
+beforeEach(() => {
+  process.env.KALSHI_ACCESS_KEY = ACCESS_KEY;
+  process.env.KALSHI_PRIVATE_KEY_PEM = privatePem;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  delete process.env.KALSHI_ACCESS_KEY;
+  delete process.env.KALSHI_PRIVATE_KEY_PEM;
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('generateAuthHeaders', () => {
+  it('signs the timestamp, upper-cased method and path', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_767_549_600_000);
+    const headers = generateAuthHeaders('get', '/trade-api/v2/events')!;
+
+    expect(headers['KALSHI-ACCESS-KEY']).toBe(ACCESS_KEY);
+    expect(headers['KALSHI-ACCESS-TIMESTAMP']).toBe('1767549600000');
+    expect(verifies(headers, 'GET', '/trade-api/v2/events')).toBe(true);
+    expect(verifies(headers, 'GET', '/trade-api/v2/markets')).toBe(false);
+  });
+
+  it('signs the WebSocket path by default', () => {
+    expect(verifies(generateAuthHeaders()!, 'GET', '/trade-api/ws/v2')).toBe(true);
+  });
+
+  it('returns null when the credentials are unusable', () => {
+    delete process.env.KALSHI_ACCESS_KEY;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(getCredentialStatus()).toMatchObject({ usable: false, code: 'missing_access_key', keyFormat: 'pkcs8', modulusBits: 2048 });
+    expect(generateAuthHeaders()).toBeNull();
+  });
+});
+
+describe('getCredentialStatus', () => {
+  it('reports a usable key with its format and masks the access key', () => {
+    expect(getCredentialStatus()).toMatchObject({
+      usable: true,
+      code: 'ok',
+      accessKey: '****************1234',
+      keySource: 'env',
+      keyFormat: 'pkcs8',
+      encrypted: false,
+      keyType: 'rsa',
+    });
+  });
+
+  it('flags keys that are not PEM, too small or encrypted without a passphrase', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    process.env.KALSHI_PRIVATE_KEY_PEM = 'not a key';
+    expect(getCredentialStatus().code).toBe('invalid_key');
+
+    const small = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+    process.env.KALSHI_PRIVATE_KEY_PEM = small.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    expect(getCredentialStatus()).toMatchObject({ code: 'key_too_small', modulusBits: 1024 });
+
+    process.env.KALSHI_PRIVATE_KEY_PEM = crypto.createPrivateKey(privatePem)
+      .export({ type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase: 'secret' })
+      .toString();
+    expect(getCredentialStatus()).toMatchObject({ code: 'missing_passphrase', encrypted: true });
+  });
+});
+
+describe('signed REST requests', () => {
+  // Intended: Kalshi's signature covers the path without query parameters
+  it('signs the full request path without its query string', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await kalshiGet('/events?series_ticker=KXNFLGAME&status=open', { auth: 'required' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toMatch(/\/trade-api\/v2\/events\?series_ticker=KXNFLGAME&status=open$/);
+    const headers = init!.headers as unknown as KalshiAuthHeaders;
+    expect(headers['KALSHI-ACCESS-KEY']).toBe(ACCESS_KEY);
+    expect(verifies(headers, 'GET', '/trade-api/v2/events')).toBe(true);
+    expect(verifies(headers, 'GET', '/trade-api/v2/events?series_ticker=KXNFLGAME&status=open')).toBe(false);
+  });
+
+  it('fails a required-auth request without credentials instead of sending it unsigned', async () => {
+    delete process.env.KALSHI_ACCESS_KEY;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fetchMock = vi.fn<typeof fetch>();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(kalshiGet('/portfolio/balance', { auth: 'required' })).rejects.toMatchObject({ kind: 'unauthorized' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
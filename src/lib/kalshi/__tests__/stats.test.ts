@@ -0,0 +1,296 @@
+import { describe, expect, it } from 'vitest';
+import { resolveEventTime } from '../clock';
+import { parseStatsWindows } from '../stats';
+import { applyOrderbookSnapshot } from '../ws';
+import { T0, SEC, createStatsHarness } from './fixtures';
+
+describe('resolveEventTime', () => {
+  const received = T0 + 700;
+
+  it('converts exchange seconds to ms and accepts ms as-is', () => {
+    expect(resolveEventTime(SEC, received, 'exchange')).toBe(T0);
+    expect(resolveEventTime(T0 + 250, received, 'exchange')).toBe(T0 + 250);
+  });
+
+  it('uses receive time under the receive policy or without a ts', () => {
+    expect(resolveEventTime(SEC, received, 'receive')).toBe(received);
+    expect(resolveEventTime(undefined, received, 'exchange')).toBe(received);
+  });
+
+  it('clamps exchange time ahead of the clock and ignores implausible skew', () => {
+    expect(resolveEventTime(SEC + 1, received, 'exchange')).toBe(received);
+    expect(resolveEventTime(SEC - 3600, received, 'exchange')).toBe(received);
+  });
+});
+
+describe('StatsEngine', () => {
+  it('produces exact stats from a book, a ticker and trades', () => {
+    const h = createStatsHarness();
+
+    applyOrderbookSnapshot(h.state, { market_ticker: 'M', yes: [[40, 100], [39, 50]], no: [[55, 30], [54, 20]] });
+    h.state.bookIntegrityByMarket.set('M', 'ok');
+    h.engine.onOrderbookUpdate('M');
+
+    h.ticker(T0 + 1000, { market_ticker: 'M', yes_bid: 40, yes_ask: 45, ts: SEC + 1 });
+    h.trade(T0 + 2000, { market_ticker: 'M', yes_price: 44, count: 10, taker_side: 'yes', ts: SEC + 2 });
+    h.trade(T0 + 3500, { market_ticker: 'M', yes_price: 41, count: 5, taker_side: 'no', ts: SEC + 3 });
+
+    // Every window reaches back past the first trade, and no mid precedes any window
+    const flow = (windowMs: number) => ({
+      window_ms: windowMs,
+      trade_count: 2,
+      volume: 15,
+      vwap: 645 / 15,
+      buy_pressure: 10 / 15,
+      sell_pressure: 5 / 15,
+    });
+
+    expect(h.statsAt(T0 + 4000)).toStrictEqual({
+      market_ticker: 'M',
+      ts: T0 + 4000,
+      best_bid: 40,
+      best_ask: 45,
+      mid: 42.5,
+      spread: 5,
+      spread_bps: (5 / 42.5) * 10000,
+      implied_prob: 42.5 / 100,
+      price_delta_1m: undefined,
+      crossed: false,
+      no_bid: 55,
+      no_ask: 60,
+      no_mid: 57.5,
+      no_microprice: 100 - (45 * 100 + 40 * 30) / 130,
+      microprice: (45 * 100 + 40 * 30) / 130,
+      imbalance_top: (100 - 30) / 130,
+      bid_size_top: 100,
+      ask_size_top: 30,
+      sum_bid_top5: 150,
+      sum_ask_top5: 50,
+      book_imbalance_top5: 0.5,
+      wall_bid_size: 100,
+      wall_ask_size: 30,
+      wall_bid_ratio: 100 / 150,
+      wall_ask_ratio: 30 / 50,
+      // Asks are 45 x30 and 46 x20; nothing rests within 2¢ of the 42.5 mid
+      depth_bands: {
+        '1c': { cents: 1, bid_depth: 0, ask_depth: 0, cost_up: (30 * 45) / 100, cost_down: (100 * 60) / 100 },
+        '2c': { cents: 2, bid_depth: 0, ask_depth: 0, cost_up: (30 * 45 + 20 * 46) / 100, cost_down: (100 * 60 + 50 * 61) / 100 },
+        '5c': { cents: 5, bid_depth: 150, ask_depth: 50, cost_up: (30 * 45 + 20 * 46) / 100, cost_down: (100 * 60 + 50 * 61) / 100 },
+        '10c': { cents: 10, bid_depth: 150, ask_depth: 50, cost_up: (30 * 45 + 20 * 46) / 100, cost_down: (100 * 60 + 50 * 61) / 100 },
+      },
+      trades_per_min: 2,
+      trades_last_60s: 2,
+      buy_pressure: 10 / 15,
+      sell_pressure: 5 / 15,
+      vwap_60s: 645 / 15,
+      last_trade_age_ms: 1000,
+      last_trade_price: 41,
+      vol_mid_60s: undefined,
+      jump_flag: false,
+      jump_size: undefined,
+      windows: {
+        '10s': flow(10_000),
+        '1m': flow(60_000),
+        '5m': flow(300_000),
+        '15m': flow(900_000),
+      },
+      last_ticker_age_ms: 3000,
+      last_orderbook_age_ms: 4000,
+      last_trade_ts: T0 + 3000,
+      feed_status: 'fresh',
+      book_integrity: 'ok',
+    });
+  });
+
+  it('flags a jump against the 5s-ago mid and measures deltas from the mid at each window start', () => {
+    const h = createStatsHarness();
+
+    h.ticker(T0 + 100, { market_ticker: 'M', yes_bid: 40, yes_ask: 44, ts: SEC });
+    h.ticker(T0 + 2100, { market_ticker: 'M', yes_bid: 41, yes_ask: 45, ts: SEC + 2 });
+    h.ticker(T0 + 6100, { market_ticker: 'M', yes_bid: 48, yes_ask: 52, ts: SEC + 6 });
+
+    // Mid changes [1, 7]: mean 4, variance 9
+    expect(h.statsAt(T0 + 6500)).toMatchObject({ jump_flag: true, jump_size: 7, vol_mid_60s: 3 });
+
+    h.ticker(T0 + 61200, { market_ticker: 'M', yes_bid: 50, yes_ask: 52, ts: SEC + 61 });
+
+    // Mids 42 @0s, 43 @2s, 50 @6s, 51 @61s. The 1m window starts at 1.5s, where 42 was in force.
+    const quiet = { trade_count: 0, volume: 0 };
+
+    expect(h.statsAt(T0 + 61500)).toStrictEqual({
+      market_ticker: 'M',
+      ts: T0 + 61500,
+      best_bid: 50,
+      best_ask: 52,
+      mid: 51,
+      spread: 2,
+      spread_bps: (2 / 51) * 10000,
+      implied_prob: 51 / 100,
+      price_delta_1m: 9,
+      crossed: false,
+      no_bid: 48,
+      no_ask: 50,
+      no_mid: 49,
+      no_microprice: undefined,
+      microprice: undefined,
+      imbalance_top: undefined,
+      bid_size_top: undefined,
+      ask_size_top: undefined,
+      sum_bid_top5: undefined,
+      sum_ask_top5: undefined,
+      book_imbalance_top5: undefined,
+      wall_bid_size: undefined,
+      wall_ask_size: undefined,
+      wall_bid_ratio: undefined,
+      wall_ask_ratio: undefined,
+      depth_bands: {},
+      trades_per_min: 0,
+      trades_last_60s: 0,
+      buy_pressure: undefined,
+      sell_pressure: undefined,
+      vwap_60s: undefined,
+      last_trade_age_ms: undefined,
+      last_trade_price: undefined,
+      vol_mid_60s: 3,
+      jump_flag: false,
+      jump_size: undefined,
+      windows: {
+        '10s': { window_ms: 10_000, ...quiet, price_delta: 1, realized_vol: 1 },
+        '1m': { window_ms: 60_000, ...quiet, price_delta: 9, realized_vol: Math.sqrt(51) },
+        // No mid before either start, so no delta; the path is every mid
+        '5m': { window_ms: 300_000, ...quiet, realized_vol: Math.sqrt(51) },
+        '15m': { window_ms: 900_000, ...quiet, realized_vol: Math.sqrt(51) },
+      },
+      last_ticker_age_ms: 300,
+      last_orderbook_age_ms: undefined,
+      last_trade_ts: 0,
+      feed_status: 'fresh',
+      book_integrity: undefined,
+    });
+  });
+
+  it('ignores receive jitter under the exchange policy', () => {
+    const script = (jitter: number[]) => {
+      const h = createStatsHarness('exchange');
+      h.ticker(T0 + jitter[0], { market_ticker: 'M', yes_bid: 40, yes_ask: 44, ts: SEC });
+      h.trade(T0 + 1000 + jitter[1], { market_ticker: 'M', yes_price: 43, count: 2, taker_side: 'yes', ts: SEC + 1 });
+      h.ticker(T0 + 2000 + jitter[2], { market_ticker: 'M', yes_bid: 42, yes_ask: 46, ts: SEC + 2 });
+      h.trade(T0 + 3000 + jitter[3], { market_ticker: 'M', yes_price: 45, count: 1, taker_side: 'no', ts: SEC + 3 });
+      // Ticker age measures our connection, so it is the one field expected to differ
+      return { ...h.statsAt(T0 + 5000), last_ticker_age_ms: undefined };
+    };
+
+    expect(script([900, 50, 700, 999])).toStrictEqual(script([0, 0, 0, 0]));
+  });
+
+  it('stamps trades at receipt under the receive policy', () => {
+    const h = createStatsHarness('receive');
+    h.ticker(T0, { market_ticker: 'M', yes_bid: 49, yes_ask: 51, ts: SEC });
+    h.trade(T0 + 900, { market_ticker: 'M', yes_price: 50, count: 1, ts: SEC });
+
+    expect(h.statsAt(T0 + 1000)).toMatchObject({ last_trade_ts: T0 + 900, last_trade_age_ms: 100 });
+  });
+
+  it('keeps a late trade in order without moving the series backwards', () => {
+    const h = createStatsHarness();
+    h.ticker(T0, { market_ticker: 'M', yes_bid: 49, yes_ask: 51, ts: SEC });
+    h.trade(T0 + 2100, { market_ticker: 'M', yes_price: 50, count: 1, taker_side: 'yes', ts: SEC + 2 });
+    h.trade(T0 + 2200, { market_ticker: 'M', yes_price: 52, count: 1, taker_side: 'yes', ts: SEC + 1 });
+
+    expect(h.statsAt(T0 + 3000)).toMatchObject({ last_trade_ts: T0 + 2000, last_trade_price: 52, trades_last_60s: 2 });
+  });
+
+  it('judges feed health by receive time, not trade event time', () => {
+    const h = createStatsHarness();
+    applyOrderbookSnapshot(h.state, { market_ticker: 'M', yes: [[40, 10]], no: [[55, 10]] });
+
+    // A backfilled trade is history, not a sign the feed is live
+    h.engine.seedHistory('M', [{ ts: T0 - 1000, price: 41, count: 5, side: 'buy' }], []);
+    expect(h.statsAt(T0)).toMatchObject({ last_trade_ts: T0 - 1000, feed_status: 'unknown' });
+
+    // A live trade stamped 10s back by a lagging exchange clock still shows the feed is up
+    h.trade(T0 + 20_000, { market_ticker: 'M', yes_price: 42, count: 1, taker_side: 'yes', ts: SEC + 10 });
+    expect(h.statsAt(T0 + 20_000)).toMatchObject({ last_trade_ts: T0 + 10_000, feed_status: 'fresh' });
+  });
+});
+
+describe('StatsEngine NO side', () => {
+  it('rebuilds a quote from its NO side when the YES side is missing', () => {
+    const h = createStatsHarness();
+    h.ticker(T0, { market_ticker: 'M', no_bid: 55, no_ask: 60, ts: SEC });
+
+    expect(h.statsAt(T0 + 100)).toMatchObject({ best_bid: 40, best_ask: 45, no_bid: 55, no_ask: 60, no_mid: 57.5, crossed: false });
+  });
+
+  it('flags a crossed book even when the quote is clean', () => {
+    const h = createStatsHarness();
+    applyOrderbookSnapshot(h.state, { market_ticker: 'M', yes: [[60, 10]], no: [[43, 10]] });
+    h.engine.onOrderbookUpdate('M');
+    h.ticker(T0, { market_ticker: 'M', yes_bid: 55, yes_ask: 57, ts: SEC });
+
+    expect(h.statsAt(T0 + 100)).toMatchObject({ best_bid: 55, best_ask: 57, crossed: true });
+  });
+});
+
+describe('parseStatsWindows', () => {
+  it('parses and sorts horizons, dropping duplicates', () => {
+    expect(parseStatsWindows('5m, 10s,1h,300s')).toEqual([
+      { label: '10s', ms: 10_000 },
+      { label: '5m', ms: 300_000 },
+      { label: '1h', ms: 3_600_000 },
+    ]);
+  });
+
+  it.each(['', '10', '0s', '2h', '1m,fast'])('rejects %j', (spec) => {
+    expect(parseStatsWindows(spec)).toBeNull();
+  });
+});
+
+describe('StatsEngine windows', () => {
+  it('looks each horizon back by exact event time', () => {
+    const h = createStatsHarness();
+    h.ticker(T0, { market_ticker: 'M', yes_bid: 39, yes_ask: 41, ts: SEC });
+    h.trade(T0 + 1000, { market_ticker: 'M', yes_price: 41, count: 10, taker_side: 'yes', ts: SEC + 1 });
+    h.trade(T0 + 240_000, { market_ticker: 'M', yes_price: 45, count: 5, taker_side: 'no', ts: SEC + 240 });
+    h.ticker(T0 + 240_000, { market_ticker: 'M', yes_bid: 45, yes_ask: 47, ts: SEC + 240 });
+
+    const { windows } = h.statsAt(T0 + 360_000)!;
+
+    expect(windows['10s']).toStrictEqual({ window_ms: 10_000, trade_count: 0, volume: 0, price_delta: 0 });
+    expect(windows['1m']).toStrictEqual({ window_ms: 60_000, trade_count: 0, volume: 0, price_delta: 0 });
+    expect(windows['5m']).toStrictEqual({
+      window_ms: 300_000,
+      trade_count: 1,
+      volume: 5,
+      vwap: 45,
+      buy_pressure: 0,
+      sell_pressure: 1,
+      price_delta: 6,
+      realized_vol: 6,
+    });
+    expect(windows['15m']).toMatchObject({ trade_count: 2, volume: 15, vwap: 635 / 15, realized_vol: 6 });
+    expect(windows['15m'].price_delta).toBeUndefined();
+  });
+
+  it('keeps the mid in force at the longest window start after pruning', () => {
+    const h = createStatsHarness();
+    h.ticker(T0, { market_ticker: 'M', yes_bid: 39, yes_ask: 41, ts: SEC });
+    h.ticker(T0 + 240_000, { market_ticker: 'M', yes_bid: 45, yes_ask: 47, ts: SEC + 240 });
+    h.ticker(T0 + 1_200_000, { market_ticker: 'M', yes_bid: 49, yes_ask: 51, ts: SEC + 1200 });
+
+    expect(h.statsAt(T0 + 1_200_000)!.windows['15m']).toMatchObject({ price_delta: 4, realized_vol: 4 });
+  });
+
+  it('anchors windows on seeded candle mids', () => {
+    const h = createStatsHarness();
+    h.engine.seedHistory('M', [], [{ ts: T0 - 600_000, mid: 30 }, { ts: T0 - 120_000, mid: 35 }]);
+    h.ticker(T0, { market_ticker: 'M', yes_bid: 39, yes_ask: 41, ts: SEC });
+
+    const stats = h.statsAt(T0 + 1000)!;
+
+    expect(stats.price_delta_1m).toBe(5);
+    expect(stats.windows['5m'].price_delta).toBe(10);
+    expect(stats.windows['15m'].price_delta).toBeUndefined();
+  });
+});
+
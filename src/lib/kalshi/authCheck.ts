@@ -0,0 +1,80 @@
+import { kalshiRequest, KalshiApiError } from './http';
+import { getCredentialStatus, CredentialStatus, CredentialStatusCode } from './signing';
+import { getKalshiEnv } from './types';
+
+// Kalshi rejects signatures whose timestamp is too far from its own clock;
+// beyond this much skew we point at the clock rather than the key
+const MAX_CLOCK_SKEW_MS = 5_000;
+
+export type AuthCheckCode = 'ok' | 'missing_credentials' | 'key_format' | 'clock_skew' | 'rejected' | 'unreachable';
+
+export interface AuthCheckResult {
+  ok: boolean;
+  code: AuthCheckCode;
+  message: string;
+  env: string;
+  /** Access key with all but the last four characters masked */
+  accessKey?: string;
+  /** Local clock minus Kalshi's, from the response Date header (second resolution) */
+  clockSkewMs?: number;
+  credentials: CredentialStatus;
+}
+
+const MISSING_CODES: CredentialStatusCode[] = ['missing_access_key', 'missing_private_key', 'unreadable_key_file'];
+
+function describeSkew(skewMs: number): string {
+  const seconds = Math.round(Math.abs(skewMs) / 1000);
+  return `local clock is ${seconds}s ${skewMs > 0 ? 'ahead of' : 'behind'} Kalshi`;
+}
+
+/**
+ * Confirm the configured key can sign requests by reading the portfolio
+ * balance, the cheapest authenticated endpoint. The balance itself is not
+ * returned: the route is unauthenticated.
+ */
+export async function checkAuth(): Promise<AuthCheckResult> {
+  const credentials = getCredentialStatus();
+  const base = { env: getKalshiEnv(), accessKey: credentials.accessKey, credentials };
+
+  if (!credentials.usable) {
+    const code = MISSING_CODES.includes(credentials.code) ? 'missing_credentials' : 'key_format';
+    return { ...base, ok: false, code, message: credentials.message };
+  }
+
+  const sentAt = Date.now();
+  try {
+    const { serverTime } = await kalshiRequest('/portfolio/balance', { auth: 'required', maxRetries: 1 });
+    const clockSkewMs = serverTime !== undefined ? Math.round((sentAt + Date.now()) / 2 - serverTime) : undefined;
+    return { ...base, ok: true, code: 'ok', message: 'Credentials accepted', clockSkewMs };
+  } catch (err) {
+    if (!(err instanceof KalshiApiError)) {
+      const reason = err instanceof Error ? err.message : String(err);
+      return { ...base, ok: false, code: 'unreachable', message: `Auth check failed: ${reason}` };
+    }
+
+    const clockSkewMs = err.serverTime !== undefined
+      ? Math.round((sentAt + Date.now()) / 2 - err.serverTime)
+      : undefined;
+
+    if (err.kind === 'unauthorized') {
+      if (clockSkewMs !== undefined && Math.abs(clockSkewMs) > MAX_CLOCK_SKEW_MS) {
+        return {
+          ...base,
+          ok: false,
+          code: 'clock_skew',
+          message: `Kalshi rejected the signature and the ${describeSkew(clockSkewMs)}; sync the system clock`,
+          clockSkewMs,
+        };
+      }
+      return {
+        ...base,
+        ok: false,
+        code: 'rejected',
+        message: `Kalshi rejected the credentials (${err.status ?? 'no status'}); check the access key matches the private key and KALSHI_ENV`,
+        clockSkewMs,
+      };
+    }
+
+    return { ...base, ok: false, code: 'unreachable', message: err.message, clockSkewMs };
+  }
+}
@@ -0,0 +1,157 @@
+import { parseArgs } from 'util';
+import { performance } from 'perf_hooks';
+import { listRecordings, getRecordingPath } from '../recorder';
+import { readRecording } from '../replay';
+import { createConnectionState, applyOrderbookSnapshot, applyOrderbookDelta } from '../ws';
+import { OrderbookSnapshotMessage, OrderbookDeltaMessage } from '../types';
+
+// The stream hub's stats cadence and the depth it reads
+const STATS_INTERVAL_MS = 500;
+const TOP_LEVELS = 5;
+
+/** The per-side Maps books were kept in before, sorted on every read */
+interface MapBook {
+  yes: Map<number, number>;
+  no: Map<number, number>;
+}
+
+function applyMapSnapshot(books: Map<string, MapBook>, msg: OrderbookSnapshotMessage['msg']) {
+  const book: MapBook = { yes: new Map(), no: new Map() };
+  for (const [price, quantity] of msg.yes || []) {
+    if (quantity > 0) book.yes.set(price, quantity);
+  }
+  for (const [price, quantity] of msg.no || []) {
+    if (quantity > 0) book.no.set(price, quantity);
+  }
+  books.set(msg.market_ticker, book);
+}
+
+function applyMapDelta(books: Map<string, MapBook>, msg: OrderbookDeltaMessage['msg']) {
+  let book = books.get(msg.market_ticker);
+  if (!book) {
+    book = { yes: new Map(), no: new Map() };
+    books.set(msg.market_ticker, book);
+  }
+  const side = msg.side === 'yes' ? book.yes : book.no;
+  const quantity = (side.get(msg.price) || 0) + msg.delta;
+  if (quantity <= 0) side.delete(msg.price);
+  else side.set(msg.price, quantity);
+}
+
+/** Fold a book read into a number, so both structures can be checked against each other */
+function checksum(bid: number | undefined, ask: number | undefined, yes: [number, number][], no: [number, number][]): number {
+  let sum = (bid ?? 0) * 7 + (ask ?? 0) * 11;
+  for (const [price, quantity] of yes) sum += price * quantity;
+  for (const [price, quantity] of no) sum -= price * quantity;
+  return sum;
+}
+
+/**
+ * `npm run bench:orderbook -- --recording <name> --rounds 20`
+ * Replays a recording's book messages into the price-indexed books and into
+ * Map-per-side books, and every 500ms of recording time reads top of book and
+ * the top five levels of every market from each, `rounds` times.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      recording: { type: 'string' },
+      rounds: { type: 'string', default: '20' },
+    },
+  });
+
+  const name = values.recording ?? (await listRecordings())[0]?.name;
+  if (!name) {
+    console.error('No recordings found. Record a session with KALSHI_RECORD=on or pass --recording <name>.');
+    process.exit(1);
+  }
+  const file = getRecordingPath(name);
+  if (!file) {
+    console.error(`Recording not found: ${name}`);
+    process.exit(1);
+  }
+  const rounds = Math.max(1, Number(values.rounds) || 1);
+
+  const state = createConnectionState();
+  const mapBooks = new Map<string, MapBook>();
+  let messages = 0;
+  let ticks = 0;
+  let reads = 0;
+  let nextTickAt: number | null = null;
+  let indexedApplyMs = 0;
+  let mapApplyMs = 0;
+  let indexedReadMs = 0;
+  let mapReadMs = 0;
+  let indexedSum = 0;
+  let mapSum = 0;
+
+  const readAll = () => {
+    let start = performance.now();
+    for (let round = 0; round < rounds; round++) {
+      for (const book of state.orderbookByMarket.values()) {
+        indexedSum += checksum(book.yesBid, book.yesAsk, book.yes.top(TOP_LEVELS), book.no.top(TOP_LEVELS));
+      }
+    }
+    indexedReadMs += performance.now() - start;
+
+    start = performance.now();
+    for (let round = 0; round < rounds; round++) {
+      for (const book of mapBooks.values()) {
+        const yes = Array.from(book.yes.entries()).sort((a, b) => b[0] - a[0]);
+        const no = Array.from(book.no.entries()).sort((a, b) => b[0] - a[0]);
+        mapSum += checksum(yes[0]?.[0], no.length > 0 ? 100 - no[0][0] : undefined, yes.slice(0, TOP_LEVELS), no.slice(0, TOP_LEVELS));
+      }
+    }
+    mapReadMs += performance.now() - start;
+
+    ticks++;
+    reads += rounds * state.orderbookByMarket.size;
+  };
+
+  for await (const line of readRecording(file)) {
+    if (line.kind !== 'ws') continue;
+    const message = line.data;
+    if (message.type !== 'orderbook_snapshot' && message.type !== 'orderbook_delta') continue;
+
+    nextTickAt ??= line.t + STATS_INTERVAL_MS;
+    if (line.t >= nextTickAt) {
+      readAll();
+      nextTickAt += Math.floor((line.t - nextTickAt) / STATS_INTERVAL_MS + 1) * STATS_INTERVAL_MS;
+    }
+
+    let start = performance.now();
+    if (message.type === 'orderbook_snapshot') applyOrderbookSnapshot(state, (message as OrderbookSnapshotMessage).msg);
+    else applyOrderbookDelta(state, (message as OrderbookDeltaMessage).msg);
+    indexedApplyMs += performance.now() - start;
+
+    start = performance.now();
+    if (message.type === 'orderbook_snapshot') applyMapSnapshot(mapBooks, (message as OrderbookSnapshotMessage).msg);
+    else applyMapDelta(mapBooks, (message as OrderbookDeltaMessage).msg);
+    mapApplyMs += performance.now() - start;
+
+    messages++;
+  }
+  if (messages > 0) readAll();
+
+  const perMessage = (ms: number) => (messages > 0 ? ((ms * 1e6) / messages).toFixed(0) : '-');
+  const perRead = (ms: number) => (reads > 0 ? ((ms * 1e6) / reads).toFixed(0) : '-');
+
+  console.log(`recording     ${name}`);
+  console.log(`book messages ${messages}`);
+  console.log(`markets       ${state.orderbookByMarket.size}`);
+  console.log(`stats ticks   ${ticks} × ${rounds} rounds`);
+  console.log('');
+  console.log(`${'book'.padEnd(16)}${'apply ns/msg'.padStart(14)}${'read ns/market'.padStart(16)}`);
+  console.log(`${'price-indexed'.padEnd(16)}${perMessage(indexedApplyMs).padStart(14)}${perRead(indexedReadMs).padStart(16)}`);
+  console.log(`${'map + sort'.padEnd(16)}${perMessage(mapApplyMs).padStart(14)}${perRead(mapReadMs).padStart(16)}`);
+
+  if (indexedSum !== mapSum) {
+    console.error('\nThe two books disagree on the recording: price-indexed and map reads differ');
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error('[Bench] Failed:', err);
+  process.exit(1);
+});
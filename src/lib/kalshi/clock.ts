@@ -0,0 +1,56 @@
+/**
+ * Time source for the stats and signals engines. Live streams use the wall
+ * clock; replays advance a manual clock to each recorded receive time so the
+ * same recording always produces the same stats.
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+export class ManualClock implements Clock {
+  constructor(private current = 0) {}
+
+  now(): number {
+    return this.current;
+  }
+
+  /** Move to `ts`; never backwards, so out-of-order lines cannot rewind windows */
+  advanceTo(ts: number): void {
+    if (ts > this.current) this.current = ts;
+  }
+}
+
+/**
+ * Which time stamps market data: `exchange` uses the message's own `ts` when
+ * present and plausible, `receive` always uses the clock at receipt.
+ */
+export type TimestampPolicy = 'exchange' | 'receive';
+
+// Exchange stamps further than this from the local clock are treated as bogus
+export const MAX_EXCHANGE_SKEW_MS = 30_000;
+
+export function getTimestampPolicy(): TimestampPolicy {
+  return process.env.KALSHI_TIMESTAMP_POLICY === 'receive' ? 'receive' : 'exchange';
+}
+
+/**
+ * Event time for a message received at `receivedAt`. Kalshi sends `ts` in
+ * Unix seconds; millisecond values are accepted too. The result is never
+ * after `receivedAt`, so ages computed against the clock stay non-negative.
+ */
+export function resolveEventTime(
+  exchangeTs: number | undefined,
+  receivedAt: number,
+  policy: TimestampPolicy
+): number {
+  if (policy === 'receive' || exchangeTs === undefined || !Number.isFinite(exchangeTs) || exchangeTs <= 0) {
+    return receivedAt;
+  }
+  const ms = exchangeTs < 1e12 ? exchangeTs * 1000 : exchangeTs;
+  if (Math.abs(receivedAt - ms) > MAX_EXCHANGE_SKEW_MS) return receivedAt;
+  return Math.min(ms, receivedAt);
+}
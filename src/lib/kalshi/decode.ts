@@ -0,0 +1,277 @@
+import {
+  KalshiEvent,
+  KalshiMarket,
+  KalshiSeries,
+  KalshiTrade,
+  KalshiCandlestick,
+  KalshiOhlc,
+  EventWithMarkets,
+} from './types';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]' | 'object';
+
+type FieldSpec<T> = { [K in keyof T]?: FieldType };
+
+// Fields copied from Kalshi market payloads; everything else is either listed
+// in IGNORED_MARKET_FIELDS or reported as schema drift
+const MARKET_FIELDS: FieldSpec<KalshiMarket> = {
+  ticker: 'string',
+  market_ticker: 'string',
+  event_ticker: 'string',
+  title: 'string',
+  subtitle: 'string',
+  yes_sub_title: 'string',
+  no_sub_title: 'string',
+  status: 'string',
+  yes_bid: 'number',
+  yes_ask: 'number',
+  no_bid: 'number',
+  no_ask: 'number',
+  last_price: 'number',
+  volume: 'number',
+  volume_24h: 'number',
+  open_interest: 'number',
+  liquidity: 'number',
+  result: 'string',
+  open_time: 'string',
+  close_time: 'string',
+  expected_expiration_time: 'string',
+  expiration_time: 'string',
+  rules_primary: 'string',
+  strike_type: 'string',
+  floor_strike: 'number',
+  cap_strike: 'number',
+};
+
+const IGNORED_MARKET_FIELDS = new Set([
+  'market_type', 'category', 'latest_expiration_time', 'settlement_timer_seconds',
+  'response_price_units', 'notional_value', 'tick_size', 'previous_yes_bid',
+  'previous_yes_ask', 'previous_price', 'risk_limit_cents', 'can_close_early',
+  'expiration_value', 'rules_secondary', 'settlement_value', 'functional_strike',
+  'custom_strike', 'early_close_condition', 'mve_collection_ticker', 'mve_selected_legs',
+  'primary_participant_key', 'price_level_structure', 'price_ranges',
+  'fractional_trading_enabled', 'is_provisional', 'settlement_ts',
+]);
+
+const EVENT_FIELDS: FieldSpec<KalshiEvent> = {
+  event_ticker: 'string',
+  series_ticker: 'string',
+  title: 'string',
+  subtitle: 'string',
+  category: 'string',
+  mutually_exclusive: 'boolean',
+  strike_date: 'string',
+};
+
+const IGNORED_EVENT_FIELDS = new Set([
+  'markets', 'sub_title', 'strike_period', 'collateral_return_type',
+  'available_on_brokers', 'price_level_structure', 'product_metadata', 'last_updated_ts',
+]);
+
+const SERIES_FIELDS: FieldSpec<KalshiSeries> = {
+  ticker: 'string',
+  title: 'string',
+  category: 'string',
+  tags: 'string[]',
+};
+
+const IGNORED_SERIES_FIELDS = new Set([
+  'frequency', 'settlement_sources', 'contract_url', 'contract_terms_url',
+  'fee_type', 'fee_multiplier', 'additional_prohibitions', 'product_metadata',
+  'volume', 'last_updated_ts',
+]);
+
+const TRADE_FIELDS: FieldSpec<KalshiTrade> = {
+  trade_id: 'string',
+  ticker: 'string',
+  yes_price: 'number',
+  no_price: 'number',
+  count: 'number',
+  taker_side: 'string',
+  created_time: 'string',
+};
+
+// `price` is the legacy name for `yes_price`
+const IGNORED_TRADE_FIELDS = new Set(['price']);
+
+const CANDLESTICK_FIELDS: FieldSpec<KalshiCandlestick> = {
+  end_period_ts: 'number',
+  yes_bid: 'object',
+  yes_ask: 'object',
+  price: 'object',
+  volume: 'number',
+  open_interest: 'number',
+};
+
+const IGNORED_CANDLESTICK_FIELDS = new Set<string>();
+
+// Kalshi mirrors price and count fields as fixed-point strings (`yes_bid_dollars`,
+// `volume_fp`); the integer versions are the ones we decode
+const MIRRORED_FIELD_SUFFIXES = ['_dollars', '_fp'];
+
+// Each drift is logged once per process; payloads repeat the same shape
+const reportedDrift = new Set<string>();
+
+function reportDrift(kind: string, field: string, issue: string): void {
+  const key = `${kind}.${field}:${issue}`;
+  if (reportedDrift.has(key)) return;
+  reportedDrift.add(key);
+  console.warn(`[Schema] ${kind}.${field}: ${issue}`);
+}
+
+/** Every schema drift seen so far, as `kind.field:issue` */
+export function getSchemaDrift(): string[] {
+  return Array.from(reportedDrift);
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  if (type === 'string[]') {
+    return Array.isArray(value) && value.every((v) => typeof v === 'string');
+  }
+  if (type === 'object') {
+    return typeof value === 'object' && !Array.isArray(value);
+  }
+  return typeof value === type;
+}
+
+/**
+ * Copy the fields in `spec` that have the declared type. Wrong types, missing
+ * required fields and unrecognized fields are reported as drift; nulls are
+ * treated as absent.
+ */
+function decodeFields<T>(
+  kind: string,
+  raw: unknown,
+  spec: FieldSpec<T>,
+  ignored: Set<string>,
+  required: (keyof T)[]
+): Partial<T> {
+  const out: Record<string, unknown> = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    reportDrift(kind, '*', `expected object, got ${Array.isArray(raw) ? 'array' : typeof raw}`);
+    return out as Partial<T>;
+  }
+
+  const specTypes = spec as Record<string, FieldType | undefined>;
+  for (const [field, value] of Object.entries(raw)) {
+    const type = specTypes[field];
+    if (!type) {
+      if (!ignored.has(field) && !MIRRORED_FIELD_SUFFIXES.some((suffix) => field.endsWith(suffix))) {
+        reportDrift(kind, field, 'unknown field');
+      }
+      continue;
+    }
+    if (value === null || value === undefined) continue;
+    if (!matchesType(value, type)) {
+      reportDrift(kind, field, `expected ${type}, got ${typeof value}`);
+      continue;
+    }
+    out[field] = value;
+  }
+
+  for (const field of required) {
+    if (out[field as string] === undefined) {
+      reportDrift(kind, String(field), 'missing');
+    }
+  }
+
+  return out as Partial<T>;
+}
+
+export function decodeMarket(raw: unknown): KalshiMarket {
+  const fields = decodeFields('market', raw, MARKET_FIELDS, IGNORED_MARKET_FIELDS, ['ticker', 'title']);
+  const ticker = fields.ticker || fields.market_ticker || '';
+  return {
+    ...fields,
+    ticker,
+    market_ticker: ticker,
+    title: fields.title || '',
+  };
+}
+
+export function decodeEvent(raw: unknown, fallbackTicker = ''): KalshiEvent {
+  const fields = decodeFields('event', raw, EVENT_FIELDS, IGNORED_EVENT_FIELDS, ['event_ticker', 'title']);
+  // Events spell it `sub_title`; older payloads used `subtitle`
+  const subTitle = (raw as Record<string, unknown> | null)?.sub_title;
+  return {
+    ...fields,
+    event_ticker: fields.event_ticker || fallbackTicker,
+    title: fields.title || 'Unknown Event',
+    subtitle: fields.subtitle ?? (typeof subTitle === 'string' && subTitle ? subTitle : undefined),
+  };
+}
+
+export function decodeMarkets(raw: unknown): KalshiMarket[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    reportDrift('markets', '*', `expected array, got ${typeof raw}`);
+    return [];
+  }
+  return raw.map(decodeMarket);
+}
+
+/**
+ * Decode a single-event response (`GET /events/{ticker}`) or one entry of an
+ * event listing. Markets are nested under the event when requested with
+ * `with_nested_markets`, and sit beside it otherwise.
+ */
+export function decodeEventWithMarkets(data: unknown, fallbackTicker = ''): EventWithMarkets {
+  const body = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const rawEvent = (body.event ?? body) as Record<string, unknown>;
+  const markets = decodeMarkets(rawEvent.markets ?? body.markets);
+  const event = decodeEvent(rawEvent, fallbackTicker);
+  event.markets = markets;
+  return { event, markets };
+}
+
+export function decodeSeries(raw: unknown): KalshiSeries {
+  const fields = decodeFields('series', raw, SERIES_FIELDS, IGNORED_SERIES_FIELDS, ['ticker']);
+  return {
+    ...fields,
+    ticker: fields.ticker || '',
+    title: fields.title || '',
+  };
+}
+
+export function decodeTrades(raw: unknown): KalshiTrade[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    reportDrift('trades', '*', `expected array, got ${typeof raw}`);
+    return [];
+  }
+  return raw.map((entry) => {
+    const fields = decodeFields('trade', entry, TRADE_FIELDS, IGNORED_TRADE_FIELDS, ['ticker', 'created_time']);
+    return { ...fields, ticker: fields.ticker || '' };
+  });
+}
+
+/** Numeric open/high/low/close of a candle side; mean, previous and mirrored fields are dropped */
+function decodeOhlc(raw: unknown): KalshiOhlc | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const values = raw as Record<string, unknown>;
+  const ohlc: KalshiOhlc = {};
+  for (const key of ['open', 'high', 'low', 'close'] as const) {
+    if (typeof values[key] === 'number') ohlc[key] = values[key] as number;
+  }
+  return ohlc;
+}
+
+export function decodeCandlesticks(raw: unknown): KalshiCandlestick[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    reportDrift('candlesticks', '*', `expected array, got ${typeof raw}`);
+    return [];
+  }
+  return raw
+    .map((entry) => {
+      const fields = decodeFields('candlestick', entry, CANDLESTICK_FIELDS, IGNORED_CANDLESTICK_FIELDS, ['end_period_ts']);
+      return {
+        ...fields,
+        end_period_ts: fields.end_period_ts ?? 0,
+        yes_bid: decodeOhlc(fields.yes_bid),
+        yes_ask: decodeOhlc(fields.yes_ask),
+        price: decodeOhlc(fields.price),
+      };
+    })
+    .filter((candle) => candle.end_period_ts > 0);
+}
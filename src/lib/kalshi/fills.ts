@@ -0,0 +1,121 @@
+import { OrderBook } from './orderbook';
+
+export type FillSide = 'yes' | 'no';
+export type FillAction = 'buy' | 'sell';
+
+/** An order to price against the book: a contract count or a dollar amount, not both */
+export interface FillRequest {
+  side: FillSide;
+  action: FillAction;
+  contracts?: number;
+  /** Dollars to spend when buying, or to raise when selling */
+  dollars?: number;
+}
+
+export interface FillEstimate {
+  side: FillSide;
+  action: FillAction;
+  /** Contracts the book fills, up to the request */
+  contracts: number;
+  /** The request's size or budget ran out before the book did */
+  complete: boolean;
+  /** Dollars paid when buying, received when selling */
+  notional: number;
+  /** Prices are cents of the traded side (NO prices for `no`) */
+  avg_price?: number;
+  worst_price?: number;
+  levels_consumed: number;
+  mid?: number;
+  /** Cents per contract worse than mid */
+  slippage_cents?: number;
+  /** Dollars worse than filling every contract at mid */
+  cost_vs_mid?: number;
+}
+
+// Same scale as the old top-of-book estimate: walked costs are capped at 50,
+// and 99 is kept for a book with no bids at all
+const MAX_EXIT_CENTS = 50;
+const EMPTY_BOOK_EXIT_CENTS = 99;
+const DEFAULT_EXIT_CLIP_CONTRACTS = 100;
+
+/** Contracts `exitability_cents` prices an exit for (`KALSHI_EXIT_CLIP`) */
+export function getExitClipContracts(): number {
+  const clip = Number(process.env.KALSHI_EXIT_CLIP);
+  return Number.isFinite(clip) && clip >= 1 ? Math.floor(clip) : DEFAULT_EXIT_CLIP_CONTRACTS;
+}
+
+/**
+ * Walk the book for an order, best level first. Kalshi only rests bids:
+ * buying YES lifts NO bids at 100 - p, selling YES hits YES bids at p, and
+ * the same the other way round for NO.
+ */
+export function estimateFill(book: OrderBook, request: FillRequest): FillEstimate {
+  const { side, action } = request;
+  const buying = action === 'buy';
+  const levels = (side === 'yes') === buying ? book.no : book.yes;
+
+  const { bid, ask } = book.view(side);
+  const mid = bid !== undefined && ask !== undefined ? (bid + ask) / 2 : undefined;
+
+  let contractsLeft = request.contracts ?? Infinity;
+  let centsLeft = request.dollars !== undefined ? request.dollars * 100 : Infinity;
+  let contracts = 0;
+  let cents = 0;
+  let worstPrice: number | undefined;
+  let levelsConsumed = 0;
+  let limitReached = false;
+
+  levels.walk((level, quantity) => {
+    const price = buying ? 100 - level : level;
+    // A budget buys whole contracts without going over; a target sells until it is met
+    const affordable = buying ? Math.floor(centsLeft / price) : Math.ceil(centsLeft / price);
+    const take = Math.min(quantity, contractsLeft, affordable);
+    if (take < quantity) limitReached = true;
+    if (take <= 0) return false;
+
+    contracts += take;
+    cents += take * price;
+    contractsLeft -= take;
+    centsLeft -= take * price;
+    worstPrice = price;
+    levelsConsumed++;
+    return contractsLeft > 0 && centsLeft > 0;
+  });
+
+  const estimate: FillEstimate = {
+    side,
+    action,
+    contracts,
+    complete: limitReached || contractsLeft === 0 || centsLeft <= 0,
+    notional: cents / 100,
+    worst_price: worstPrice,
+    levels_consumed: levelsConsumed,
+    mid,
+  };
+  if (contracts > 0) {
+    estimate.avg_price = cents / contracts;
+    if (mid !== undefined) {
+      estimate.slippage_cents = buying ? estimate.avg_price - mid : mid - estimate.avg_price;
+      estimate.cost_vs_mid = (estimate.slippage_cents * contracts) / 100;
+    }
+  }
+  return estimate;
+}
+
+/**
+ * Cents per contract below mid to sell `clip` contracts of YES or of NO,
+ * whichever costs more, capped at 50; 50 when either side cannot take the
+ * whole clip, 99 for an empty book and undefined when there is no book yet.
+ */
+export function computeExitCost(book: OrderBook | undefined, clip: number): number | undefined {
+  if (!book) return undefined;
+  if (book.yes.size === 0 && book.no.size === 0) return EMPTY_BOOK_EXIT_CENTS;
+
+  let worst = 0;
+  for (const side of ['yes', 'no'] as const) {
+    const fill = estimateFill(book, { side, action: 'sell', contracts: clip });
+    if (!fill.complete || fill.slippage_cents === undefined) return MAX_EXIT_CENTS;
+    worst = Math.max(worst, fill.slippage_cents);
+  }
+  return Math.min(worst, MAX_EXIT_CENTS);
+}
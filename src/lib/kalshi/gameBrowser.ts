@@ -0,0 +1,110 @@
+import { fetchEventsForSeries } from './rest';
+import { getLeagues } from './leagues';
+import { parseEventTicker } from './relatedSeries';
+import { EventWithMarkets, GameListing, GamesResponse, LeagueGames } from './types';
+
+const GAMES_CACHE_TTL_MS = 30 * 1000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Route handlers can be bundled separately (notably in dev), so the cache
+// lives on globalThis like the stream hub does.
+const globalForGames = globalThis as unknown as {
+  kalshiGamesCache?: { fetchedAt: number; response: Promise<GamesResponse> };
+};
+
+/** Game ids start with the game date, e.g. `26jan04balpit` → 2026-01-04 */
+function dateFromGameId(gameId: string): string | null {
+  const match = gameId.match(/^(\d{2})([a-z]{3})(\d{2})/);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[2]);
+  if (month === -1) return null;
+  return `20${match[1]}-${String(month + 1).padStart(2, '0')}-${match[3]}`;
+}
+
+function toGameListing({ event, markets }: EventWithMarkets): GameListing {
+  const { gameId } = parseEventTicker(event.event_ticker);
+  const statuses = markets.map((m) => m.status).filter((s): s is string => !!s);
+
+  return {
+    eventTicker: event.event_ticker,
+    title: event.title,
+    subtitle: event.subtitle,
+    gameId,
+    startTime: event.strike_date || dateFromGameId(gameId),
+    marketCount: markets.length,
+    totalVolume: markets.reduce((sum, m) => sum + (m.volume ?? 0), 0),
+    // Markets of one game move together; "active" wins if any market still trades
+    status: statuses.includes('active') ? 'active' : statuses[0] ?? 'open',
+  };
+}
+
+function byStartTime(a: GameListing, b: GameListing): number {
+  if (a.startTime === b.startTime) return a.eventTicker.localeCompare(b.eventTicker);
+  if (!a.startTime) return 1;
+  if (!b.startTime) return -1;
+  return a.startTime.localeCompare(b.startTime);
+}
+
+/**
+ * Open games for every registered league, listed from each league's winner
+ * series (one event per game) and sorted by start time.
+ */
+async function listOpenGames(): Promise<GamesResponse> {
+  const leagues = getLeagues()
+    .map((league) => ({ league, series: league.relatedSeries.find((s) => s.groupType === 'winner') }))
+    .filter((entry) => entry.series !== undefined);
+
+  const results = await Promise.allSettled(
+    leagues.map(({ series }) => fetchEventsForSeries(series!.prefix))
+  );
+
+  const grouped: LeagueGames[] = [];
+  const errors: string[] = [];
+
+  results.forEach((result, i) => {
+    const { league, series } = leagues[i];
+    if (result.status === 'rejected') {
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      errors.push(`${series!.prefix.toUpperCase()}: ${message}`);
+      return;
+    }
+    if (result.value.length === 0) return;
+
+    grouped.push({
+      leagueId: league.id,
+      name: league.name,
+      games: result.value.map(toGameListing).sort(byStartTime),
+    });
+  });
+
+  if (errors.length === leagues.length) {
+    // Every league failed; rethrow one so the route can report its kind
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    throw failed?.reason ?? new Error('Failed to list games');
+  }
+
+  return {
+    leagues: grouped,
+    fetchedAt: new Date().toISOString(),
+    ...(errors.length > 0 && { errors }),
+  };
+}
+
+/** Cached listing; concurrent callers share one in-flight fetch */
+export function getOpenGames(): Promise<GamesResponse> {
+  const cached = globalForGames.kalshiGamesCache;
+  if (cached && Date.now() - cached.fetchedAt < GAMES_CACHE_TTL_MS) {
+    return cached.response;
+  }
+
+  const response = listOpenGames();
+  globalForGames.kalshiGamesCache = { fetchedAt: Date.now(), response };
+  // A failed listing should not be served for the rest of the TTL
+  response.catch(() => {
+    if (globalForGames.kalshiGamesCache?.response === response) {
+      globalForGames.kalshiGamesCache = undefined;
+    }
+  });
+  return response;
+}
@@ -0,0 +1,127 @@
+import { kalshiGet } from './http';
+import { decodeCandlesticks, decodeTrades } from './decode';
+import { parseEventTicker } from './relatedSeries';
+import { TradeRecord, MidRecord, getStatsWindows } from './stats';
+import { KalshiCandlestick, KalshiTrade } from './types';
+
+const TRADE_LIMIT = 1000;
+// One-minute candles; at least enough for the sparklines and the 30s jump lookback
+const MIN_CANDLE_LOOKBACK_MINUTES = 30;
+const CANDLE_PERIOD_MINUTES = 1;
+const HISTORY_CONCURRENCY = 4;
+const HISTORY_TIMEOUT_MS = 4_000;
+// Backfill delays the subscription, so stop starting new fetches after this
+const HISTORY_BUDGET_MS = 6_000;
+
+export interface MarketHistory {
+  marketTicker: string;
+  /** Oldest first */
+  trades: TradeRecord[];
+  /** Candle-close mids, oldest first */
+  mids: MidRecord[];
+}
+
+export interface HistoryMarket {
+  ticker: string;
+  event_ticker: string;
+}
+
+export function isHistoryBackfillEnabled(): boolean {
+  return process.env.KALSHI_HISTORY_BACKFILL !== 'off';
+}
+
+function toTradeRecord(trade: KalshiTrade): TradeRecord | null {
+  const ts = Date.parse(trade.created_time ?? '');
+  if (Number.isNaN(ts) || trade.yes_price === undefined) return null;
+  const takerSide = trade.taker_side?.toLowerCase();
+  return {
+    ts,
+    price: trade.yes_price,
+    count: trade.count ?? 1,
+    side: takerSide === 'yes' ? 'buy' : takerSide === 'no' ? 'sell' : 'unknown',
+  };
+}
+
+/** Mid of the closing quotes, falling back to the last trade when a side had no quote */
+function toMidRecord(candle: KalshiCandlestick, now: number): MidRecord | null {
+  const bid = candle.yes_bid?.close;
+  const ask = candle.yes_ask?.close;
+  const mid = bid !== undefined && ask !== undefined && bid > 0 && ask > 0
+    ? (bid + ask) / 2
+    : candle.price?.close;
+  if (mid === undefined) return null;
+  // The current period ends in the future; it closes "now" as far as we know
+  return { ts: Math.min(candle.end_period_ts * 1000, now), mid };
+}
+
+/** Trades older than the longest stats window are pruned on arrival, so fetch just that */
+function getHistoryLookbackMs(): number {
+  return Math.max(...getStatsWindows().map((w) => w.ms));
+}
+
+async function fetchRecentTrades(marketTicker: string, now: number): Promise<TradeRecord[]> {
+  const minTs = Math.floor((now - getHistoryLookbackMs()) / 1000);
+  const path = `/markets/trades?ticker=${encodeURIComponent(marketTicker)}&min_ts=${minTs}&limit=${TRADE_LIMIT}`;
+  const data = await kalshiGet(path, { timeoutMs: HISTORY_TIMEOUT_MS, maxRetries: 1 }) as { trades?: unknown };
+  return decodeTrades(data.trades)
+    .map(toTradeRecord)
+    .filter((t): t is TradeRecord => t !== null)
+    .sort((a, b) => a.ts - b.ts);
+}
+
+async function fetchRecentMids(market: HistoryMarket, now: number): Promise<MidRecord[]> {
+  const seriesTicker = parseEventTicker(market.event_ticker).seriesPrefix.toUpperCase();
+  const endTs = Math.floor(now / 1000);
+  // One extra candle so the longest window has a mid from before its start
+  const lookbackMinutes = Math.max(MIN_CANDLE_LOOKBACK_MINUTES, Math.ceil(getHistoryLookbackMs() / 60_000) + CANDLE_PERIOD_MINUTES);
+  const startTs = endTs - lookbackMinutes * 60;
+  const path = `/series/${encodeURIComponent(seriesTicker)}/markets/${encodeURIComponent(market.ticker)}/candlesticks`
+    + `?start_ts=${startTs}&end_ts=${endTs}&period_interval=${CANDLE_PERIOD_MINUTES}`;
+  const data = await kalshiGet(path, { timeoutMs: HISTORY_TIMEOUT_MS, maxRetries: 1 }) as { candlesticks?: unknown };
+  return decodeCandlesticks(data.candlesticks)
+    .map((candle) => toMidRecord(candle, now))
+    .filter((m): m is MidRecord => m !== null)
+    .sort((a, b) => a.ts - b.ts);
+}
+
+/** Recent trades and candle mids for one market; either half may be empty if its fetch failed */
+export async function fetchMarketHistory(market: HistoryMarket, now = Date.now()): Promise<MarketHistory> {
+  const [trades, mids] = await Promise.allSettled([
+    fetchRecentTrades(market.ticker, now),
+    fetchRecentMids(market, now),
+  ]);
+  if (trades.status === 'rejected' && mids.status === 'rejected') {
+    throw trades.reason;
+  }
+  return {
+    marketTicker: market.ticker,
+    trades: trades.status === 'fulfilled' ? trades.value : [],
+    mids: mids.status === 'fulfilled' ? mids.value : [],
+  };
+}
+
+/**
+ * History for as many markets as fit in the time budget, keyed by ticker.
+ * Failures are logged and skipped; a market without history just warms up live.
+ */
+export async function backfillHistory(markets: HistoryMarket[]): Promise<Map<string, MarketHistory>> {
+  const deadline = Date.now() + HISTORY_BUDGET_MS;
+  const history = new Map<string, MarketHistory>();
+  let failed = 0;
+  let i = 0;
+
+  for (; i < markets.length && Date.now() < deadline; i += HISTORY_CONCURRENCY) {
+    const batch = markets.slice(i, i + HISTORY_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map((market) => fetchMarketHistory(market)));
+    results.forEach((result) => {
+      if (result.status === 'fulfilled') history.set(result.value.marketTicker, result.value);
+      else failed++;
+    });
+  }
+
+  const skipped = Math.max(0, markets.length - i);
+  if (failed > 0 || skipped > 0) {
+    console.warn(`[History] Backfilled ${history.size}/${markets.length} markets (${failed} failed, ${skipped} over budget)`);
+  }
+  return history;
+}
@@ -0,0 +1,249 @@
+import { getRestBaseUrl } from './types';
+import { generateAuthHeaders, hasAuthCredentials } from './signing';
+
+/**
+ * Shared HTTP layer for Kalshi REST reads: per-attempt timeouts, retries with
+ * backoff on 429/5xx (honoring Retry-After), a client-side token bucket so
+ * a burst of related-event lookups stays under the account's rate tier, and
+ * request signing whenever credentials are configured.
+ */
+export const HTTP_CONFIG = {
+  TIMEOUT_MS: 10_000,
+  MAX_RETRIES: 3,
+  BASE_BACKOFF_MS: 500,
+  MAX_BACKOFF_MS: 8_000,
+  // Longest Retry-After we wait out before giving up on the request
+  MAX_RETRY_AFTER_MS: 30_000,
+} as const;
+
+// Read requests per second by Kalshi API tier
+const RATE_TIERS: Record<string, number> = {
+  basic: 20,
+  advanced: 30,
+  premier: 100,
+  prime: 400,
+};
+
+export type KalshiErrorKind =
+  | 'not_found'
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'server'
+  | 'client'
+  | 'timeout'
+  | 'network'
+  | 'bad_response';
+
+const TRANSIENT_KINDS: KalshiErrorKind[] = ['rate_limited', 'server', 'timeout', 'network', 'bad_response'];
+
+export class KalshiApiError extends Error {
+  readonly kind: KalshiErrorKind;
+  readonly status?: number;
+  readonly path: string;
+  /** Kalshi's clock from the response Date header, for diagnosing signature skew */
+  serverTime?: number;
+
+  constructor(kind: KalshiErrorKind, message: string, path: string, status?: number) {
+    super(message);
+    this.name = 'KalshiApiError';
+    this.kind = kind;
+    this.path = path;
+    this.status = status;
+  }
+
+  /** Worth retrying later: rate limits, server errors, timeouts, network failures and garbled bodies */
+  get transient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+export function isNotFoundError(err: unknown): boolean {
+  return err instanceof KalshiApiError && err.kind === 'not_found';
+}
+
+export function isTransientError(err: unknown): boolean {
+  return err instanceof KalshiApiError && err.transient;
+}
+
+/** HTTP status a route should answer with when a Kalshi call fails */
+export function statusForKalshiError(err: KalshiApiError): number {
+  if (err.kind === 'not_found') return 404;
+  if (err.kind === 'unauthorized') return 401;
+  if (err.transient) return 503;
+  return 502;
+}
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly ratePerSec: number) {
+    this.tokens = ratePerSec;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.ratePerSec, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSec);
+      this.lastRefill = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSec) * 1000));
+    }
+  }
+}
+
+function getRatePerSec(): number {
+  const tier = (process.env.KALSHI_RATE_TIER || 'basic').toLowerCase();
+  return RATE_TIERS[tier] ?? RATE_TIERS.basic;
+}
+
+// One bucket per process: route handlers can be bundled separately, but they
+// all draw on the same Kalshi quota
+const globalForHttp = globalThis as unknown as { kalshiRateBucket?: TokenBucket };
+
+function getBucket(): TokenBucket {
+  return globalForHttp.kalshiRateBucket ?? (globalForHttp.kalshiRateBucket = new TokenBucket(getRatePerSec()));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Retry-After is either delay seconds or an HTTP date */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number): number {
+  const exponential = HTTP_CONFIG.BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.min(HTTP_CONFIG.MAX_BACKOFF_MS, exponential) * (0.5 + Math.random() * 0.5);
+}
+
+function kindForStatus(status: number): KalshiErrorKind {
+  if (status === 404) return 'not_found';
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'client';
+}
+
+/** A 200 whose body is not JSON (truncated, or an HTML error page) is retried like a server error */
+function parseBody(body: string, path: string, status: number): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new KalshiApiError('bad_response', `Kalshi GET ${path} returned a malformed body (${body.length} bytes)`, path, status);
+  }
+}
+
+function parseServerTime(response: Response): number | undefined {
+  const date = Date.parse(response.headers.get('date') ?? '');
+  return Number.isNaN(date) ? undefined : date;
+}
+
+/** One request, body included: the timeout covers a body that stalls after the headers */
+async function attempt(path: string, timeoutMs: number, auth: KalshiAuthMode): Promise<{ response: Response; body: string }> {
+  const fullPath = `/trade-api/v2${path}`;
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+  };
+
+  if (auth !== 'none') {
+    // Kalshi signs the path alone; the query string is not part of the message
+    const authHeaders = hasAuthCredentials() ? generateAuthHeaders('GET', fullPath.split('?')[0]) : null;
+    if (authHeaders) {
+      Object.assign(headers, authHeaders);
+    } else if (auth === 'required') {
+      throw new KalshiApiError('unauthorized', 'Kalshi credentials are missing or could not sign the request', path);
+    }
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(`${getRestBaseUrl()}${fullPath}`, {
+      method: 'GET',
+      headers,
+      signal: controller.signal,
+    });
+    return { response, body: await response.text() };
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new KalshiApiError('timeout', `Kalshi request timed out after ${timeoutMs}ms: ${path}`, path);
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    throw new KalshiApiError('network', `Kalshi request failed: ${path} (${message})`, path);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** 'auto' signs when credentials exist, 'required' fails without them, 'none' never signs */
+export type KalshiAuthMode = 'auto' | 'required' | 'none';
+
+export interface KalshiGetOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+  auth?: KalshiAuthMode;
+}
+
+export interface KalshiResponse {
+  data: unknown;
+  serverTime?: number;
+}
+
+/**
+ * GET `/trade-api/v2{path}` and parse the JSON body, keeping the server's
+ * clock. Throws KalshiApiError; transient failures are retried first.
+ */
+export async function kalshiRequest(path: string, options: KalshiGetOptions = {}): Promise<KalshiResponse> {
+  const timeoutMs = options.timeoutMs ?? HTTP_CONFIG.TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? HTTP_CONFIG.MAX_RETRIES;
+  const auth = options.auth ?? 'auto';
+
+  for (let retry = 0; ; retry++) {
+    await getBucket().take();
+
+    let error: KalshiApiError;
+    let retryAfterMs: number | null = null;
+
+    try {
+      const { response, body } = await attempt(path, timeoutMs, auth);
+      if (response.ok) {
+        return { data: parseBody(body, path, response.status), serverTime: parseServerTime(response) };
+      }
+
+      const kind = kindForStatus(response.status);
+      error = new KalshiApiError(kind, `Kalshi GET ${path} failed: ${response.status}${body ? ` - ${body}` : ''}`, path, response.status);
+      error.serverTime = parseServerTime(response);
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    } catch (err) {
+      if (!(err instanceof KalshiApiError)) throw err;
+      error = err;
+    }
+
+    if (!error.transient || retry >= maxRetries) {
+      throw error;
+    }
+    if (retryAfterMs !== null && retryAfterMs > HTTP_CONFIG.MAX_RETRY_AFTER_MS) {
+      throw error;
+    }
+
+    const delay = retryAfterMs ?? backoffMs(retry);
+    console.warn(`[HTTP] ${error.message}; retry ${retry + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+    await sleep(delay);
+  }
+}
+
+/** GET `/trade-api/v2{path}` and return the parsed JSON body */
+export async function kalshiGet(path: string, options: KalshiGetOptions = {}): Promise<unknown> {
+  return (await kalshiRequest(path, options)).data;
+}
@@ -0,0 +1,305 @@
+import { GroupType } from './types';
+
+/**
+ * Per-league registry: series prefixes, team abbreviations and title aliases.
+ * Everything that used to be NFL/NBA-specific in relatedSeries.ts and
+ * marketParsing.ts is looked up here, so adding a sport is one registerLeague()
+ * call.
+ */
+export interface LeagueConfig {
+  /** Registry id, e.g. 'nhl' */
+  id: string;
+  name: string;
+  /** Prefix shared by the league's series tickers, e.g. 'kxnhl' */
+  groupKey: string;
+  relatedSeries: { prefix: string; groupType: GroupType }[];
+  /** Ticker abbreviation → display name used as the ladder side */
+  teams: Record<string, string>;
+  /** Extra title spellings per display name (e.g. 'Sixers' for '76ers') */
+  aliases?: Record<string, string[]>;
+  /**
+   * Accept abbreviations missing from `teams` (shown as-is). Needed where the
+   * team list is open-ended: college sports, cup competitions, tennis players.
+   */
+  acceptUnknownTeams?: boolean;
+  /** Winner markets include a draw outcome (three-way soccer markets) */
+  threeWay?: boolean;
+}
+
+/** Ticker suffixes used for the draw outcome of three-way markets */
+export const DRAW_CODES = ['TIE', 'DRAW', 'DRW'];
+
+function gameSeries(groupKey: string, spreadAndTotal = true): LeagueConfig['relatedSeries'] {
+  const series: LeagueConfig['relatedSeries'] = [{ prefix: `${groupKey}game`, groupType: 'winner' }];
+  if (spreadAndTotal) {
+    series.push(
+      { prefix: `${groupKey}spread`, groupType: 'spread' },
+      { prefix: `${groupKey}total`, groupType: 'total' },
+    );
+  }
+  return series;
+}
+
+const NFL: LeagueConfig = {
+  id: 'nfl',
+  name: 'NFL',
+  groupKey: 'kxnfl',
+  relatedSeries: gameSeries('kxnfl'),
+  teams: {
+    'ARI': 'Cardinals', 'ATL': 'Falcons', 'BAL': 'Ravens', 'BUF': 'Bills',
+    'CAR': 'Panthers', 'CHI': 'Bears', 'CIN': 'Bengals', 'CLE': 'Browns',
+    'DAL': 'Cowboys', 'DEN': 'Broncos', 'DET': 'Lions', 'GB': 'Packers',
+    'HOU': 'Texans', 'IND': 'Colts', 'JAX': 'Jaguars', 'KC': 'Chiefs',
+    'LAC': 'Chargers', 'LAR': 'Rams', 'LV': 'Raiders', 'MIA': 'Dolphins',
+    'MIN': 'Vikings', 'NE': 'Patriots', 'NO': 'Saints', 'NYG': 'Giants',
+    'NYJ': 'Jets', 'PHI': 'Eagles', 'PIT': 'Steelers', 'SEA': 'Seahawks',
+    'SF': '49ers', 'TB': 'Buccaneers', 'TEN': 'Titans', 'WAS': 'Commanders',
+  },
+  aliases: { '49ers': ['Niners'], 'Buccaneers': ['Bucs'] },
+};
+
+const NBA: LeagueConfig = {
+  id: 'nba',
+  name: 'NBA',
+  groupKey: 'kxnba',
+  relatedSeries: gameSeries('kxnba'),
+  teams: {
+    'ATL': 'Hawks', 'BOS': 'Celtics', 'BKN': 'Nets', 'CHA': 'Hornets',
+    'CHI': 'Bulls', 'CLE': 'Cavaliers', 'DAL': 'Mavericks', 'DEN': 'Nuggets',
+    'DET': 'Pistons', 'GSW': 'Warriors', 'HOU': 'Rockets', 'IND': 'Pacers',
+    'LAC': 'Clippers', 'LAL': 'Lakers', 'MEM': 'Grizzlies', 'MIA': 'Heat',
+    'MIL': 'Bucks', 'MIN': 'Timberwolves', 'NOP': 'Pelicans', 'NYK': 'Knicks',
+    'OKC': 'Thunder', 'ORL': 'Magic', 'PHI': '76ers', 'PHX': 'Suns',
+    'POR': 'Trail Blazers', 'SAC': 'Kings', 'SAS': 'Spurs', 'TOR': 'Raptors',
+    'UTA': 'Jazz', 'WAS': 'Wizards',
+  },
+  aliases: {
+    '76ers': ['Sixers'], 'Mavericks': ['Mavs'], 'Cavaliers': ['Cavs'],
+    'Timberwolves': ['Wolves'], 'Trail Blazers': ['Blazers'],
+  },
+};
+
+/** Spreads are puck lines, usually ±1.5 */
+const NHL: LeagueConfig = {
+  id: 'nhl',
+  name: 'NHL',
+  groupKey: 'kxnhl',
+  relatedSeries: gameSeries('kxnhl'),
+  teams: {
+    'ANA': 'Ducks', 'BOS': 'Bruins', 'BUF': 'Sabres', 'CGY': 'Flames',
+    'CAR': 'Hurricanes', 'CHI': 'Blackhawks', 'COL': 'Avalanche', 'CBJ': 'Blue Jackets',
+    'DAL': 'Stars', 'DET': 'Red Wings', 'EDM': 'Oilers', 'FLA': 'Panthers',
+    'LA': 'Kings', 'LAK': 'Kings', 'MIN': 'Wild', 'MTL': 'Canadiens',
+    'NSH': 'Predators', 'NJ': 'Devils', 'NJD': 'Devils', 'NYI': 'Islanders',
+    'NYR': 'Rangers', 'OTT': 'Senators', 'PHI': 'Flyers', 'PIT': 'Penguins',
+    'SJ': 'Sharks', 'SJS': 'Sharks', 'SEA': 'Kraken', 'STL': 'Blues',
+    'TB': 'Lightning', 'TBL': 'Lightning', 'TOR': 'Maple Leafs', 'UTA': 'Mammoth',
+    'VAN': 'Canucks', 'VGK': 'Golden Knights', 'WSH': 'Capitals', 'WPG': 'Jets',
+  },
+  aliases: { 'Canadiens': ['Habs'], 'Avalanche': ['Avs'], 'Capitals': ['Caps'] },
+};
+
+/** Spreads are run lines, usually ±1.5 */
+const MLB: LeagueConfig = {
+  id: 'mlb',
+  name: 'MLB',
+  groupKey: 'kxmlb',
+  relatedSeries: gameSeries('kxmlb'),
+  teams: {
+    'ARI': 'Diamondbacks', 'AZ': 'Diamondbacks', 'ATL': 'Braves', 'BAL': 'Orioles',
+    'BOS': 'Red Sox', 'CHC': 'Cubs', 'CWS': 'White Sox', 'CHW': 'White Sox',
+    'CIN': 'Reds', 'CLE': 'Guardians', 'COL': 'Rockies', 'DET': 'Tigers',
+    'HOU': 'Astros', 'KC': 'Royals', 'LAA': 'Angels', 'LAD': 'Dodgers',
+    'MIA': 'Marlins', 'MIL': 'Brewers', 'MIN': 'Twins', 'NYM': 'Mets',
+    'NYY': 'Yankees', 'ATH': 'Athletics', 'OAK': 'Athletics', 'PHI': 'Phillies',
+    'PIT': 'Pirates', 'SD': 'Padres', 'SF': 'Giants', 'SEA': 'Mariners',
+    'STL': 'Cardinals', 'TB': 'Rays', 'TEX': 'Rangers', 'TOR': 'Blue Jays',
+    'WSH': 'Nationals', 'WAS': 'Nationals',
+  },
+  aliases: { 'Diamondbacks': ['D-backs', 'Dbacks'], "Athletics": ["A's"] },
+};
+
+const WNBA: LeagueConfig = {
+  id: 'wnba',
+  name: 'WNBA',
+  groupKey: 'kxwnba',
+  relatedSeries: gameSeries('kxwnba'),
+  teams: {
+    'ATL': 'Dream', 'CHI': 'Sky', 'CON': 'Sun', 'DAL': 'Wings',
+    'GSV': 'Valkyries', 'IND': 'Fever', 'LV': 'Aces', 'LA': 'Sparks',
+    'MIN': 'Lynx', 'NY': 'Liberty', 'PHX': 'Mercury', 'SEA': 'Storm',
+    'WAS': 'Mystics',
+  },
+};
+
+/**
+ * College programs are listed by school name (nicknames repeat across
+ * conferences); anything not listed is still accepted by its ticker code.
+ */
+const NCAAF: LeagueConfig = {
+  id: 'ncaaf',
+  name: 'College Football',
+  groupKey: 'kxncaaf',
+  relatedSeries: gameSeries('kxncaaf'),
+  teams: {
+    'ALA': 'Alabama', 'AUB': 'Auburn', 'CLEM': 'Clemson', 'FSU': 'Florida State',
+    'UGA': 'Georgia', 'LSU': 'LSU', 'MIA': 'Miami', 'MICH': 'Michigan',
+    'ND': 'Notre Dame', 'OSU': 'Ohio State', 'OU': 'Oklahoma', 'ORE': 'Oregon',
+    'PSU': 'Penn State', 'TENN': 'Tennessee', 'TEX': 'Texas', 'USC': 'USC',
+  },
+  acceptUnknownTeams: true,
+};
+
+const NCAAB: LeagueConfig = {
+  id: 'ncaab',
+  name: 'College Basketball',
+  groupKey: 'kxncaamb',
+  relatedSeries: gameSeries('kxncaamb'),
+  teams: {
+    'ARIZ': 'Arizona', 'AUB': 'Auburn', 'BAY': 'Baylor', 'DUKE': 'Duke',
+    'GONZ': 'Gonzaga', 'HOU': 'Houston', 'KU': 'Kansas', 'UK': 'Kentucky',
+    'MSU': 'Michigan State', 'UNC': 'North Carolina', 'PUR': 'Purdue', 'TENN': 'Tennessee',
+    'UCLA': 'UCLA', 'CONN': 'UConn', 'UCONN': 'UConn', 'VILL': 'Villanova',
+  },
+  aliases: { 'North Carolina': ['Tar Heels'], 'UConn': ['Connecticut'] },
+  acceptUnknownTeams: true,
+};
+
+/** Soccer winner events are three-way: one market per team plus the draw */
+const EPL: LeagueConfig = {
+  id: 'epl',
+  name: 'Premier League',
+  groupKey: 'kxepl',
+  relatedSeries: gameSeries('kxepl'),
+  teams: {
+    'ARS': 'Arsenal', 'AVL': 'Aston Villa', 'BOU': 'Bournemouth', 'BRE': 'Brentford',
+    'BHA': 'Brighton', 'BUR': 'Burnley', 'CHE': 'Chelsea', 'CRY': 'Crystal Palace',
+    'EVE': 'Everton', 'FUL': 'Fulham', 'LEE': 'Leeds', 'LIV': 'Liverpool',
+    'MCI': 'Man City', 'MUN': 'Man United', 'NEW': 'Newcastle', 'NFO': 'Nottingham Forest',
+    'SUN': 'Sunderland', 'TOT': 'Tottenham', 'WHU': 'West Ham', 'WOL': 'Wolves',
+  },
+  aliases: {
+    'Man City': ['Manchester City'], 'Man United': ['Manchester United', 'Man Utd'],
+    'Tottenham': ['Spurs'], 'Wolves': ['Wolverhampton'], 'Nottingham Forest': ["Nott'm Forest"],
+  },
+  threeWay: true,
+};
+
+const MLS: LeagueConfig = {
+  id: 'mls',
+  name: 'MLS',
+  groupKey: 'kxmls',
+  relatedSeries: gameSeries('kxmls'),
+  teams: {},
+  acceptUnknownTeams: true,
+  threeWay: true,
+};
+
+const UCL: LeagueConfig = {
+  id: 'ucl',
+  name: 'Champions League',
+  groupKey: 'kxucl',
+  relatedSeries: gameSeries('kxucl'),
+  teams: {},
+  acceptUnknownTeams: true,
+  threeWay: true,
+};
+
+/** Tennis only lists match winners; player codes vary by draw */
+const ATP: LeagueConfig = {
+  id: 'atp',
+  name: 'ATP Tennis',
+  groupKey: 'kxatp',
+  relatedSeries: [{ prefix: 'kxatpmatch', groupType: 'winner' }],
+  teams: {},
+  acceptUnknownTeams: true,
+};
+
+const WTA: LeagueConfig = {
+  id: 'wta',
+  name: 'WTA Tennis',
+  groupKey: 'kxwta',
+  relatedSeries: [{ prefix: 'kxwtamatch', groupType: 'winner' }],
+  teams: {},
+  acceptUnknownTeams: true,
+};
+
+// Registration order matters only for the cross-league fallback map: when a
+// ticker's league is unknown, later leagues win abbreviation clashes.
+const leagues: LeagueConfig[] = [NFL, NBA, NHL, MLB, WNBA, NCAAF, NCAAB, EPL, MLS, UCL, ATP, WTA];
+
+/** Add or replace a league (matched by id) */
+export function registerLeague(config: LeagueConfig): void {
+  const index = leagues.findIndex((l) => l.id === config.id);
+  if (index === -1) {
+    leagues.push(config);
+  } else {
+    leagues[index] = config;
+  }
+}
+
+export function getLeagues(): readonly LeagueConfig[] {
+  return leagues;
+}
+
+/** League whose groupKey prefixes the series ticker; longest key wins */
+export function getLeagueForSeries(seriesPrefix: string): LeagueConfig | null {
+  const normalized = seriesPrefix.toLowerCase();
+  let best: LeagueConfig | null = null;
+  for (const league of leagues) {
+    if (normalized.startsWith(league.groupKey) && (!best || league.groupKey.length > best.groupKey.length)) {
+      best = league;
+    }
+  }
+  return best;
+}
+
+/** League for an event or market ticker, e.g. 'KXNHLSPREAD-25OCT19NYRBOS-NYR2' */
+export function getLeagueForTicker(ticker: string): LeagueConfig | null {
+  if (!ticker) return null;
+  return getLeagueForSeries(ticker.split('-')[0]);
+}
+
+/** Every league's abbreviations merged, for tickers whose league is unknown */
+export function getAllTeams(): Record<string, string> {
+  return Object.assign({}, ...leagues.map((l) => l.teams));
+}
+
+export interface TeamTitlePattern {
+  pattern: RegExp;
+  name: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Word-bounded pattern accepting an optional plural, e.g. /\bravens?\b/i */
+function titlePattern(spelling: string): RegExp {
+  const stem = spelling.endsWith('s') ? spelling.slice(0, -1) : spelling;
+  const body = escapeRegExp(stem).replace(/\s+/g, '\\s*');
+  return new RegExp(`(?:^|[^a-z0-9])${body}s?(?![a-z0-9])`, 'i');
+}
+
+const patternCache = new WeakMap<LeagueConfig, TeamTitlePattern[]>();
+
+function leaguePatterns(league: LeagueConfig): TeamTitlePattern[] {
+  let patterns = patternCache.get(league);
+  if (!patterns) {
+    const names = Array.from(new Set(Object.values(league.teams)));
+    patterns = names.flatMap((name) =>
+      [name, ...(league.aliases?.[name] ?? [])].map((spelling) => ({ pattern: titlePattern(spelling), name }))
+    );
+    patternCache.set(league, patterns);
+  }
+  return patterns;
+}
+
+/**
+ * Title patterns for team names: the given league's, or every league's when
+ * the league is unknown.
+ */
+export function getTeamTitlePatterns(league: LeagueConfig | null): TeamTitlePattern[] {
+  if (league) return leaguePatterns(league);
+  return leagues.flatMap(leaguePatterns);
+}
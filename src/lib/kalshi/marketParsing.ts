@@ -1,13 +1,29 @@
 import { GroupType } from './relatedSeries';
 import { LadderKeyComponents, buildLadderKey } from './ladderConfig';
+import { LeagueConfig, DRAW_CODES, getLeagueForTicker, getAllTeams, getTeamTitlePatterns } from './leagues';
+
+/** Where a parsed value came from, most trusted first */
+export type ParseSource = 'strike' | 'ticker' | 'title' | 'unknown';
 
 export interface ParsedMarketInfo {
   line: number | null;
   side: string;
-  /** Confidence in parsing: 'ticker' (from market_ticker), 'title' (from title), 'unknown' */
-  parseSource: 'ticker' | 'title' | 'unknown';
-  /** Team abbreviation extracted from ticker suffix (e.g., 'BAL', 'PIT') */
+  /** Source of the side: 'strike' (structured market fields), 'ticker' (market_ticker suffix), 'title', 'unknown' */
+  parseSource: ParseSource;
+  /** Source of the line, when it differs from the side's */
+  lineSource?: ParseSource;
+  /** Team abbreviation extracted from ticker suffix (e.g., 'BAL', 'PIT'; 'DRAW' for a three-way draw) */
   teamAbbrev?: string;
+  /** Set when strike, ticker and title disagree on the line or side */
+  disagreement?: string;
+}
+
+/** Structured strike fields Kalshi returns with each market */
+export interface MarketStrikeFields {
+  strike_type?: string;
+  floor_strike?: number;
+  cap_strike?: number;
+  yes_sub_title?: string;
 }
 
 export interface LadderParseResult extends ParsedMarketInfo {
@@ -16,36 +32,14 @@ export interface LadderParseResult extends ParsedMarketInfo {
   isParsed: boolean;
 }
 
-/** NFL team abbreviation to full name mapping */
-const NFL_ABBREV_MAP: Record<string, string> = {
-  'ARI': 'Cardinals', 'ATL': 'Falcons', 'BAL': 'Ravens', 'BUF': 'Bills',
-  'CAR': 'Panthers', 'CHI': 'Bears', 'CIN': 'Bengals', 'CLE': 'Browns',
-  'DAL': 'Cowboys', 'DEN': 'Broncos', 'DET': 'Lions', 'GB': 'Packers',
-  'HOU': 'Texans', 'IND': 'Colts', 'JAX': 'Jaguars', 'KC': 'Chiefs',
-  'LAC': 'Chargers', 'LAR': 'Rams', 'LV': 'Raiders', 'MIA': 'Dolphins',
-  'MIN': 'Vikings', 'NE': 'Patriots', 'NO': 'Saints', 'NYG': 'Giants',
-  'NYJ': 'Jets', 'PHI': 'Eagles', 'PIT': 'Steelers', 'SEA': 'Seahawks',
-  'SF': '49ers', 'TB': 'Buccaneers', 'TEN': 'Titans', 'WAS': 'Commanders',
-};
-
-/** NBA team abbreviation to full name mapping */
-const NBA_ABBREV_MAP: Record<string, string> = {
-  'ATL': 'Hawks', 'BOS': 'Celtics', 'BKN': 'Nets', 'CHA': 'Hornets',
-  'CHI': 'Bulls', 'CLE': 'Cavaliers', 'DAL': 'Mavericks', 'DEN': 'Nuggets',
-  'DET': 'Pistons', 'GSW': 'Warriors', 'HOU': 'Rockets', 'IND': 'Pacers',
-  'LAC': 'Clippers', 'LAL': 'Lakers', 'MEM': 'Grizzlies', 'MIA': 'Heat',
-  'MIL': 'Bucks', 'MIN': 'Timberwolves', 'NOP': 'Pelicans', 'NYK': 'Knicks',
-  'OKC': 'Thunder', 'ORL': 'Magic', 'PHI': '76ers', 'PHX': 'Suns',
-  'POR': 'Trail Blazers', 'SAC': 'Kings', 'SAS': 'Spurs', 'TOR': 'Raptors',
-  'UTA': 'Jazz', 'WAS': 'Wizards',
-};
-
-const ALL_ABBREV_MAP: Record<string, string> = { ...NFL_ABBREV_MAP, ...NBA_ABBREV_MAP };
-
 /**
  * Parse market ticker suffix to extract team abbreviation and line
  * Example: "KXNFLSPREAD-26JAN04BALPIT-BAL3" → { teamAbbrev: 'BAL', line: 3 }
  * Example: "KXNFLSPREAD-26JAN04BALPIT-PIT7" → { teamAbbrev: 'PIT', line: 7 }
+ * Example: "KXEPLGAME-25OCT18ARSCHE-TIE" → { teamAbbrev: 'DRAW', line: null }
+ *
+ * Abbreviations are checked against the ticker's league, so CHI is the Bears
+ * in an NFL ticker and the Blackhawks in an NHL one.
  */
 export function parseTickerSuffix(ticker: string): { teamAbbrev: string | null; line: number | null } {
   if (!ticker) return { teamAbbrev: null, line: null };
@@ -58,16 +52,23 @@ export function parseTickerSuffix(ticker: string): { teamAbbrev: string | null;
   // Get last segment (e.g., "BAL3", "PIT7", "O45", "U42")
   const lastPart = parts[parts.length - 1];
   
+  const league = getLeagueForTicker(upperTicker);
+  const teams = league?.teams ?? getAllTeams();
+
+  if (league?.threeWay && DRAW_CODES.includes(lastPart)) {
+    return { teamAbbrev: 'DRAW', line: null };
+  }
+  
   // Try to match team abbreviation + number
-  // Pattern: 2-3 letter team code followed by optional number
-  const match = lastPart.match(/^([A-Z]{2,3})(\d+\.?\d*)?$/);
+  // Pattern: 2-5 letter team code (college codes run to 4-5) followed by optional number
+  const match = lastPart.match(/^([A-Z]{2,5})(\d+\.?\d*)?$/);
   
   if (match) {
     const abbrev = match[1];
     const lineStr = match[2];
     
     // Check if it's a known team abbreviation
-    if (ALL_ABBREV_MAP[abbrev]) {
+    if (teams[abbrev]) {
       return {
         teamAbbrev: abbrev,
         line: lineStr ? parseFloat(lineStr) : null,
@@ -81,6 +82,13 @@ export function parseTickerSuffix(ticker: string): { teamAbbrev: string | null;
     if (abbrev === 'U' || abbrev === 'UN') {
       return { teamAbbrev: 'UNDER', line: lineStr ? parseFloat(lineStr) : null };
     }
+
+    if (league?.acceptUnknownTeams && !/^(OVER|UNDER)$/.test(abbrev)) {
+      return {
+        teamAbbrev: abbrev,
+        line: lineStr ? parseFloat(lineStr) : null,
+      };
+    }
   }
   
   // Try pattern for totals: O45, U42, OVER45, UNDER42
@@ -93,16 +101,31 @@ export function parseTickerSuffix(ticker: string): { teamAbbrev: string | null;
   return { teamAbbrev: null, line: null };
 }
 
-export function parseMarketTitle(title: string, groupType: GroupType): ParsedMarketInfo {
+/** Display name for a ticker abbreviation (falls back to the code itself) */
+function teamName(abbrev: string, league: LeagueConfig | null): string {
+  if (abbrev === 'DRAW') return 'Draw';
+  const teams = league?.teams ?? getAllTeams();
+  return teams[abbrev] || abbrev;
+}
+
+/**
+ * Parse line/side from a market title. Pass the market ticker when known so
+ * team names are matched against that league only.
+ */
+export function parseMarketTitle(title: string, groupType: GroupType, ticker?: string): ParsedMarketInfo {
   if (!title) {
     return { line: null, side: 'Unknown', parseSource: 'unknown' };
   }
 
+  const league = ticker ? getLeagueForTicker(ticker) : null;
+
   try {
     if (groupType === 'total') {
       return parseTotalMarket(title);
     } else if (groupType === 'spread') {
-      return parseSpreadMarket(title);
+      return parseSpreadMarket(title, league);
+    } else if (groupType === 'winner') {
+      return parseWinnerMarket(title, league);
     }
   } catch {
     // Fall through to default
@@ -112,48 +135,149 @@ export function parseMarketTitle(title: string, groupType: GroupType): ParsedMar
 }
 
 /**
- * Full market parsing with ticker suffix priority
- * Returns ladder key components for proper grouping
+ * Line and side from the market's strike fields. Over/under follows the
+ * strike direction; the team comes from the yes subtitle.
  */
-export function parseMarketForLadder(
+export function parseStrikeFields(
+  strike: MarketStrikeFields,
+  groupType: GroupType,
+  ticker?: string
+): ParsedMarketInfo {
+  const { strike_type: strikeType, floor_strike: floor, cap_strike: cap, yes_sub_title: yesSubTitle } = strike;
+  const league = ticker ? getLeagueForTicker(ticker) : null;
+  const isLess = strikeType === 'less' || strikeType === 'less_or_equal';
+
+  let line: number | null = null;
+  if (isLess) {
+    line = cap ?? null;
+  } else if (strikeType === 'greater' || strikeType === 'greater_or_equal' || strikeType === 'between') {
+    line = floor ?? null;
+  } else {
+    line = floor ?? cap ?? null;
+  }
+
+  let side = 'Unknown';
+  if (groupType === 'total' && line !== null && strikeType) {
+    side = isLess ? 'Under' : 'Over';
+  } else if ((groupType === 'spread' || groupType === 'winner') && yesSubTitle) {
+    if (league?.threeWay && /\b(tie|draw|drawn)\b/i.test(yesSubTitle)) {
+      side = 'Draw';
+    } else {
+      side = matchTeamInTitle(yesSubTitle, league) ?? 'Unknown';
+    }
+  }
+
+  return {
+    line,
+    side,
+    parseSource: side !== 'Unknown' ? 'strike' : 'unknown',
+    lineSource: line !== null ? 'strike' : 'unknown',
+  };
+}
+
+function linesAgree(a: { source: ParseSource; line: number }, b: { source: ParseSource; line: number }): boolean {
+  if (Math.abs(a.line - b.line) < 0.01) return true;
+  // Ticker suffixes round half-point lines to a whole number (NYR2 is the 1.5 puck line)
+  const ticker = a.source === 'ticker' ? a : b.source === 'ticker' ? b : null;
+  const other = ticker === a ? b : a;
+  return ticker !== null && Number.isInteger(ticker.line) && Math.abs(Math.abs(ticker.line - other.line) - 0.5) < 0.01;
+}
+
+/** Describe conflicts between the sources that produced a value, or undefined when they agree */
+function findDisagreement(
+  lines: { source: ParseSource; line: number | null }[],
+  sides: { source: ParseSource; side: string }[]
+): string | undefined {
+  const conflicts: string[] = [];
+
+  const knownLines = lines.filter((l): l is { source: ParseSource; line: number } => l.line !== null);
+  for (let i = 1; i < knownLines.length; i++) {
+    if (!linesAgree(knownLines[0], knownLines[i])) {
+      conflicts.push(`line ${knownLines[0].source}=${knownLines[0].line} ${knownLines[i].source}=${knownLines[i].line}`);
+    }
+  }
+
+  const knownSides = sides.filter((s) => s.side !== 'Unknown');
+  for (let i = 1; i < knownSides.length; i++) {
+    if (knownSides[0].side.toLowerCase() !== knownSides[i].side.toLowerCase()) {
+      conflicts.push(`side ${knownSides[0].source}=${knownSides[0].side} ${knownSides[i].source}=${knownSides[i].side}`);
+    }
+  }
+
+  return conflicts.length > 0 ? conflicts.join('; ') : undefined;
+}
+
+/**
+ * Line and side for one market, taking each from the most trusted source that
+ * has it: strike fields, then the ticker suffix, then the title.
+ */
+export function parseMarket(
   ticker: string,
   title: string,
   groupType: GroupType,
-  gameId: string
-): LadderParseResult {
-  // First try to parse from ticker suffix
+  strike?: MarketStrikeFields
+): ParsedMarketInfo {
+  const strikeParsed = strike ? parseStrikeFields(strike, groupType, ticker) : null;
   const tickerParsed = parseTickerSuffix(ticker);
-  
-  // Then parse from title as fallback
-  const titleParsed = parseMarketTitle(title, groupType);
-  
-  // Determine best source
-  let side = 'Unknown';
-  let line: number | null = null;
-  let parseSource: 'ticker' | 'title' | 'unknown' = 'unknown';
-  let teamAbbrev: string | undefined;
-  
-  // Prefer ticker-derived values
+  const titleParsed = parseMarketTitle(title, groupType, ticker);
+  const league = getLeagueForTicker(ticker);
+
+  let tickerSide = 'Unknown';
   if (tickerParsed.teamAbbrev) {
-    teamAbbrev = tickerParsed.teamAbbrev;
     // Convert abbreviation to full name for spreads, keep as-is for totals
-    if (groupType === 'spread') {
-      side = ALL_ABBREV_MAP[tickerParsed.teamAbbrev] || tickerParsed.teamAbbrev;
+    if (groupType === 'spread' || groupType === 'winner') {
+      tickerSide = teamName(tickerParsed.teamAbbrev, league);
     } else if (groupType === 'total') {
-      side = tickerParsed.teamAbbrev === 'OVER' ? 'Over' : 
-             tickerParsed.teamAbbrev === 'UNDER' ? 'Under' : tickerParsed.teamAbbrev;
+      tickerSide = tickerParsed.teamAbbrev === 'OVER' ? 'Over' :
+                   tickerParsed.teamAbbrev === 'UNDER' ? 'Under' : tickerParsed.teamAbbrev;
     }
-    parseSource = 'ticker';
-  }
-  
-  // Use ticker line if available, otherwise title line
-  line = tickerParsed.line ?? titleParsed.line;
-  
-  // Fallback to title-parsed side if ticker didn't provide one
-  if (side === 'Unknown' && titleParsed.side !== 'Unknown') {
-    side = titleParsed.side;
-    parseSource = parseSource === 'unknown' ? 'title' : parseSource;
   }
+
+  const lineCandidates: { source: ParseSource; line: number | null }[] = [
+    { source: 'strike', line: strikeParsed?.line ?? null },
+    { source: 'ticker', line: tickerParsed.line },
+    { source: 'title', line: titleParsed.line },
+  ];
+  const sideCandidates: { source: ParseSource; side: string }[] = [
+    { source: 'strike', side: strikeParsed?.side ?? 'Unknown' },
+    { source: 'ticker', side: tickerSide },
+    { source: 'title', side: titleParsed.side },
+  ];
+
+  const lineChoice = lineCandidates.find((c) => c.line !== null);
+  const sideChoice = sideCandidates.find((c) => c.side !== 'Unknown');
+  const parseSource = sideChoice?.source ?? 'unknown';
+  const lineSource = lineChoice?.source ?? 'unknown';
+
+  // Ticker codes for schools missing from the registry are not names, so they
+  // cannot be compared with the title
+  const comparableSides = tickerParsed.teamAbbrev && league?.acceptUnknownTeams && !league.teams[tickerParsed.teamAbbrev]
+    ? sideCandidates.filter((c) => c.source !== 'ticker')
+    : sideCandidates;
+
+  return {
+    line: lineChoice?.line ?? null,
+    side: sideChoice?.side ?? 'Unknown',
+    parseSource,
+    ...(lineSource !== parseSource && { lineSource }),
+    teamAbbrev: tickerParsed.teamAbbrev ?? undefined,
+    disagreement: findDisagreement(lineCandidates, comparableSides),
+  };
+}
+
+/**
+ * Full market parsing (strike fields, then ticker suffix, then title)
+ * Returns ladder key components for proper grouping
+ */
+export function parseMarketForLadder(
+  ticker: string,
+  title: string,
+  groupType: GroupType,
+  gameId: string,
+  strike?: MarketStrikeFields
+): LadderParseResult {
+  const parsed = parseMarket(ticker, title, groupType, strike);
+  const { side } = parsed;
   
   // Build ladder key if we have valid side
   const isParsed = side !== 'Unknown';
@@ -175,10 +299,7 @@ export function parseMarketForLadder(
   }
   
   return {
-    line,
-    side,
-    parseSource,
-    teamAbbrev,
+    ...parsed,
     ladderKey,
     ladderComponents,
     isParsed,
@@ -200,12 +321,36 @@ function parseTotalMarket(title: string): ParsedMarketInfo {
   return { line, side, parseSource: 'title' };
 }
 
-function parseSpreadMarket(title: string): ParsedMarketInfo {
-  // Look for "wins by" pattern to find the line
-  // Examples: "Ravens win by over 3.5", "wins by over 7 points"
+/**
+ * Team named earliest in the title. Patterns are word-bounded, so "Nets" no
+ * longer matches inside "Hornets".
+ */
+function matchTeamInTitle(title: string, league: LeagueConfig | null): string | null {
+  let best: { index: number; name: string } | null = null;
+  for (const { pattern, name } of getTeamTitlePatterns(league)) {
+    const match = pattern.exec(title);
+    if (match && (!best || match.index < best.index)) {
+      best = { index: match.index, name };
+    }
+  }
+  return best?.name ?? null;
+}
+
+/** Three-way soccer winners include a draw market alongside each team */
+function parseWinnerMarket(title: string, league: LeagueConfig | null): ParsedMarketInfo {
+  if (league?.threeWay && /\b(tie|draw|drawn)\b/i.test(title)) {
+    return { line: null, side: 'Draw', parseSource: 'title' };
+  }
+  const team = matchTeamInTitle(title, league);
+  return { line: null, side: team ?? 'Unknown', parseSource: team ? 'title' : 'unknown' };
+}
+
+function parseSpreadMarket(title: string, league: LeagueConfig | null): ParsedMarketInfo {
+  // Look for "wins by" pattern to find the line (puck and run lines are worded the same)
+  // Examples: "Ravens win by over 3.5", "wins by over 7 points", "Rangers win by more than 1.5 goals"
   let line: number | null = null;
   
-  const winsMatch = title.match(/wins?\s+by\s+(?:over\s+)?(\d+\.?\d*)/i);
+  const winsMatch = title.match(/wins?\s+by\s+(?:over\s+|more\s+than\s+)?(\d+\.?\d*)/i);
   if (winsMatch) {
     line = parseFloat(winsMatch[1]);
   } else {
@@ -214,83 +359,9 @@ function parseSpreadMarket(title: string): ParsedMarketInfo {
     line = spreadMatch ? parseFloat(spreadMatch[1]) : null;
   }
 
-  let side = 'Unknown';
+  let side = matchTeamInTitle(title, league) ?? 'Unknown';
   
   const lowerTitle = title.toLowerCase();
-  
-  const teamPatterns = [
-    // NFL teams
-    { pattern: /ravens?/i, name: 'Ravens' },
-    { pattern: /steelers?/i, name: 'Steelers' },
-    { pattern: /chiefs?/i, name: 'Chiefs' },
-    { pattern: /bills?/i, name: 'Bills' },
-    { pattern: /eagles?/i, name: 'Eagles' },
-    { pattern: /cowboys?/i, name: 'Cowboys' },
-    { pattern: /49ers?|niners?/i, name: '49ers' },
-    { pattern: /packers?/i, name: 'Packers' },
-    { pattern: /lions?/i, name: 'Lions' },
-    { pattern: /vikings?/i, name: 'Vikings' },
-    { pattern: /bears?/i, name: 'Bears' },
-    { pattern: /dolphins?/i, name: 'Dolphins' },
-    { pattern: /jets?/i, name: 'Jets' },
-    { pattern: /patriots?/i, name: 'Patriots' },
-    { pattern: /bengals?/i, name: 'Bengals' },
-    { pattern: /browns?/i, name: 'Browns' },
-    { pattern: /texans?/i, name: 'Texans' },
-    { pattern: /colts?/i, name: 'Colts' },
-    { pattern: /jaguars?/i, name: 'Jaguars' },
-    { pattern: /titans?/i, name: 'Titans' },
-    { pattern: /broncos?/i, name: 'Broncos' },
-    { pattern: /raiders?/i, name: 'Raiders' },
-    { pattern: /chargers?/i, name: 'Chargers' },
-    { pattern: /commanders?/i, name: 'Commanders' },
-    { pattern: /giants?/i, name: 'Giants' },
-    { pattern: /cardinals?/i, name: 'Cardinals' },
-    { pattern: /rams?/i, name: 'Rams' },
-    { pattern: /seahawks?/i, name: 'Seahawks' },
-    { pattern: /buccaneers?|bucs?/i, name: 'Buccaneers' },
-    { pattern: /falcons?/i, name: 'Falcons' },
-    { pattern: /panthers?/i, name: 'Panthers' },
-    { pattern: /saints?/i, name: 'Saints' },
-    // NBA teams (for future)
-    { pattern: /lakers?/i, name: 'Lakers' },
-    { pattern: /celtics?/i, name: 'Celtics' },
-    { pattern: /warriors?/i, name: 'Warriors' },
-    { pattern: /bucks?/i, name: 'Bucks' },
-    { pattern: /heat/i, name: 'Heat' },
-    { pattern: /nuggets?/i, name: 'Nuggets' },
-    { pattern: /suns?/i, name: 'Suns' },
-    { pattern: /76ers?|sixers?/i, name: '76ers' },
-    { pattern: /nets?/i, name: 'Nets' },
-    { pattern: /knicks?/i, name: 'Knicks' },
-    { pattern: /clippers?/i, name: 'Clippers' },
-    { pattern: /mavericks?|mavs?/i, name: 'Mavericks' },
-    { pattern: /grizzlies?/i, name: 'Grizzlies' },
-    { pattern: /pelicans?/i, name: 'Pelicans' },
-    { pattern: /timberwolves?|wolves?/i, name: 'Timberwolves' },
-    { pattern: /thunder/i, name: 'Thunder' },
-    { pattern: /trail ?blazers?|blazers?/i, name: 'Trail Blazers' },
-    { pattern: /kings?/i, name: 'Kings' },
-    { pattern: /spurs?/i, name: 'Spurs' },
-    { pattern: /jazz/i, name: 'Jazz' },
-    { pattern: /rockets?/i, name: 'Rockets' },
-    { pattern: /pistons?/i, name: 'Pistons' },
-    { pattern: /pacers?/i, name: 'Pacers' },
-    { pattern: /cavaliers?|cavs?/i, name: 'Cavaliers' },
-    { pattern: /bulls?/i, name: 'Bulls' },
-    { pattern: /hawks?/i, name: 'Hawks' },
-    { pattern: /hornets?/i, name: 'Hornets' },
-    { pattern: /magic/i, name: 'Magic' },
-    { pattern: /wizards?/i, name: 'Wizards' },
-    { pattern: /raptors?/i, name: 'Raptors' },
-  ];
-
-  for (const { pattern, name } of teamPatterns) {
-    if (pattern.test(title)) {
-      side = name;
-      break;
-    }
-  }
 
   if (side === 'Unknown') {
     if (lowerTitle.includes('home')) {
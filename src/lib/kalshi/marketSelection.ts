@@ -0,0 +1,177 @@
+import { KalshiMarket, ExcludedMarket, GroupType } from './types';
+
+/**
+ * Market selection weights and quotas. When a game has more markets than the
+ * per-game budget, each market is scored within its group and the budget is
+ * split between groups so one deep alt-line ladder cannot crowd out the rest.
+ */
+export const MARKET_SELECTION_CONFIG = {
+  // Share of the budget reserved for each group; unused share flows to whichever
+  // remaining markets score highest
+  GROUP_QUOTAS: {
+    winner: 0.1,
+    spread: 0.45,
+    total: 0.45,
+    other: 0,
+  } as Record<GroupType, number>,
+  // Score weights; each component is normalized to 0..1 within the group
+  VOLUME_WEIGHT: 0.4,
+  OPEN_INTEREST_WEIGHT: 0.2,
+  // Closeness of the line to the ladder center (the line priced nearest 50¢)
+  CENTER_WEIGHT: 0.4,
+} as const;
+
+export interface MarketSelection<T extends KalshiMarket> {
+  /** Chosen markets, in their original order */
+  selected: T[];
+  excluded: ExcludedMarket[];
+}
+
+interface ScoredMarket<T> {
+  market: T;
+  index: number;
+  group: GroupType;
+  score: number;
+  rank: number;
+}
+
+function marketTicker(market: KalshiMarket): string {
+  return market.ticker || market.market_ticker || '';
+}
+
+function marketPrice(market: KalshiMarket): number | undefined {
+  if (market.yes_bid && market.yes_ask) return (market.yes_bid + market.yes_ask) / 2;
+  return market.last_price || undefined;
+}
+
+/** Normalize on a log scale so one huge market does not flatten the rest */
+function logNormalizer(values: number[]): (value: number) => number {
+  const max = Math.max(0, ...values.map(v => Math.log1p(v)));
+  return (value) => (max > 0 ? Math.log1p(value) / max : 0);
+}
+
+/**
+ * 1 at the ladder center, falling to 0 at the furthest line. The center is the
+ * line priced closest to 50¢, or the median line when nothing is priced.
+ */
+function centerScores(markets: KalshiMarket[]): Map<KalshiMarket, number> {
+  const scores = new Map<KalshiMarket, number>();
+  const bySide = new Map<string, KalshiMarket[]>();
+
+  for (const market of markets) {
+    if (market.line === null || market.line === undefined) {
+      scores.set(market, 0);
+      continue;
+    }
+    const side = market.side || 'Unknown';
+    bySide.set(side, [...(bySide.get(side) ?? []), market]);
+  }
+
+  for (const ladder of bySide.values()) {
+    const lines = ladder.map(m => m.line as number).sort((a, b) => a - b);
+    let center = lines[Math.floor(lines.length / 2)];
+    let bestDistance = Infinity;
+
+    for (const market of ladder) {
+      const price = marketPrice(market);
+      if (price === undefined) continue;
+      const distance = Math.abs(price - 50);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        center = market.line as number;
+      }
+    }
+
+    const maxDistance = Math.max(...lines.map(line => Math.abs(line - center)));
+    for (const market of ladder) {
+      const distance = Math.abs((market.line as number) - center);
+      scores.set(market, maxDistance > 0 ? 1 - distance / maxDistance : 1);
+    }
+  }
+
+  return scores;
+}
+
+function scoreGroup<T extends KalshiMarket>(
+  entries: { market: T; index: number }[],
+  group: GroupType
+): ScoredMarket<T>[] {
+  const { VOLUME_WEIGHT, OPEN_INTEREST_WEIGHT, CENTER_WEIGHT } = MARKET_SELECTION_CONFIG;
+  const volumeOf = (m: KalshiMarket) => m.volume ?? m.volume_24h ?? 0;
+  const normVolume = logNormalizer(entries.map(e => volumeOf(e.market)));
+  const normOpenInterest = logNormalizer(entries.map(e => e.market.open_interest ?? 0));
+  const hasLadder = group === 'spread' || group === 'total';
+  const centers = hasLadder ? centerScores(entries.map(e => e.market)) : null;
+
+  const scored = entries.map(({ market, index }) => {
+    let weighted = VOLUME_WEIGHT * normVolume(volumeOf(market))
+      + OPEN_INTEREST_WEIGHT * normOpenInterest(market.open_interest ?? 0);
+    let totalWeight = VOLUME_WEIGHT + OPEN_INTEREST_WEIGHT;
+    if (centers) {
+      weighted += CENTER_WEIGHT * (centers.get(market) ?? 0);
+      totalWeight += CENTER_WEIGHT;
+    }
+    return { market, index, group, score: weighted / totalWeight, rank: 0 };
+  });
+
+  scored.sort((a, b) => b.score - a.score || a.index - b.index);
+  scored.forEach((entry, i) => { entry.rank = i + 1; });
+  return scored;
+}
+
+/**
+ * Pick at most `budget` markets: each group first fills its quota with its
+ * best-scoring markets, then any unused budget goes to the best of the rest.
+ */
+export function selectMarkets<T extends KalshiMarket>(markets: T[], budget: number): MarketSelection<T> {
+  if (markets.length <= budget) {
+    return { selected: [...markets], excluded: [] };
+  }
+
+  const byGroup = new Map<GroupType, { market: T; index: number }[]>();
+  markets.forEach((market, index) => {
+    const group = market.group_type ?? 'other';
+    byGroup.set(group, [...(byGroup.get(group) ?? []), { market, index }]);
+  });
+
+  const chosen = new Set<number>();
+  const leftovers: ScoredMarket<T>[] = [];
+  const quotaByGroup = new Map<GroupType, number>();
+
+  for (const [group, entries] of byGroup) {
+    const quota = Math.floor(budget * (MARKET_SELECTION_CONFIG.GROUP_QUOTAS[group] ?? 0));
+    quotaByGroup.set(group, quota);
+    const scored = scoreGroup(entries, group);
+    for (const entry of scored) {
+      if (chosen.size < budget && entry.rank <= quota) {
+        chosen.add(entry.index);
+      } else {
+        leftovers.push(entry);
+      }
+    }
+  }
+
+  leftovers.sort((a, b) => b.score - a.score || a.index - b.index);
+  const excluded: ExcludedMarket[] = [];
+  for (const entry of leftovers) {
+    if (chosen.size < budget) {
+      chosen.add(entry.index);
+      continue;
+    }
+    excluded.push({
+      ticker: marketTicker(entry.market),
+      group_type: entry.group,
+      reason: 'group_quota',
+      rank: entry.rank,
+      score: Math.round(entry.score * 1000) / 1000,
+      quota: quotaByGroup.get(entry.group) ?? 0,
+    });
+  }
+
+  return {
+    selected: markets.filter((_, index) => chosen.has(index)),
+    excluded: excluded.sort((a, b) =>
+      (a.group_type ?? '').localeCompare(b.group_type ?? '') || a.rank - b.rank
+    ),
+  };
+}
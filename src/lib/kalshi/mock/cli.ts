@@ -0,0 +1,49 @@
+import { parseArgs } from 'util';
+import { startMockKalshi } from './server';
+import { MOCK_SCENARIOS, isMockScenarioName } from './scenarios';
+
+const DEFAULT_PORT = 4010;
+
+/**
+ * `npm run mock -- --scenario ladder_violation --port 4010 --tick-ms 500`
+ * Run the dashboard against it with KALSHI_ENV=mock.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      scenario: { type: 'string', default: process.env.KALSHI_MOCK_SCENARIO || 'normal' },
+      port: { type: 'string', default: String(DEFAULT_PORT) },
+      'tick-ms': { type: 'string' },
+      seed: { type: 'string' },
+    },
+  });
+
+  const scenario = values.scenario!;
+  if (!isMockScenarioName(scenario)) {
+    console.error(`Unknown scenario "${scenario}". Scenarios:`);
+    for (const s of Object.values(MOCK_SCENARIOS)) console.error(`  ${s.name.padEnd(18)}${s.description}`);
+    process.exit(1);
+  }
+
+  const server = await startMockKalshi({
+    port: Number(values.port),
+    scenario,
+    tickMs: values['tick-ms'] ? Number(values['tick-ms']) : undefined,
+    seed: values.seed ? Number(values.seed) : undefined,
+  });
+
+  console.log(`[Mock] Kalshi mock listening on ${server.url} (scenario: ${scenario})`);
+  console.log(`[Mock] ${server.scenario.description}`);
+  console.log(`[Mock] Start the dashboard with KALSHI_ENV=mock KALSHI_MOCK_URL=${server.url}`);
+
+  const shutdown = () => {
+    server.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((err) => {
+  console.error('[Mock] Failed to start:', err);
+  process.exit(1);
+});
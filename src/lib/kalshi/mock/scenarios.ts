@@ -0,0 +1,139 @@
+/**
+ * The game the mock server lists and the scripted scenarios it can play.
+ * Prices are in cents; `depth` is the contracts resting at the best level.
+ */
+
+export interface MockMarket {
+  ticker: string;
+  title: string;
+  yes_sub_title: string;
+  floor_strike?: number;
+  bid: number;
+  ask: number;
+  depth: number;
+  volume: number;
+  open_interest: number;
+}
+
+export interface MockEvent {
+  event_ticker: string;
+  series_ticker: string;
+  series_title: string;
+  title: string;
+  sub_title: string;
+  markets: MockMarket[];
+}
+
+export type MockScenarioName = 'normal' | 'ladder_violation' | 'crossed_book' | 'seq_gap' | 'disconnect' | 'auth_rejection';
+
+/**
+ * Something a scenario does once a socket has been open for `atTick` ticks.
+ * `quote` moves a market's best bid and ask (the book is re-quoted through
+ * deltas, so every subscriber sees it); `seq_gap` skips a seq on that socket's
+ * book subscription for `ticker`, as if a delta were lost; `disconnect` drops
+ * that socket.
+ */
+export type MockScenarioStep =
+  | { atTick: number; kind: 'quote'; ticker: string; bid: number; ask: number }
+  | { atTick: number; kind: 'seq_gap'; ticker: string }
+  | { atTick: number; kind: 'disconnect' };
+
+export interface MockScenario {
+  name: MockScenarioName;
+  description: string;
+  steps: MockScenarioStep[];
+  /** Refuse WebSocket upgrades and authenticated REST calls with 401 */
+  rejectAuth?: boolean;
+}
+
+const GAME = 'BALPIT';
+const GAME_ID = `26JAN04${GAME}`;
+const GAME_TITLE = 'Baltimore at Pittsburgh';
+
+function market(event: string, suffix: string, fields: Omit<MockMarket, 'ticker' | 'volume' | 'open_interest'>): MockMarket {
+  return { ticker: `${event}-${suffix}`, volume: 12_000, open_interest: 8_000, ...fields };
+}
+
+const WINNER_EVENT = `KXNFLGAME-${GAME_ID}`;
+const SPREAD_EVENT = `KXNFLSPREAD-${GAME_ID}`;
+const TOTAL_EVENT = `KXNFLTOTAL-${GAME_ID}`;
+
+/** One NFL game with a winner, spread and total event; every ladder is monotonic */
+export const MOCK_EVENTS: MockEvent[] = [
+  {
+    event_ticker: WINNER_EVENT,
+    series_ticker: 'KXNFLGAME',
+    series_title: 'Pro Football Game',
+    title: `${GAME_TITLE} Winner?`,
+    sub_title: 'BAL at PIT (Jan 4)',
+    markets: [
+      market(WINNER_EVENT, 'BAL', { title: `${GAME_TITLE} Winner?`, yes_sub_title: 'Baltimore', bid: 55, ask: 57, depth: 5_000 }),
+      market(WINNER_EVENT, 'PIT', { title: `${GAME_TITLE} Winner?`, yes_sub_title: 'Pittsburgh', bid: 43, ask: 45, depth: 5_000 }),
+    ],
+  },
+  {
+    event_ticker: SPREAD_EVENT,
+    series_ticker: 'KXNFLSPREAD',
+    series_title: 'Pro Football Spread',
+    title: `${GAME_TITLE}: Spread`,
+    sub_title: 'BAL at PIT (Jan 4)',
+    markets: [
+      market(SPREAD_EVENT, 'BAL3', { title: 'Baltimore wins by over 2.5 points?', yes_sub_title: 'Baltimore wins by over 2.5 Points', floor_strike: 2.5, bid: 44, ask: 46, depth: 3_000 }),
+      market(SPREAD_EVENT, 'BAL7', { title: 'Baltimore wins by over 6.5 points?', yes_sub_title: 'Baltimore wins by over 6.5 Points', floor_strike: 6.5, bid: 30, ask: 32, depth: 3_000 }),
+      market(SPREAD_EVENT, 'BAL10', { title: 'Baltimore wins by over 9.5 points?', yes_sub_title: 'Baltimore wins by over 9.5 Points', floor_strike: 9.5, bid: 18, ask: 20, depth: 3_000 }),
+      market(SPREAD_EVENT, 'PIT3', { title: 'Pittsburgh wins by over 2.5 points?', yes_sub_title: 'Pittsburgh wins by over 2.5 Points', floor_strike: 2.5, bid: 30, ask: 32, depth: 3_000 }),
+      market(SPREAD_EVENT, 'PIT7', { title: 'Pittsburgh wins by over 6.5 points?', yes_sub_title: 'Pittsburgh wins by over 6.5 Points', floor_strike: 6.5, bid: 16, ask: 18, depth: 3_000 }),
+    ],
+  },
+  {
+    event_ticker: TOTAL_EVENT,
+    series_ticker: 'KXNFLTOTAL',
+    series_title: 'Pro Football Total Points',
+    title: `${GAME_TITLE}: Total Points`,
+    sub_title: 'BAL at PIT (Jan 4)',
+    markets: [
+      market(TOTAL_EVENT, 'O38', { title: 'Over 37.5 points scored?', yes_sub_title: 'Over 37.5 points scored', floor_strike: 37.5, bid: 70, ask: 72, depth: 3_000 }),
+      market(TOTAL_EVENT, 'O41', { title: 'Over 40.5 points scored?', yes_sub_title: 'Over 40.5 points scored', floor_strike: 40.5, bid: 55, ask: 57, depth: 3_000 }),
+      market(TOTAL_EVENT, 'O45', { title: 'Over 44.5 points scored?', yes_sub_title: 'Over 44.5 points scored', floor_strike: 44.5, bid: 38, ask: 40, depth: 3_000 }),
+      market(TOTAL_EVENT, 'O48', { title: 'Over 47.5 points scored?', yes_sub_title: 'Over 47.5 points scored', floor_strike: 47.5, bid: 24, ask: 26, depth: 3_000 }),
+    ],
+  },
+];
+
+export const MOCK_SCENARIOS: Record<MockScenarioName, MockScenario> = {
+  normal: {
+    name: 'normal',
+    description: 'Clean ladders; books churn and trades print every tick',
+    steps: [],
+  },
+  ladder_violation: {
+    name: 'ladder_violation',
+    description: 'Baltimore over 6.5 is lifted above over 2.5 after three ticks and stays there',
+    steps: [{ atTick: 3, kind: 'quote', ticker: `${SPREAD_EVENT}-BAL7`, bid: 56, ask: 58 }],
+  },
+  crossed_book: {
+    name: 'crossed_book',
+    description: 'The Baltimore winner book crosses (bid 60 over ask 57) after three ticks',
+    steps: [{ atTick: 3, kind: 'quote', ticker: `${WINNER_EVENT}-BAL`, bid: 60, ask: 57 }],
+  },
+  seq_gap: {
+    name: 'seq_gap',
+    description: 'One Baltimore winner book delta is lost after three ticks, so its seq jumps by two',
+    steps: [{ atTick: 3, kind: 'seq_gap', ticker: `${WINNER_EVENT}-BAL` }],
+  },
+  disconnect: {
+    name: 'disconnect',
+    description: 'Every socket is dropped without a close frame ten ticks after it opens',
+    steps: [{ atTick: 10, kind: 'disconnect' }],
+  },
+  auth_rejection: {
+    name: 'auth_rejection',
+    description: 'WebSocket upgrades and /portfolio calls are refused with 401; public REST still works',
+    steps: [],
+    rejectAuth: true,
+  },
+};
+
+export function isMockScenarioName(name: string): name is MockScenarioName {
+  return Object.prototype.hasOwnProperty.call(MOCK_SCENARIOS, name);
+}
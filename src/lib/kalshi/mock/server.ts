@@ -0,0 +1,546 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { MOCK_EVENTS, MOCK_SCENARIOS, MockEvent, MockMarket, MockScenario, MockScenarioName } from './scenarios';
+import {
+  KalshiWSMessage,
+  OrderbookSnapshotMessage,
+  OrderbookDeltaMessage,
+  TickerMessage,
+  TradeMessage,
+} from '../types';
+
+const REST_PREFIX = '/trade-api/v2';
+const WS_PATH = '/trade-api/ws/v2';
+const DEFAULT_TICK_MS = 1_000;
+const BOOK_LEVELS = 3;
+const CHANNELS = ['orderbook_delta', 'ticker', 'trade'];
+const MAX_TRADES_PER_MARKET = 500;
+const MAX_CANDLES = 1_000;
+// Markets open a week before the game and close a week after it
+const OPEN_TIME = '2025-12-28T18:00:00Z';
+const CLOSE_TIME = '2026-01-11T18:00:00Z';
+const EXPECTED_EXPIRATION_TIME = '2026-01-05T02:00:00Z';
+
+export interface MockKalshiOptions {
+  /** 0 picks a free port */
+  port?: number;
+  host?: string;
+  scenario?: MockScenarioName;
+  /** Interval between scripted steps, book churn and trades */
+  tickMs?: number;
+  /** Seed for the churn and trade generator; the same seed replays the same session */
+  seed?: number;
+}
+
+export interface MockKalshiServer {
+  /** REST base URL; point KALSHI_MOCK_URL at it */
+  url: string;
+  scenario: MockScenario;
+  /** Terminate the oldest open socket without a close frame, as a network drop would; false if none is open */
+  dropSocket: () => boolean;
+  close: () => Promise<void>;
+}
+
+type Book = { yes: Map<number, number>; no: Map<number, number> };
+
+interface MarketState {
+  market: MockMarket;
+  event: MockEvent;
+  book: Book;
+  lastPrice: number;
+  volume: number;
+  trades: { trade_id: string; yes_price: number; count: number; taker_side: 'yes' | 'no'; ts: number }[];
+}
+
+interface Subscription {
+  channel: string;
+  tickers: Set<string>;
+  seq: number;
+}
+
+interface Connection {
+  socket: WebSocket;
+  ticks: number;
+  subscriptions: Map<number, Subscription>;
+}
+
+/** Small deterministic PRNG (mulberry32) so scenario sessions are reproducible */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Resting size for a quote: `depth` at the best level, thinning out behind it */
+function quoteBook(bid: number, ask: number, depth: number): Book {
+  const book: Book = { yes: new Map(), no: new Map() };
+  for (let i = 0; i < BOOK_LEVELS; i++) {
+    const qty = Math.round(depth * (1 - i * 0.3));
+    if (bid - i >= 1) book.yes.set(bid - i, qty);
+    if (100 - ask - i >= 1) book.no.set(100 - ask - i, qty);
+  }
+  return book;
+}
+
+function bestQuote(book: Book): { bid: number; ask: number } {
+  const bestYes = book.yes.size > 0 ? Math.max(...book.yes.keys()) : 0;
+  const bestNo = book.no.size > 0 ? Math.max(...book.no.keys()) : 0;
+  return { bid: bestYes, ask: 100 - bestNo };
+}
+
+function levels(side: Map<number, number>): [number, number][] {
+  return Array.from(side.entries()).sort((a, b) => a[0] - b[0]);
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function seriesOf(event: MockEvent) {
+  return { ticker: event.series_ticker, title: event.series_title, category: 'Sports', tags: ['Football'], frequency: 'custom' };
+}
+
+/**
+ * A local stand-in for Kalshi: the REST reads the dashboard makes and a
+ * WebSocket that speaks the subscribe protocol, for one fixture game. Books
+ * churn and trades print every tick; the scenario scripts everything else.
+ */
+export function startMockKalshi(options: MockKalshiOptions = {}): Promise<MockKalshiServer> {
+  const scenario = MOCK_SCENARIOS[options.scenario ?? 'normal'];
+  const tickMs = options.tickMs ?? DEFAULT_TICK_MS;
+  const random = createRandom(options.seed ?? 1);
+  const markets = new Map<string, MarketState>();
+  const connections = new Set<Connection>();
+  let nextSid = 1;
+  let nextTradeId = 1;
+
+  const recordTrade = (state: MarketState, takerSide: 'yes' | 'no', count: number, ts: number) => {
+    const { bid, ask } = bestQuote(state.book);
+    const trade = {
+      trade_id: `mock-${nextTradeId++}`,
+      yes_price: takerSide === 'yes' ? ask : bid,
+      count,
+      taker_side: takerSide,
+      ts,
+    };
+    state.trades.push(trade);
+    if (state.trades.length > MAX_TRADES_PER_MARKET) state.trades.shift();
+    state.lastPrice = trade.yes_price;
+    state.volume += count;
+    return trade;
+  };
+
+  for (const event of MOCK_EVENTS) {
+    for (const market of event.markets) {
+      const state: MarketState = {
+        market,
+        event,
+        book: quoteBook(market.bid, market.ask, market.depth),
+        lastPrice: market.bid,
+        volume: market.volume,
+        trades: [],
+      };
+      // A few prints in the last minute so history backfill has something to load
+      for (let i = 3; i >= 1; i--) {
+        recordTrade(state, random() < 0.5 ? 'yes' : 'no', 1 + Math.floor(random() * 50), Date.now() - i * 15_000);
+      }
+      markets.set(market.ticker, state);
+    }
+  }
+
+  // ---- REST ----
+
+  const marketPayload = (state: MarketState) => {
+    const { market, event, lastPrice, volume } = state;
+    const { bid, ask } = bestQuote(state.book);
+    return {
+      ticker: market.ticker,
+      event_ticker: event.event_ticker,
+      market_type: 'binary',
+      title: market.title,
+      yes_sub_title: market.yes_sub_title,
+      no_sub_title: market.yes_sub_title,
+      status: 'active',
+      yes_bid: bid,
+      yes_ask: ask,
+      no_bid: 100 - ask,
+      no_ask: 100 - bid,
+      last_price: lastPrice,
+      volume,
+      volume_24h: volume,
+      open_interest: market.open_interest,
+      open_time: OPEN_TIME,
+      close_time: CLOSE_TIME,
+      expected_expiration_time: EXPECTED_EXPIRATION_TIME,
+      ...(market.floor_strike !== undefined && { strike_type: 'greater', floor_strike: market.floor_strike }),
+    };
+  };
+
+  const eventPayload = (event: MockEvent, withMarkets: boolean) => ({
+    event_ticker: event.event_ticker,
+    series_ticker: event.series_ticker,
+    title: event.title,
+    sub_title: event.sub_title,
+    category: 'Sports',
+    mutually_exclusive: event.series_ticker.endsWith('GAME'),
+    ...(withMarkets && { markets: event.markets.map((m) => marketPayload(markets.get(m.ticker)!)) }),
+  });
+
+  const candlesPayload = (state: MarketState, startTs: number, endTs: number, periodMinutes: number) => {
+    const { bid, ask } = bestQuote(state.book);
+    const flat = (value: number) => ({ open: value, high: value, low: value, close: value });
+    const period = Math.max(1, periodMinutes) * 60;
+    const candlesticks = [];
+    for (let end = Math.ceil(startTs / period) * period; end <= endTs && candlesticks.length < MAX_CANDLES; end += period) {
+      candlesticks.push({
+        end_period_ts: end,
+        yes_bid: flat(bid),
+        yes_ask: flat(ask),
+        price: flat(state.lastPrice),
+        volume: 0,
+        open_interest: state.market.open_interest,
+      });
+    }
+    return candlesticks;
+  };
+
+  const isAuthorized = (req: http.IncomingMessage) =>
+    !scenario.rejectAuth && typeof req.headers['kalshi-access-key'] === 'string';
+
+  const route = (req: http.IncomingMessage, url: URL): { status: number; body: unknown } => {
+    const notFound = { status: 404, body: { error: { code: 'not_found', message: 'not found' } } };
+    if (req.method !== 'GET' || !url.pathname.startsWith(REST_PREFIX)) return notFound;
+
+    const parts = url.pathname.slice(REST_PREFIX.length).split('/').filter(Boolean).map(decodeURIComponent);
+    const query = url.searchParams;
+
+    if (parts[0] === 'portfolio') {
+      if (!isAuthorized(req)) {
+        return { status: 401, body: { error: { code: 'authentication_error', message: 'authentication required' } } };
+      }
+      return parts[1] === 'balance' ? { status: 200, body: { balance: 100_000 } } : notFound;
+    }
+
+    if (parts[0] === 'series' && parts.length === 1) {
+      const category = query.get('category');
+      const series = category && category !== 'Sports' ? [] : MOCK_EVENTS.map(seriesOf);
+      return { status: 200, body: { series, cursor: '' } };
+    }
+
+    if (parts[0] === 'series' && parts[2] === 'markets' && parts[4] === 'candlesticks') {
+      const state = markets.get(parts[3].toUpperCase());
+      if (!state || state.event.series_ticker !== parts[1].toUpperCase()) return notFound;
+      const endTs = Number(query.get('end_ts')) || nowSeconds();
+      const startTs = Number(query.get('start_ts')) || endTs - 60 * 60;
+      const period = Number(query.get('period_interval')) || 1;
+      return { status: 200, body: { ticker: state.market.ticker, candlesticks: candlesPayload(state, startTs, endTs, period) } };
+    }
+
+    if (parts[0] === 'events' && parts.length === 1) {
+      const seriesTicker = query.get('series_ticker')?.toUpperCase();
+      const status = query.get('status');
+      // Every mock event is open
+      const events = status && status !== 'open'
+        ? []
+        : MOCK_EVENTS.filter((e) => !seriesTicker || e.series_ticker === seriesTicker);
+      const withMarkets = query.get('with_nested_markets') === 'true';
+      return { status: 200, body: { events: events.map((e) => eventPayload(e, withMarkets)), cursor: '' } };
+    }
+
+    if (parts[0] === 'events' && parts.length === 2) {
+      const event = MOCK_EVENTS.find((e) => e.event_ticker === parts[1].toUpperCase());
+      if (!event) return notFound;
+      const withMarkets = query.get('with_nested_markets') === 'true';
+      return {
+        status: 200,
+        body: withMarkets
+          ? { event: eventPayload(event, true) }
+          : { event: eventPayload(event, false), markets: event.markets.map((m) => marketPayload(markets.get(m.ticker)!)) },
+      };
+    }
+
+    if (parts[0] === 'markets' && parts[1] === 'trades') {
+      const ticker = query.get('ticker')?.toUpperCase();
+      const minTs = Number(query.get('min_ts')) || 0;
+      const limit = Math.max(1, Number(query.get('limit')) || 100);
+      // Newest first, like Kalshi
+      const trades = Array.from(markets.values())
+        .filter((s) => !ticker || s.market.ticker === ticker)
+        .flatMap((s) => s.trades.map((t) => ({ ...t, ticker: s.market.ticker })))
+        .filter((t) => t.ts >= minTs * 1000)
+        .sort((a, b) => b.ts - a.ts)
+        .slice(0, limit)
+        .map(({ ts, ...t }) => ({ ...t, no_price: 100 - t.yes_price, created_time: new Date(ts).toISOString() }));
+      return { status: 200, body: { trades, cursor: '' } };
+    }
+
+    if (parts[0] === 'markets' && parts.length === 1) {
+      const tickers = query.get('tickers')?.toUpperCase().split(',').filter(Boolean);
+      const selected = Array.from(markets.values()).filter((s) => !tickers || tickers.includes(s.market.ticker));
+      return { status: 200, body: { markets: selected.map(marketPayload), cursor: '' } };
+    }
+
+    if (parts[0] === 'markets' && parts.length === 2) {
+      const state = markets.get(parts[1].toUpperCase());
+      return state ? { status: 200, body: { market: marketPayload(state) } } : notFound;
+    }
+
+    return notFound;
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const { status, body } = route(req, url);
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+
+  // ---- WebSocket ----
+
+  const wss = new WebSocketServer({ noServer: true });
+
+  const send = (conn: Connection, message: KalshiWSMessage | Record<string, unknown>) => {
+    if (conn.socket.readyState === WebSocket.OPEN) conn.socket.send(JSON.stringify(message));
+  };
+
+  /** Send to every subscription on `channel` that covers `ticker`; book messages carry the sid's seq */
+  const broadcast = (channel: string, ticker: string, build: (sid: number, seq: number) => KalshiWSMessage) => {
+    for (const conn of connections) {
+      for (const [sid, sub] of conn.subscriptions) {
+        if (sub.channel !== channel || !sub.tickers.has(ticker)) continue;
+        send(conn, build(sid, channel === 'orderbook_delta' ? ++sub.seq : sub.seq));
+      }
+    }
+  };
+
+  const sendSnapshot = (conn: Connection, sid: number, sub: Subscription, ticker: string) => {
+    const state = markets.get(ticker)!;
+    const snapshot: OrderbookSnapshotMessage = {
+      type: 'orderbook_snapshot',
+      sid,
+      seq: ++sub.seq,
+      msg: { market_ticker: ticker, yes: levels(state.book.yes), no: levels(state.book.no) },
+    };
+    send(conn, snapshot);
+  };
+
+  const applyDelta = (ticker: string, side: 'yes' | 'no', price: number, delta: number) => {
+    const levelsBySide = markets.get(ticker)!.book[side];
+    const qty = (levelsBySide.get(price) ?? 0) + delta;
+    if (qty <= 0) levelsBySide.delete(price);
+    else levelsBySide.set(price, qty);
+
+    broadcast('orderbook_delta', ticker, (sid, seq): OrderbookDeltaMessage => ({
+      type: 'orderbook_delta',
+      sid,
+      seq,
+      msg: { market_ticker: ticker, price, delta, side, ts: nowSeconds() },
+    }));
+  };
+
+  const sendTicker = (ticker: string) => {
+    const state = markets.get(ticker)!;
+    const { bid, ask } = bestQuote(state.book);
+    broadcast('ticker', ticker, (sid): TickerMessage & { sid: number } => ({
+      type: 'ticker',
+      sid,
+      msg: {
+        market_ticker: ticker,
+        yes_bid: bid,
+        yes_ask: ask,
+        last_price: state.lastPrice,
+        volume: state.volume,
+        open_interest: state.market.open_interest,
+        ts: nowSeconds(),
+      },
+    }));
+  };
+
+  /** Move a market's best bid and ask, emitting the deltas that get its book there */
+  const requote = (ticker: string, bid: number, ask: number) => {
+    const state = markets.get(ticker);
+    if (!state) return;
+    const target = quoteBook(bid, ask, state.market.depth);
+    for (const side of ['yes', 'no'] as const) {
+      const prices = new Set([...state.book[side].keys(), ...target[side].keys()]);
+      for (const price of prices) {
+        const delta = (target[side].get(price) ?? 0) - (state.book[side].get(price) ?? 0);
+        if (delta !== 0) applyDelta(ticker, side, price, delta);
+      }
+    }
+    sendTicker(ticker);
+  };
+
+  const handleCommand = (conn: Connection, data: WebSocket.Data) => {
+    let command: { id?: number; cmd?: string; params?: Record<string, unknown> };
+    try {
+      command = JSON.parse(data.toString());
+    } catch {
+      send(conn, { type: 'error', msg: { code: 1, message: 'Unable to process message' } });
+      return;
+    }
+
+    const { id, cmd, params = {} } = command;
+    const tickers = (Array.isArray(params.market_tickers) ? params.market_tickers as string[] : [])
+      .map((t) => t.toUpperCase())
+      .filter((t) => markets.has(t));
+    const sids = Array.isArray(params.sids) ? params.sids as number[] : [];
+
+    switch (cmd) {
+      case 'subscribe': {
+        const channels = Array.isArray(params.channels) ? params.channels as string[] : [];
+        const unknown = channels.find((c) => !CHANNELS.includes(c));
+        if (channels.length === 0 || unknown) {
+          send(conn, { id, type: 'error', msg: { code: 8, message: `Unknown channel name: ${unknown ?? ''}` } });
+          return;
+        }
+        for (const channel of channels) {
+          const sid = nextSid++;
+          const sub: Subscription = { channel, tickers: new Set(tickers), seq: 0 };
+          conn.subscriptions.set(sid, sub);
+          send(conn, { id, type: 'subscribed', msg: { channel, sid } });
+          if (channel === 'orderbook_delta') {
+            for (const ticker of sub.tickers) sendSnapshot(conn, sid, sub, ticker);
+          }
+        }
+        return;
+      }
+      case 'unsubscribe':
+        for (const sid of sids) {
+          if (conn.subscriptions.delete(sid)) send(conn, { id, type: 'unsubscribed', sid });
+        }
+        return;
+      case 'update_subscription': {
+        const sid = sids[0];
+        const sub = sid !== undefined ? conn.subscriptions.get(sid) : undefined;
+        if (!sub) {
+          send(conn, { id, type: 'error', msg: { code: 10, message: 'Subscription not found' } });
+          return;
+        }
+        for (const ticker of tickers) {
+          if (params.action === 'delete_markets') {
+            sub.tickers.delete(ticker);
+          } else if (!sub.tickers.has(ticker)) {
+            sub.tickers.add(ticker);
+            if (sub.channel === 'orderbook_delta') sendSnapshot(conn, sid, sub, ticker);
+          }
+        }
+        send(conn, { id, type: 'ok', sid, msg: { market_tickers: Array.from(sub.tickers) } });
+        return;
+      }
+      default:
+        send(conn, { id, type: 'error', msg: { code: 5, message: `Unknown command: ${cmd ?? ''}` } });
+    }
+  };
+
+  server.on('upgrade', (req, socket, head) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path !== WS_PATH || scenario.rejectAuth) {
+      socket.end(path !== WS_PATH ? 'HTTP/1.1 404 Not Found\r\n\r\n' : 'HTTP/1.1 401 Unauthorized\r\n\r\n');
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const conn: Connection = { socket: ws, ticks: 0, subscriptions: new Map() };
+      connections.add(conn);
+      ws.on('message', (data) => handleCommand(conn, data));
+      ws.on('close', () => connections.delete(conn));
+      ws.on('error', () => connections.delete(conn));
+    });
+  });
+
+  // ---- Ticks ----
+
+  const runStep = (conn: Connection) => {
+    for (const step of scenario.steps) {
+      if (step.atTick !== conn.ticks) continue;
+      if (step.kind === 'disconnect') {
+        connections.delete(conn);
+        conn.socket.terminate();
+        return;
+      }
+      if (step.kind === 'seq_gap') {
+        for (const sub of conn.subscriptions.values()) {
+          if (sub.channel === 'orderbook_delta' && sub.tickers.has(step.ticker)) sub.seq++;
+        }
+        continue;
+      }
+      requote(step.ticker, step.bid, step.ask);
+    }
+  };
+
+  const tick = () => {
+    for (const conn of Array.from(connections)) {
+      conn.ticks++;
+      runStep(conn);
+    }
+    if (connections.size === 0) return;
+
+    const all = Array.from(markets.values());
+
+    // One print against the touch
+    const traded = all[Math.floor(random() * all.length)];
+    const trade = recordTrade(traded, random() < 0.5 ? 'yes' : 'no', 1 + Math.floor(random() * 50), Date.now());
+    broadcast('trade', traded.market.ticker, (sid): TradeMessage & { sid: number } => ({
+      type: 'trade',
+      sid,
+      msg: {
+        market_ticker: traded.market.ticker,
+        trade_id: trade.trade_id,
+        yes_price: trade.yes_price,
+        no_price: 100 - trade.yes_price,
+        count: trade.count,
+        taker_side: trade.taker_side,
+        ts: Math.floor(trade.ts / 1000),
+      },
+    }));
+
+    // Churn: resize one resting level per market without moving the quote, and
+    // tick every market, so none falls outside the ladder staleness window
+    for (const churned of all) {
+      const side = random() < 0.5 ? 'yes' : 'no';
+      const prices = Array.from(churned.book[side].keys());
+      if (prices.length > 0) {
+        const price = prices[Math.floor(random() * prices.length)];
+        const qty = churned.book[side].get(price)!;
+        const delta = Math.max(1 - qty, Math.round((random() - 0.5) * churned.market.depth * 0.2)) || 1;
+        applyDelta(churned.market.ticker, side, price, delta);
+      }
+      sendTicker(churned.market.ticker);
+    }
+  };
+
+  const timer = setInterval(tick, tickMs);
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+      const { address, port } = server.address() as AddressInfo;
+      const host = address.includes(':') ? `[${address}]` : address;
+      resolve({
+        url: `http://${host}:${port}`,
+        scenario,
+        dropSocket: () => {
+          const conn = connections.values().next().value;
+          if (!conn) return false;
+          connections.delete(conn);
+          conn.socket.terminate();
+          return true;
+        },
+        close: () => new Promise<void>((done) => {
+          clearInterval(timer);
+          for (const conn of connections) conn.socket.terminate();
+          connections.clear();
+          wss.close();
+          server.close(() => done());
+          server.closeAllConnections();
+        }),
+      });
+    });
+  });
+}
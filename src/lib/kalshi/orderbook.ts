@@ -0,0 +1,260 @@
+/** Kalshi prices are whole cents strictly between 0 and 100 */
+export const MIN_PRICE = 1;
+export const MAX_PRICE = 99;
+
+function isPrice(price: number): boolean {
+  return Number.isInteger(price) && price >= MIN_PRICE && price <= MAX_PRICE;
+}
+
+/**
+ * Resting contracts on one side of a market, indexed by price. Non-empty
+ * levels are also linked in price order, so the best level is O(1), the top k
+ * are O(k) and removing a level is O(1); opening a level walks up to the next
+ * non-empty price. Total depth is kept as levels change.
+ */
+export class BookSide {
+  private readonly quantities = new Float64Array(MAX_PRICE + 1);
+  // Neighbouring non-empty prices of each non-empty price; 0 ends the list
+  private readonly lower = new Uint8Array(MAX_PRICE + 1);
+  private readonly higher = new Uint8Array(MAX_PRICE + 1);
+  private bestPrice = 0;
+  private levelCount = 0;
+  private total = 0;
+
+  /** Number of non-empty levels */
+  get size(): number {
+    return this.levelCount;
+  }
+
+  /** Contracts resting across every level */
+  get depth(): number {
+    return this.total;
+  }
+
+  /** Highest price with contracts resting */
+  get best(): number | undefined {
+    return this.bestPrice === 0 ? undefined : this.bestPrice;
+  }
+
+  /** Contracts at the best price; 0 when the side is empty */
+  get bestSize(): number {
+    return this.quantities[this.bestPrice];
+  }
+
+  get(price: number): number {
+    return isPrice(price) ? this.quantities[price] : 0;
+  }
+
+  /** Set a level; zero or less removes it. Prices off the 1–99 grid are ignored. */
+  set(price: number, quantity: number): void {
+    if (!isPrice(price)) return;
+
+    const current = this.quantities[price];
+    const next = quantity > 0 ? quantity : 0;
+    if (next === current) return;
+
+    this.quantities[price] = next;
+    this.total += next - current;
+    if (current === 0) this.link(price);
+    else if (next === 0) this.unlink(price);
+  }
+
+  add(price: number, delta: number): void {
+    this.set(price, this.get(price) + delta);
+  }
+
+  /** Up to `k` levels as [price, quantity], best first */
+  top(k: number): [number, number][] {
+    const levels: [number, number][] = [];
+    for (let price = this.bestPrice; price !== 0 && levels.length < k; price = this.lower[price]) {
+      levels.push([price, this.quantities[price]]);
+    }
+    return levels;
+  }
+
+  /** Contracts resting on the best `k` levels */
+  depthTop(k: number): number {
+    let sum = 0;
+    let count = 0;
+    for (let price = this.bestPrice; price !== 0 && count < k; price = this.lower[price]) {
+      sum += this.quantities[price];
+      count++;
+    }
+    return sum;
+  }
+
+  /** Every level, best first */
+  levels(): [number, number][] {
+    return this.top(this.levelCount);
+  }
+
+  /** Visit levels best first until `visit` returns false */
+  walk(visit: (price: number, quantity: number) => boolean): void {
+    for (let price = this.bestPrice; price !== 0; price = this.lower[price]) {
+      if (!visit(price, this.quantities[price])) return;
+    }
+  }
+
+  /** Contracts resting at `minPrice` or better */
+  depthFrom(minPrice: number): number {
+    let sum = 0;
+    for (let price = this.bestPrice; price >= minPrice && price !== 0; price = this.lower[price]) {
+      sum += this.quantities[price];
+    }
+    return sum;
+  }
+
+  /**
+   * Cents to take out every level at `minPrice` or better. Taking a bid at p
+   * means buying the other side at 100 - p.
+   */
+  sweepCostFrom(minPrice: number): number {
+    let cost = 0;
+    for (let price = this.bestPrice; price >= minPrice && price !== 0; price = this.lower[price]) {
+      cost += this.quantities[price] * (100 - price);
+    }
+    return cost;
+  }
+
+  /** Every level as flat [price, quantity, ...] pairs, best first */
+  encode(): number[] {
+    const flat: number[] = [];
+    for (let price = this.bestPrice; price !== 0; price = this.lower[price]) {
+      flat.push(price, this.quantities[price]);
+    }
+    return flat;
+  }
+
+  /** Levels that differ from `previous` as flat [price, quantity, ...] pairs; 0 removes a level */
+  changesSince(previous: BookSide): number[] {
+    const flat: number[] = [];
+    for (let price = MAX_PRICE; price >= MIN_PRICE; price--) {
+      if (this.quantities[price] !== previous.quantities[price]) {
+        flat.push(price, this.quantities[price]);
+      }
+    }
+    return flat;
+  }
+
+  copyFrom(other: BookSide): void {
+    this.quantities.set(other.quantities);
+    this.lower.set(other.lower);
+    this.higher.set(other.higher);
+    this.bestPrice = other.bestPrice;
+    this.levelCount = other.levelCount;
+    this.total = other.total;
+  }
+
+  clear(): void {
+    this.quantities.fill(0);
+    this.lower.fill(0);
+    this.higher.fill(0);
+    this.bestPrice = 0;
+    this.levelCount = 0;
+    this.total = 0;
+  }
+
+  private link(price: number): void {
+    let above = price + 1;
+    while (above <= this.bestPrice && this.quantities[above] === 0) above++;
+
+    if (above > this.bestPrice) {
+      this.lower[price] = this.bestPrice;
+      this.higher[price] = 0;
+      if (this.bestPrice !== 0) this.higher[this.bestPrice] = price;
+      this.bestPrice = price;
+    } else {
+      const below = this.lower[above];
+      this.lower[price] = below;
+      this.higher[price] = above;
+      if (below !== 0) this.higher[below] = price;
+      this.lower[above] = price;
+    }
+    this.levelCount++;
+  }
+
+  private unlink(price: number): void {
+    const below = this.lower[price];
+    const above = this.higher[price];
+    if (below !== 0) this.higher[below] = above;
+    if (above !== 0) this.lower[above] = below;
+    else this.bestPrice = below;
+    this.lower[price] = 0;
+    this.higher[price] = 0;
+    this.levelCount--;
+  }
+}
+
+export type BookSideName = 'yes' | 'no';
+
+/** One contract's market, in its own cents: its bids rest on its side, its asks are the other side's bids */
+export interface SideView {
+  bid?: number;
+  ask?: number;
+  /** Contracts at the best bid and best ask; 0 when that side is empty */
+  bid_size: number;
+  ask_size: number;
+  /** Contracts resting across every level */
+  bid_depth: number;
+  ask_depth: number;
+}
+
+/**
+ * Both sides of a Kalshi book. Kalshi only rests bids: a NO bid at p is a
+ * YES offer at 100 - p, so each contract's asks come from the other side.
+ */
+export class OrderBook {
+  readonly yes = new BookSide();
+  readonly no = new BookSide();
+
+  get yesBid(): number | undefined {
+    return this.yes.best;
+  }
+
+  get yesAsk(): number | undefined {
+    return complement(this.no.best);
+  }
+
+  get noBid(): number | undefined {
+    return this.no.best;
+  }
+
+  get noAsk(): number | undefined {
+    return complement(this.yes.best);
+  }
+
+  /**
+   * YES and NO bids worth 100¢ or more together. The exchange matches them,
+   * so a resting book never holds such a pair; seeing one means a missed delta
+   * (or a stale snapshot) and the book should not be trusted.
+   */
+  get crossed(): boolean {
+    const yesBid = this.yes.best;
+    const noBid = this.no.best;
+    return yesBid !== undefined && noBid !== undefined && yesBid + noBid >= 100;
+  }
+
+  /** The book as the holder of `side` sees it */
+  view(side: BookSideName): SideView {
+    const own = side === 'yes' ? this.yes : this.no;
+    const other = side === 'yes' ? this.no : this.yes;
+    return {
+      bid: own.best,
+      ask: complement(other.best),
+      bid_size: own.bestSize,
+      ask_size: other.bestSize,
+      bid_depth: own.depth,
+      ask_depth: other.depth,
+    };
+  }
+
+  copyFrom(other: OrderBook): void {
+    this.yes.copyFrom(other.yes);
+    this.no.copyFrom(other.no);
+  }
+}
+
+/** The same price from the other side of the contract: 100 - p */
+export function complement(price: number | undefined): number | undefined {
+  return price === undefined ? undefined : 100 - price;
+}
@@ -0,0 +1,227 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { KalshiWSMessage, SSEMetaPayload } from './types';
+
+const DEFAULT_RECORD_DIR = 'data/recordings';
+// Uncompressed bytes per file; market data gzips roughly 10:1
+const DEFAULT_ROTATE_BYTES = 64 * 1024 * 1024;
+const ROTATE_INTERVAL_MS = 60 * 60 * 1000;
+// How much an active or crashed recording can lose from zlib's buffer
+const FLUSH_INTERVAL_MS = 5_000;
+const DEFAULT_RETAIN_DAYS = 7;
+const RECORDING_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*\.ndjson\.gz$/;
+
+/**
+ * One NDJSON line. `t` is the receive time in ms; `ws` lines carry the Kalshi
+ * message as parsed, `meta` lines the resolved game payload sent to browsers.
+ */
+export type RecordingLine =
+  | { t: number; kind: 'ws'; data: KalshiWSMessage }
+  | { t: number; kind: 'meta'; data: SSEMetaPayload };
+
+export interface RecordingInfo {
+  name: string;
+  sizeBytes: number;
+  modifiedAt: string;
+  /** Still being written; the gzip trailer is missing until it rotates or the stream closes */
+  active: boolean;
+}
+
+export function isRecordingEnabled(): boolean {
+  return process.env.KALSHI_RECORD === 'on';
+}
+
+export function getRecordingDir(): string {
+  return path.resolve(process.env.KALSHI_RECORD_DIR || DEFAULT_RECORD_DIR);
+}
+
+function getRotateBytes(): number {
+  const mb = Number(process.env.KALSHI_RECORD_ROTATE_MB);
+  return Number.isFinite(mb) && mb > 0 ? mb * 1024 * 1024 : DEFAULT_ROTATE_BYTES;
+}
+
+function getRetainMs(): number {
+  const days = Number(process.env.KALSHI_RECORD_RETAIN_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_RETAIN_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+// Files currently open for writing, shared across route bundles so the
+// listing route can mark them
+const globalForRecorder = globalThis as unknown as { kalshiActiveRecordings?: Set<string> };
+const activeRecordings: Set<string> =
+  globalForRecorder.kalshiActiveRecordings ?? (globalForRecorder.kalshiActiveRecordings = new Set());
+
+/** `kxnflgame-26jan04balpit,kxnbagame-...|*` → a short filesystem-safe label */
+function labelForKey(key: string): string {
+  const events = key.split('|')[0].split(',');
+  const label = events[0].toLowerCase().replace(/[^a-z0-9-]/g, '');
+  return events.length > 1 ? `${label}-plus${events.length - 1}` : label;
+}
+
+function timestampForName(ts: number): string {
+  return new Date(ts).toISOString().replace(/[:.]/g, '-').toLowerCase();
+}
+
+/** Delete recordings past the retention window; runs when a recorder opens its first file */
+function pruneOldRecordings(dir: string): void {
+  const cutoff = Date.now() - getRetainMs();
+  fs.promises.readdir(dir)
+    .then((names) => Promise.all(names
+      .filter((name) => RECORDING_NAME_PATTERN.test(name) && !activeRecordings.has(name))
+      .map(async (name) => {
+        const file = path.join(dir, name);
+        const stat = await fs.promises.stat(file);
+        if (stat.mtimeMs < cutoff) await fs.promises.unlink(file);
+      })))
+    .catch((err) => console.warn('[Recorder] Failed to prune old recordings:', err));
+}
+
+/**
+ * Writes one shared stream's inbound messages to gzip-compressed NDJSON,
+ * starting a new file by size or age. Each file begins with the latest meta
+ * per game so it replays on its own.
+ */
+export class SessionRecorder {
+  private readonly dir = getRecordingDir();
+  private readonly label: string;
+  private readonly rotateBytes = getRotateBytes();
+  private gzip: zlib.Gzip | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private unflushed = false;
+  private fileName: string | null = null;
+  private fileOpenedAt = 0;
+  private bytesWritten = 0;
+  private sequence = 0;
+  private failed = false;
+  private lastMetaByGame: Map<string, SSEMetaPayload> = new Map();
+
+  constructor(streamKey: string) {
+    this.label = labelForKey(streamKey) || 'stream';
+  }
+
+  recordMessage(message: KalshiWSMessage, receivedAt = Date.now()): void {
+    this.write({ t: receivedAt, kind: 'ws', data: message });
+  }
+
+  recordMeta(meta: SSEMetaPayload, receivedAt = Date.now()): void {
+    this.write({ t: receivedAt, kind: 'meta', data: meta });
+    this.lastMetaByGame.set(meta.gameId ?? '', meta);
+  }
+
+  close(): void {
+    this.closeFile();
+    this.failed = true;
+  }
+
+  private write(line: RecordingLine): void {
+    if (this.failed) return;
+
+    if (this.gzip && (this.bytesWritten >= this.rotateBytes || line.t - this.fileOpenedAt >= ROTATE_INTERVAL_MS)) {
+      this.closeFile();
+    }
+    if (!this.gzip && !this.openFile(line.t)) return;
+
+    this.writeLine(line);
+  }
+
+  private writeLine(line: RecordingLine): void {
+    const text = JSON.stringify(line) + '\n';
+    this.bytesWritten += Buffer.byteLength(text);
+    this.gzip!.write(text);
+    this.unflushed = true;
+  }
+
+  private openFile(now: number): boolean {
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+    } catch (err) {
+      this.fail(err);
+      return false;
+    }
+
+    const fileName = `${this.label}-${timestampForName(now)}-${String(this.sequence++).padStart(3, '0')}.ndjson.gz`;
+    const gzip = zlib.createGzip();
+    const file = fs.createWriteStream(path.join(this.dir, fileName));
+    gzip.pipe(file);
+    file.on('error', (err) => this.fail(err));
+    file.on('close', () => activeRecordings.delete(fileName));
+
+    this.gzip = gzip;
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+    this.fileName = fileName;
+    this.fileOpenedAt = now;
+    this.bytesWritten = 0;
+    activeRecordings.add(fileName);
+    console.log(`[Recorder] Writing ${fileName}`);
+
+    for (const meta of this.lastMetaByGame.values()) {
+      this.writeLine({ t: now, kind: 'meta', data: meta });
+    }
+    if (this.sequence === 1) pruneOldRecordings(this.dir);
+    return true;
+  }
+
+  /** Push buffered lines to disk so the file reads back up to here */
+  private flush(): void {
+    if (!this.gzip || !this.unflushed) return;
+    this.unflushed = false;
+    this.gzip.flush(zlib.constants.Z_SYNC_FLUSH);
+  }
+
+  private closeFile(): void {
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    this.flushTimer = null;
+    this.unflushed = false;
+    this.gzip?.end();
+    this.gzip = null;
+    this.fileName = null;
+  }
+
+  private fail(err: unknown): void {
+    if (this.failed) return;
+    this.failed = true;
+    console.error(`[Recorder] Recording stopped${this.fileName ? ` (${this.fileName})` : ''}:`, err);
+    if (this.fileName) activeRecordings.delete(this.fileName);
+    this.closeFile();
+  }
+}
+
+/** A recorder for this stream, or null when recording is off */
+export function createRecorder(streamKey: string): SessionRecorder | null {
+  return isRecordingEnabled() ? new SessionRecorder(streamKey) : null;
+}
+
+/** Recordings on disk, newest first */
+export async function listRecordings(): Promise<RecordingInfo[]> {
+  const dir = getRecordingDir();
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const recordings = await Promise.all(names
+    .filter((name) => RECORDING_NAME_PATTERN.test(name))
+    .map(async (name) => {
+      const stat = await fs.promises.stat(path.join(dir, name));
+      return {
+        name,
+        sizeBytes: stat.size,
+        modifiedAt: stat.mtime.toISOString(),
+        active: activeRecordings.has(name),
+      };
+    }));
+
+  return recordings.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt) || b.name.localeCompare(a.name));
+}
+
+/** Absolute path of a recording, or null if the name is not a recording file */
+export function getRecordingPath(name: string): string | null {
+  if (!RECORDING_NAME_PATTERN.test(name)) return null;
+  const file = path.join(getRecordingDir(), name);
+  return fs.existsSync(file) ? file : null;
+}
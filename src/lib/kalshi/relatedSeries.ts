@@ -1,3 +1,5 @@
+import { getLeagues, getLeagueForSeries } from './leagues';
+
 export type GroupType = 'winner' | 'spread' | 'total' | 'other';
 
 export interface SeriesConfig {
@@ -5,25 +7,13 @@ export interface SeriesConfig {
   relatedSeries: { prefix: string; groupType: GroupType }[];
 }
 
-const NFL_CONFIG: SeriesConfig = {
-  groupKey: 'kxnfl',
-  relatedSeries: [
-    { prefix: 'kxnflgame', groupType: 'winner' },
-    { prefix: 'kxnflspread', groupType: 'spread' },
-    { prefix: 'kxnfltotal', groupType: 'total' },
-  ],
-};
-
-const NBA_CONFIG: SeriesConfig = {
-  groupKey: 'kxnba',
-  relatedSeries: [
-    { prefix: 'kxnbagame', groupType: 'winner' },
-    { prefix: 'kxnbaspread', groupType: 'spread' },
-    { prefix: 'kxnbatotal', groupType: 'total' },
-  ],
-};
-
-const SERIES_CONFIGS: SeriesConfig[] = [NFL_CONFIG, NBA_CONFIG];
+/** Series groups come from the league registry so new sports need no changes here */
+function getSeriesConfigs(): SeriesConfig[] {
+  return getLeagues().map((league) => ({
+    groupKey: league.groupKey,
+    relatedSeries: league.relatedSeries,
+  }));
+}
 
 export interface ParsedEventTicker {
   seriesPrefix: string;
@@ -46,13 +36,7 @@ export function parseEventTicker(eventTicker: string): ParsedEventTicker {
   const seriesPrefix = normalized.slice(0, dashIndex);
   const gameId = normalized.slice(dashIndex + 1);
   
-  let groupKey: string | null = null;
-  for (const config of SERIES_CONFIGS) {
-    if (seriesPrefix.startsWith(config.groupKey)) {
-      groupKey = config.groupKey;
-      break;
-    }
-  }
+  const groupKey = getLeagueForSeries(seriesPrefix)?.groupKey ?? null;
   
   return { seriesPrefix, gameId, groupKey };
 }
@@ -68,7 +52,7 @@ export function getRelatedEventTickers(eventTicker: string): string[] {
     return [eventTicker.toLowerCase()];
   }
   
-  const config = SERIES_CONFIGS.find((c) => c.groupKey === groupKey);
+  const config = getSeriesConfigs().find((c) => c.groupKey === groupKey);
   if (!config) {
     return [eventTicker.toLowerCase()];
   }
@@ -79,7 +63,7 @@ export function getRelatedEventTickers(eventTicker: string): string[] {
 export function getGroupTypeForSeries(seriesPrefix: string): GroupType {
   const normalized = seriesPrefix.toLowerCase();
   
-  for (const config of SERIES_CONFIGS) {
+  for (const config of getSeriesConfigs()) {
     for (const series of config.relatedSeries) {
       if (normalized === series.prefix) {
         return series.groupType;
@@ -90,11 +74,30 @@ export function getGroupTypeForSeries(seriesPrefix: string): GroupType {
   return 'other';
 }
 
+// Series that split a game by period, team or player never belong on the
+// game-level winner/spread/total ladders, whatever else their title says
+const PARTIAL_MARKET_PATTERN = /\b(1st|2nd|3rd|4th|first|second|half|quarter|period|inning|innings|set|team|player|props?)\b|\b[1-4][hqp]\b/i;
+
+/**
+ * Classify a series found by /series discovery. Registry prefixes win; other
+ * series are grouped by their title, with anything partial left as 'other'.
+ */
+export function classifySeries(seriesTicker: string, title = ''): GroupType {
+  const known = getGroupTypeForSeries(seriesTicker);
+  if (known !== 'other') return known;
+
+  if (PARTIAL_MARKET_PATTERN.test(title)) return 'other';
+  if (/\b(spread|run line|puck line)\b/i.test(title)) return 'spread';
+  if (/\btotal\b|over\/under/i.test(title)) return 'total';
+  if (/\b(winner|moneyline)\b/i.test(title)) return 'winner';
+  return 'other';
+}
+
 export function getGroupTypeForEventTicker(eventTicker: string): GroupType {
   const { seriesPrefix } = parseEventTicker(eventTicker);
   return getGroupTypeForSeries(seriesPrefix);
 }
 
 export function getSupportedSports(): string[] {
-  return SERIES_CONFIGS.map((c) => c.groupKey);
+  return getSeriesConfigs().map((c) => c.groupKey);
 }
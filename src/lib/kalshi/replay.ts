@@ -0,0 +1,320 @@
+import fs from 'fs';
+import readline from 'readline';
+import zlib from 'zlib';
+import { ManualClock } from './clock';
+import { getRecordingPath, RecordingLine } from './recorder';
+import {
+  ConnectionPoolHandle,
+  WSConnectionOptions,
+  createConnectionState,
+  createSequenceTracker,
+  checkSequence,
+  applyTickerUpdate,
+  applyOrderbookSnapshot,
+  applyOrderbookDelta,
+  addToRawFeed,
+  SequenceTracker,
+} from './ws';
+import {
+  ConnectionState,
+  KalshiWSMessage,
+  SSEMetaPayload,
+  TickerMessage,
+  OrderbookSnapshotMessage,
+  OrderbookDeltaMessage,
+  BookResyncMessage,
+} from './types';
+
+/** Playback rate: 1 is real time, N plays N× faster, 'step' only advances on request */
+export type ReplaySpeed = number | 'step';
+
+export const MAX_REPLAY_SPEED = 1000;
+
+export interface ReplayProgress {
+  recording: string;
+  speed: ReplaySpeed;
+  paused: boolean;
+  finished: boolean;
+  /** Messages applied so far */
+  position: number;
+  /** Receive time of the last applied message */
+  replayTime: number | null;
+}
+
+export interface ReplayOptions extends Pick<
+  WSConnectionOptions,
+  'marketTickers' | 'onMessage' | 'onStateUpdate' | 'onError' | 'onConnected' | 'onDisconnected'
+> {
+  recording: string;
+  speed: ReplaySpeed;
+  /** Advanced to each message's receive time before it is applied */
+  clock: ManualClock;
+  /** Called with a message's receive time before the clock moves to it */
+  onAdvance?: (ts: number) => void;
+  /** A meta line recorded mid-session (markets added or removed) */
+  onMeta?: (meta: SSEMetaPayload) => void;
+  onFinished?: (progress: ReplayProgress) => void;
+}
+
+export interface ReplayHandle extends ConnectionPoolHandle {
+  /** Apply the next `count` messages, even while paused; resolves once they are applied */
+  step: (count?: number) => Promise<ReplayProgress>;
+  pause: () => void;
+  /** Continue playback, optionally at a new numeric speed */
+  resume: (speed?: number) => void;
+  getProgress: () => ReplayProgress;
+}
+
+export function parseReplaySpeed(value: string | null): ReplaySpeed | null {
+  if (!value) return 1;
+  if (value === 'step') return 'step';
+  const speed = Number(value.replace(/x$/i, ''));
+  return Number.isFinite(speed) && speed > 0 && speed <= MAX_REPLAY_SPEED ? speed : null;
+}
+
+/** Lines of a recording in file order; a file still being written ends at its last complete line */
+export async function* readRecording(file: string): AsyncGenerator<RecordingLine> {
+  const gunzip = zlib.createGunzip();
+  fs.createReadStream(file).on('error', (err) => gunzip.destroy(err)).pipe(gunzip);
+  const lines = readline.createInterface({ input: gunzip, crlfDelay: Infinity });
+
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as RecordingLine;
+      } catch {
+        // A truncated final line from an unfinished file
+      }
+    }
+  } catch (err) {
+    // Active recordings have no gzip trailer yet
+    if ((err as NodeJS.ErrnoException).code !== 'Z_BUF_ERROR') throw err;
+  } finally {
+    lines.close();
+    gunzip.destroy();
+  }
+}
+
+function resolveRecording(recording: string): string {
+  const file = getRecordingPath(recording);
+  if (!file) throw new Error(`Recording not found: ${recording}`);
+  return file;
+}
+
+/**
+ * Game metadata a recording starts with: the meta lines before its first
+ * WebSocket message, latest per game.
+ */
+export async function loadRecordingMeta(recording: string): Promise<SSEMetaPayload[]> {
+  const metaByGame = new Map<string, SSEMetaPayload>();
+  for await (const line of readRecording(resolveRecording(recording))) {
+    if (line.kind !== 'meta') break;
+    metaByGame.set(line.data.gameId ?? line.data.event?.event_ticker ?? '', line.data);
+  }
+  if (metaByGame.size === 0) {
+    throw new Error(`Recording has no game metadata: ${recording}`);
+  }
+  return Array.from(metaByGame.values());
+}
+
+function marketOf(message: KalshiWSMessage): string | undefined {
+  const msg = (message as { msg?: { market_ticker?: unknown } }).msg;
+  return typeof msg?.market_ticker === 'string' ? msg.market_ticker : undefined;
+}
+
+/**
+ * Apply a recorded message the way the live socket did. Resync commands cannot
+ * be sent, but the recording already holds the fresh snapshot that followed.
+ */
+function applyRecordedMessage(state: ConnectionState, sequences: SequenceTracker, message: KalshiWSMessage): void {
+  switch (message.type) {
+    case 'ticker':
+      applyTickerUpdate(state, (message as TickerMessage).msg);
+      break;
+    case 'orderbook_snapshot': {
+      const snapshot = message as OrderbookSnapshotMessage;
+      if (snapshot.sid !== undefined && snapshot.seq !== undefined) {
+        sequences.lastSeqBySid.set(snapshot.sid, snapshot.seq);
+        sequences.sidByMarket.set(snapshot.msg.market_ticker, snapshot.sid);
+      }
+      applyOrderbookSnapshot(state, snapshot.msg);
+      state.bookIntegrityByMarket.set(snapshot.msg.market_ticker, 'ok');
+      break;
+    }
+    case 'orderbook_delta': {
+      const delta = message as OrderbookDeltaMessage;
+      const check = checkSequence(sequences, delta.sid, delta.seq);
+      if (check === 'ok' || check === 'untracked') {
+        applyOrderbookDelta(state, delta.msg);
+      } else if (check === 'gap') {
+        sequences.lastSeqBySid.delete(delta.sid!);
+        state.orderbookByMarket.delete(delta.msg.market_ticker);
+        state.bookIntegrityByMarket.set(delta.msg.market_ticker, 'resyncing');
+      }
+      break;
+    }
+    case 'book_resync':
+      state.bookIntegrityByMarket.set((message as BookResyncMessage).msg.market_ticker, 'resyncing');
+      break;
+  }
+}
+
+/**
+ * Drive the stream pipeline from a recording instead of Kalshi. Returns the
+ * same handle as `connectPool`, plus playback controls.
+ */
+export function connectReplay(options: ReplayOptions): ReplayHandle {
+  const { recording, clock, onMessage, onStateUpdate, onError, onConnected, onAdvance, onMeta, onFinished } = options;
+  const state = createConnectionState();
+  const sequences = createSequenceTracker();
+  const marketTickers = new Set(options.marketTickers);
+
+  let speed: ReplaySpeed = options.speed;
+  let paused = speed === 'step';
+  let isClosed = false;
+  let finished = false;
+  let position = 0;
+  let replayTime: number | null = null;
+  // Messages requested by step() that have not been applied yet
+  let credits = 0;
+  let stepWaiters: ((progress: ReplayProgress) => void)[] = [];
+  let wake: (() => void) | null = null;
+  let sleepTimer: NodeJS.Timeout | null = null;
+
+  const getProgress = (): ReplayProgress => ({ recording, speed, paused, finished, position, replayTime });
+
+  const interrupt = () => {
+    if (sleepTimer) {
+      clearTimeout(sleepTimer);
+      sleepTimer = null;
+    }
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+
+  const settleSteps = () => {
+    if (credits > 0 && !finished && !isClosed) return;
+    credits = 0;
+    const waiters = stepWaiters;
+    stepWaiters = [];
+    for (const resolve of waiters) resolve(getProgress());
+  };
+
+  /** Wait until playback may apply the next message; true when it was released by step() */
+  const waitForTurn = async (): Promise<boolean> => {
+    while (paused && credits === 0 && !isClosed) {
+      await new Promise<void>((resolve) => { wake = resolve; });
+    }
+    if (credits > 0) {
+      credits--;
+      return true;
+    }
+    return false;
+  };
+
+  const sleep = (ms: number) => new Promise<void>((resolve) => {
+    wake = resolve;
+    sleepTimer = setTimeout(interrupt, ms);
+  });
+
+  const run = async () => {
+    onConnected?.();
+    let previousTs: number | null = null;
+
+    for await (const line of readRecording(resolveRecording(recording))) {
+      if (isClosed) return;
+
+      if (line.kind === 'meta') {
+        // The leading meta block was loaded up front; later lines are market changes
+        if (previousTs !== null) onMeta?.(line.data);
+        continue;
+      }
+
+      const message = line.data;
+      const market = marketOf(message);
+      if (market && !marketTickers.has(market)) continue;
+
+      const stepped = await waitForTurn();
+      if (isClosed) return;
+      if (!stepped && previousTs !== null && typeof speed === 'number' && line.t > previousTs) {
+        await sleep((line.t - previousTs) / speed);
+        if (isClosed) return;
+        // Paused or stepped during the wait: this message now needs its turn
+        if (paused) await waitForTurn();
+        if (isClosed) return;
+      }
+      previousTs = line.t;
+
+      onAdvance?.(line.t);
+      clock.advanceTo(line.t);
+      applyRecordedMessage(state, sequences, message);
+      addToRawFeed(state, message, line.t);
+      position++;
+      replayTime = line.t;
+      onMessage?.(message);
+      onStateUpdate?.(state);
+      settleSteps();
+    }
+
+    finished = true;
+    settleSteps();
+    onFinished?.(getProgress());
+  };
+
+  run().catch((err) => {
+    if (isClosed) return;
+    finished = true;
+    settleSteps();
+    const message = err instanceof Error ? err.message : String(err);
+    console.error('[Replay] Playback failed:', err);
+    onError?.(`Replay failed: ${message}`, false);
+  });
+
+  return {
+    close: () => {
+      isClosed = true;
+      interrupt();
+      settleSteps();
+    },
+    getState: () => state,
+    getMarketTickers: () => Array.from(marketTickers),
+    getSocketCount: () => 1,
+    // Only markets present in the recording will ever receive data
+    addMarkets: (tickers: string[]) => {
+      const added = Array.from(new Set(tickers)).filter((t) => t && !marketTickers.has(t));
+      for (const ticker of added) marketTickers.add(ticker);
+      return added;
+    },
+    removeMarkets: (tickers: string[]) => {
+      const removed = Array.from(new Set(tickers)).filter((t) => marketTickers.has(t));
+      for (const ticker of removed) {
+        marketTickers.delete(ticker);
+        state.tickersByMarket.delete(ticker);
+        state.orderbookByMarket.delete(ticker);
+        state.bookIntegrityByMarket.delete(ticker);
+      }
+      if (removed.length > 0) onStateUpdate?.(state);
+      return removed;
+    },
+    step: (count = 1) => {
+      if (finished || isClosed) return Promise.resolve(getProgress());
+      paused = true;
+      credits += Math.max(1, Math.floor(count));
+      const done = new Promise<ReplayProgress>((resolve) => stepWaiters.push(resolve));
+      interrupt();
+      return done;
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: (newSpeed?: number) => {
+      if (newSpeed !== undefined) speed = newSpeed;
+      else if (speed === 'step') speed = 1;
+      paused = false;
+      interrupt();
+    },
+    getProgress,
+  };
+}
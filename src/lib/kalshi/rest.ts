@@ -1,12 +1,29 @@
-import { KalshiEvent, KalshiMarket, EventWithMarkets, getRestBaseUrl } from './types';
-import { getRelatedEventTickers, getGroupTypeForEventTicker, parseEventTicker, GroupType } from './relatedSeries';
-import { parseMarketTitle } from './marketParsing';
+import {
+  KalshiEvent,
+  KalshiMarket,
+  KalshiSeries,
+  EventWithMarkets,
+  ResolutionCandidate,
+  ResolutionTrace,
+  getRestBaseUrl,
+} from './types';
+import { kalshiGet, KalshiApiError, isNotFoundError, isTransientError } from './http';
+import { decodeEventWithMarkets, decodeMarkets, decodeSeries } from './decode';
+import {
+  getRelatedEventTickers,
+  getGroupTypeForEventTicker,
+  parseEventTicker,
+  classifySeries,
+  GroupType,
+} from './relatedSeries';
+import { parseMarket, ParseSource } from './marketParsing';
 
 export interface EnrichedMarket extends KalshiMarket {
   event_ticker: string;
   group_type: GroupType;
   line: number | null;
   side: string;
+  parse_source: ParseSource;
 }
 
 export interface ResolvedEventInfo {
@@ -14,6 +31,7 @@ export interface ResolvedEventInfo {
   title: string;
   category?: string;
   marketCount: number;
+  groupType?: GroupType;
 }
 
 export interface RelatedEventsResult {
@@ -22,79 +40,42 @@ export interface RelatedEventsResult {
   resolvedEvents: ResolvedEventInfo[];
   primaryEvent: KalshiEvent | null;
   markets: EnrichedMarket[];
+  resolution: ResolutionTrace;
 }
 
+// Listing limits; a game's series only has a handful of open events, so the
+// page cap just guards against a cursor that never runs out
+const EVENTS_PAGE_LIMIT = 200;
+const MAX_LIST_PAGES = 10;
+const SERIES_CACHE_TTL_MS = 10 * 60 * 1000;
+const EVENTS_CACHE_TTL_MS = 30 * 1000;
+const DISCOVERY_CONCURRENCY = 4;
+
+let seriesCache: { category: string; fetchedAt: number; series: KalshiSeries[] } | null = null;
+// Keyed by series ticker; holds the in-flight request too, so a watchlist
+// resolving several games of one league shares a single scan
+const eventsCache = new Map<string, { fetchedAt: number; events: Promise<EventWithMarkets[]> }>();
+
 export async function fetchEventWithMarkets(eventTicker: string): Promise<EventWithMarkets> {
-  const baseUrl = getRestBaseUrl();
   const normalizedTicker = eventTicker.trim().toUpperCase();
-  
-  const url = `${baseUrl}/trade-api/v2/events/${encodeURIComponent(normalizedTicker)}?with_nested_markets=true`;
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-    },
-  });
+  const path = `/events/${encodeURIComponent(normalizedTicker)}?with_nested_markets=true`;
 
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error(`Event not found: ${eventTicker}`);
+  let data: unknown;
+  try {
+    data = await kalshiGet(path);
+  } catch (err) {
+    if (isNotFoundError(err)) {
+      throw new KalshiApiError('not_found', `Event not found: ${eventTicker}`, path, 404);
     }
-    const text = await response.text();
-    throw new Error(`Failed to fetch event: ${response.status} - ${text}`);
+    throw err;
   }
 
-  const data = await response.json();
-  
-  const event: KalshiEvent = {
-    event_ticker: data.event?.event_ticker || normalizedTicker,
-    title: data.event?.title || 'Unknown Event',
-    subtitle: data.event?.subtitle,
-    category: data.event?.category,
-    mutually_exclusive: data.event?.mutually_exclusive,
-  };
-
-  let markets: KalshiMarket[] = [];
-
-  if (data.event?.markets && Array.isArray(data.event.markets)) {
-    markets = data.event.markets.map((m: Record<string, unknown>) => ({
-      ticker: (m.ticker as string) || (m.market_ticker as string) || '',
-      market_ticker: (m.ticker as string) || (m.market_ticker as string) || '',
-      title: (m.title as string) || '',
-      subtitle: m.subtitle as string | undefined,
-      status: m.status as string | undefined,
-      yes_bid: m.yes_bid as number | undefined,
-      yes_ask: m.yes_ask as number | undefined,
-      last_price: m.last_price as number | undefined,
-      volume: m.volume as number | undefined,
-      volume_24h: m.volume_24h as number | undefined,
-      open_interest: m.open_interest as number | undefined,
-      result: m.result as string | undefined,
-    }));
-  } else if (data.markets && Array.isArray(data.markets)) {
-    markets = data.markets.map((m: Record<string, unknown>) => ({
-      ticker: (m.ticker as string) || (m.market_ticker as string) || '',
-      market_ticker: (m.ticker as string) || (m.market_ticker as string) || '',
-      title: (m.title as string) || '',
-      subtitle: m.subtitle as string | undefined,
-      status: m.status as string | undefined,
-      yes_bid: m.yes_bid as number | undefined,
-      yes_ask: m.yes_ask as number | undefined,
-      last_price: m.last_price as number | undefined,
-      volume: m.volume as number | undefined,
-      volume_24h: m.volume_24h as number | undefined,
-      open_interest: m.open_interest as number | undefined,
-      result: m.result as string | undefined,
-    }));
-  }
+  const { event, markets } = decodeEventWithMarkets(data, normalizedTicker);
 
   if (markets.length === 0) {
     throw new Error(`No markets found for event: ${eventTicker}`);
   }
 
-  event.markets = markets;
-
   return { event, markets };
 }
 
@@ -104,107 +85,264 @@ export function extractMarketTickers(markets: KalshiMarket[]): string[] {
     .filter(t => t.length > 0);
 }
 
-async function fetchSingleEvent(eventTicker: string): Promise<{ event: KalshiEvent; markets: KalshiMarket[] } | null> {
-  const baseUrl = getRestBaseUrl();
+/**
+ * One event with its markets, or null when Kalshi has no such event. Transient
+ * failures (429/5xx/timeouts) are thrown after retries so they are not
+ * mistaken for a missing series.
+ */
+async function fetchSingleEvent(eventTicker: string): Promise<EventWithMarkets | null> {
   const normalizedTicker = eventTicker.trim().toUpperCase();
-  
-  const url = `${baseUrl}/trade-api/v2/events/${encodeURIComponent(normalizedTicker)}?with_nested_markets=true`;
-  
-  try {
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        return null;
-      }
-      console.warn(`Failed to fetch event ${eventTicker}: ${response.status}`);
+  try {
+    const data = await kalshiGet(`/events/${encodeURIComponent(normalizedTicker)}?with_nested_markets=true`);
+    return decodeEventWithMarkets(data, normalizedTicker);
+  } catch (err) {
+    if (isNotFoundError(err)) {
       return null;
     }
+    throw err;
+  }
+}
 
-    const data = await response.json();
-    
-    const event: KalshiEvent = {
-      event_ticker: data.event?.event_ticker || normalizedTicker,
-      title: data.event?.title || 'Unknown Event',
-      subtitle: data.event?.subtitle,
-      category: data.event?.category,
-      mutually_exclusive: data.event?.mutually_exclusive,
+/**
+ * Fetch individual markets (e.g. alt-lines listed mid-game) and tag them the
+ * same way fetchRelatedEvents does, using the series of their event ticker.
+ */
+export async function fetchEnrichedMarkets(marketTickers: string[]): Promise<EnrichedMarket[]> {
+  if (marketTickers.length === 0) return [];
+
+  const tickers = marketTickers.map((t) => t.trim().toUpperCase()).join(',');
+  const data = (await kalshiGet(`/markets?tickers=${encodeURIComponent(tickers)}`)) as { markets?: unknown };
+
+  return decodeMarkets(data.markets).map((market) => {
+    const eventTicker = market.event_ticker || '';
+    const groupType = getGroupTypeForEventTicker(eventTicker);
+    const parsed = parseMarket(market.ticker, market.title, groupType, market);
+
+    return {
+      ...market,
+      event_ticker: eventTicker,
+      group_type: groupType,
+      line: parsed.line,
+      side: parsed.side,
+      parse_source: parsed.parseSource,
     };
+  });
+}
 
-    let markets: KalshiMarket[] = [];
-
-    if (data.event?.markets && Array.isArray(data.event.markets)) {
-      markets = data.event.markets.map((m: Record<string, unknown>) => ({
-        ticker: (m.ticker as string) || (m.market_ticker as string) || '',
-        market_ticker: (m.ticker as string) || (m.market_ticker as string) || '',
-        title: (m.title as string) || '',
-        subtitle: m.subtitle as string | undefined,
-        status: m.status as string | undefined,
-        yes_bid: m.yes_bid as number | undefined,
-        yes_ask: m.yes_ask as number | undefined,
-        last_price: m.last_price as number | undefined,
-        volume: m.volume as number | undefined,
-        volume_24h: m.volume_24h as number | undefined,
-        open_interest: m.open_interest as number | undefined,
-        result: m.result as string | undefined,
-      }));
-    } else if (data.markets && Array.isArray(data.markets)) {
-      markets = data.markets.map((m: Record<string, unknown>) => ({
-        ticker: (m.ticker as string) || (m.market_ticker as string) || '',
-        market_ticker: (m.ticker as string) || (m.market_ticker as string) || '',
-        title: (m.title as string) || '',
-        subtitle: m.subtitle as string | undefined,
-        status: m.status as string | undefined,
-        yes_bid: m.yes_bid as number | undefined,
-        yes_ask: m.yes_ask as number | undefined,
-        last_price: m.last_price as number | undefined,
-        volume: m.volume as number | undefined,
-        volume_24h: m.volume_24h as number | undefined,
-        open_interest: m.open_interest as number | undefined,
-        result: m.result as string | undefined,
-      }));
+/**
+ * GET a Kalshi list endpoint, following `cursor` until it comes back empty.
+ * `path` already carries its query string; the cursor is appended per page.
+ */
+async function fetchAllPages(path: string, key: string): Promise<unknown[]> {
+  const items: unknown[] = [];
+  let cursor = '';
+
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const separator = path.includes('?') ? '&' : '?';
+    const data = (await kalshiGet(
+      `${path}${cursor ? `${separator}cursor=${encodeURIComponent(cursor)}` : ''}`
+    )) as Record<string, unknown>;
+
+    if (Array.isArray(data[key])) {
+      items.push(...data[key]);
     }
 
-    event.markets = markets;
-    return { event, markets };
-  } catch (err) {
-    console.warn(`Error fetching event ${eventTicker}:`, err);
-    return null;
+    cursor = typeof data.cursor === 'string' ? data.cursor : '';
+    if (!cursor) break;
   }
+
+  return items;
+}
+
+/** Every series in a category, cached briefly since the list rarely changes */
+export async function fetchSeriesList(category = 'Sports'): Promise<KalshiSeries[]> {
+  if (seriesCache && seriesCache.category === category && Date.now() - seriesCache.fetchedAt < SERIES_CACHE_TTL_MS) {
+    return seriesCache.series;
+  }
+
+  const raw = await fetchAllPages(`/series?category=${encodeURIComponent(category)}`, 'series');
+  const series = raw.map(decodeSeries).filter((s) => s.ticker.length > 0);
+
+  seriesCache = { category, fetchedAt: Date.now(), series };
+  return series;
+}
+
+/** Open events in one series, with their markets nested; cached briefly per series */
+export async function fetchEventsForSeries(seriesTicker: string): Promise<EventWithMarkets[]> {
+  const key = `${getRestBaseUrl()}|${seriesTicker.toUpperCase()}`;
+  const cached = eventsCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < EVENTS_CACHE_TTL_MS) {
+    return cached.events;
+  }
+
+  const events = fetchAllPages(
+    `/events?series_ticker=${encodeURIComponent(seriesTicker.toUpperCase())}&status=open&with_nested_markets=true&limit=${EVENTS_PAGE_LIMIT}`,
+    'events'
+  ).then((raw) => raw.map((e) => decodeEventWithMarkets(e)));
+
+  eventsCache.set(key, { fetchedAt: Date.now(), events });
+  // Failures are not cached, so the next resolve retries the series
+  events.catch(() => {
+    if (eventsCache.get(key)?.events === events) eventsCache.delete(key);
+  });
+  return events;
+}
+
+function isDiscoveryEnabled(): boolean {
+  return process.env.KALSHI_SERIES_DISCOVERY !== 'off';
+}
+
+interface FoundEvent extends EventWithMarkets {
+  groupType: GroupType;
+}
+
+/**
+ * Find every open event for the game by listing the league's series and
+ * their events, so series missing from the prefix table are still picked up.
+ */
+async function discoverGameEvents(inputTicker: string, trace: ResolutionTrace, errors: unknown[]): Promise<FoundEvent[]> {
+  const { gameId, groupKey } = parseEventTicker(inputTicker);
+  if (!gameId || !groupKey) {
+    throw new Error(gameId ? 'unknown league' : 'ticker has no game id');
+  }
+
+  const allSeries = await fetchSeriesList();
+  const leagueSeries = allSeries.filter((s) => s.ticker.toLowerCase().startsWith(groupKey));
+  trace.seriesScanned = leagueSeries.length;
+
+  const found: FoundEvent[] = [];
+
+  for (let i = 0; i < leagueSeries.length; i += DISCOVERY_CONCURRENCY) {
+    const batch = leagueSeries.slice(i, i + DISCOVERY_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map((s) => fetchEventsForSeries(s.ticker)));
+
+    results.forEach((result, j) => {
+      const series = batch[j];
+      const groupType = classifySeries(series.ticker, series.title);
+
+      if (result.status === 'rejected') {
+        errors.push(result.reason);
+        trace.candidates.push({
+          source: 'series_listing',
+          seriesTicker: series.ticker,
+          status: 'error',
+          groupType,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+        return;
+      }
+
+      const matches = result.value.filter(
+        ({ event }) => parseEventTicker(event.event_ticker).gameId === gameId
+      );
+
+      if (matches.length === 0) {
+        trace.candidates.push({ source: 'series_listing', seriesTicker: series.ticker, status: 'not_found', groupType });
+        return;
+      }
+
+      for (const match of matches) {
+        trace.candidates.push({
+          source: 'series_listing',
+          seriesTicker: series.ticker,
+          eventTicker: match.event.event_ticker,
+          status: 'found',
+          groupType,
+          marketCount: match.markets.length,
+        });
+        found.push({ ...match, groupType });
+      }
+    });
+  }
+
+  return found;
+}
+
+/** The original string-substitution lookup, kept for when discovery is off or fails */
+async function resolveByPrefix(inputTicker: string, trace: ResolutionTrace, errors: unknown[]): Promise<FoundEvent[]> {
+  const relatedTickers = getRelatedEventTickers(inputTicker);
+  console.log(`[RelatedEvents] Fetching prefix candidates:`, relatedTickers);
+
+  const results = await Promise.allSettled(relatedTickers.map((ticker) => fetchSingleEvent(ticker)));
+  const found: FoundEvent[] = [];
+
+  results.forEach((settled, i) => {
+    const candidate: ResolutionCandidate = {
+      source: 'prefix',
+      eventTicker: relatedTickers[i].toUpperCase(),
+      status: 'not_found',
+      groupType: getGroupTypeForEventTicker(relatedTickers[i]),
+    };
+    if (settled.status === 'rejected') {
+      candidate.status = 'error';
+      candidate.error = settled.reason instanceof Error ? settled.reason.message : String(settled.reason);
+      trace.candidates.push(candidate);
+      errors.push(settled.reason);
+      return;
+    }
+    const result = settled.value;
+    if (result) {
+      candidate.status = 'found';
+      candidate.marketCount = result.markets.length;
+      found.push({ ...result, groupType: candidate.groupType ?? 'other' });
+    }
+    trace.candidates.push(candidate);
+  });
+
+  return found;
 }
 
 export async function fetchRelatedEvents(inputTicker: string): Promise<RelatedEventsResult> {
   const { gameId } = parseEventTicker(inputTicker);
-  const relatedTickers = getRelatedEventTickers(inputTicker);
   
   console.log(`[RelatedEvents] Input: ${inputTicker}, GameId: ${gameId}`);
-  console.log(`[RelatedEvents] Fetching candidates:`, relatedTickers);
   
-  const fetchPromises = relatedTickers.map((ticker) => fetchSingleEvent(ticker));
-  const results = await Promise.all(fetchPromises);
+  const resolution: ResolutionTrace = { method: 'series_listing', seriesScanned: 0, candidates: [] };
+  const errors: unknown[] = [];
+  let results: FoundEvent[] = [];
+
+  if (isDiscoveryEnabled()) {
+    try {
+      results = await discoverGameEvents(inputTicker, resolution, errors);
+      if (results.length === 0) {
+        resolution.fallbackReason = `no open events for ${gameId} in ${resolution.seriesScanned} series`;
+      }
+    } catch (err) {
+      errors.push(err);
+      resolution.fallbackReason = err instanceof Error ? err.message : String(err);
+    }
+  } else {
+    resolution.fallbackReason = 'series discovery disabled';
+  }
+
+  if (results.length === 0) {
+    console.log(`[RelatedEvents] Falling back to prefix table: ${resolution.fallbackReason}`);
+    resolution.method = 'prefix_fallback';
+    results = await resolveByPrefix(inputTicker, resolution, errors);
+  }
+
+  // The game-winner event (or the one asked for) leads, matching the prefix table's order
+  const inputUpper = inputTicker.trim().toUpperCase();
+  const groupOrder: GroupType[] = ['winner', 'spread', 'total', 'other'];
+  results.sort((a, b) =>
+    Number(b.event.event_ticker.toUpperCase() === inputUpper) - Number(a.event.event_ticker.toUpperCase() === inputUpper)
+    || groupOrder.indexOf(a.groupType) - groupOrder.indexOf(b.groupType)
+  );
   
   const resolvedEvents: ResolvedEventInfo[] = [];
   const allMarkets: EnrichedMarket[] = [];
   let primaryEvent: KalshiEvent | null = null;
   
-  for (let i = 0; i < results.length; i++) {
-    const result = results[i];
-    const eventTicker = relatedTickers[i];
-    
-    if (!result) continue;
-    
-    const groupType = getGroupTypeForEventTicker(eventTicker);
+  for (const result of results) {
+    const { groupType } = result;
     
     resolvedEvents.push({
       eventTicker: result.event.event_ticker,
       title: result.event.title,
       category: result.event.category,
       marketCount: result.markets.length,
+      groupType,
     });
     
     if (!primaryEvent) {
@@ -212,7 +350,7 @@ export async function fetchRelatedEvents(inputTicker: string): Promise<RelatedEv
     }
     
     for (const market of result.markets) {
-      const parsed = parseMarketTitle(market.title, groupType);
+      const parsed = parseMarket(market.ticker, market.title, groupType, market);
       
       allMarkets.push({
         ...market,
@@ -220,6 +358,7 @@ export async function fetchRelatedEvents(inputTicker: string): Promise<RelatedEv
         group_type: groupType,
         line: parsed.line,
         side: parsed.side,
+        parse_source: parsed.parseSource,
       });
     }
   }
@@ -227,7 +366,16 @@ export async function fetchRelatedEvents(inputTicker: string): Promise<RelatedEv
   console.log(`[RelatedEvents] Resolved ${resolvedEvents.length} events with ${allMarkets.length} total markets`);
   
   if (allMarkets.length === 0) {
-    throw new Error(`No markets found for event: ${inputTicker} (checked: ${relatedTickers.join(', ')})`);
+    // A rate limit or outage is not the same as the game having no markets
+    const transient = errors.find(isTransientError);
+    if (transient) throw transient;
+    const checked = resolution.candidates.map((c) => c.eventTicker ?? c.seriesTicker).join(', ');
+    throw new KalshiApiError(
+      'not_found',
+      `No markets found for event: ${inputTicker} (checked: ${checked})`,
+      `/events/${inputTicker.toUpperCase()}`,
+      404
+    );
   }
   
   return {
@@ -236,5 +384,6 @@ export async function fetchRelatedEvents(inputTicker: string): Promise<RelatedEv
     resolvedEvents,
     primaryEvent,
     markets: allMarkets,
+    resolution,
   };
 }
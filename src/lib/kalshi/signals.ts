@@ -1,7 +1,10 @@
 import { MarketStats } from './stats';
 import { GroupType } from './relatedSeries';
 import { LADDER_CONFIG, getExpectedDirection, MonotonicDirection, LadderKeyComponents, buildLadderKey } from './ladderConfig';
-import { parseMarketForLadder } from './marketParsing';
+import { parseMarketForLadder, ParseSource, MarketStrikeFields } from './marketParsing';
+import { Clock, systemClock } from './clock';
+import { OrderBook } from './orderbook';
+import { computeExitCost, getExitClipContracts } from './fills';
 
 export type SignalType =
   | 'MONO_VIOLATION'
@@ -11,7 +14,8 @@ export type SignalType =
   | 'STALE_QUOTE'
   | 'JUMP'
   | 'LOW_LIQUIDITY'
-  | 'WIDE_SPREAD';
+  | 'WIDE_SPREAD'
+  | 'CROSSED_BOOK';
 
 export type SignalConfidence = 'low' | 'medium' | 'high';
 
@@ -53,7 +57,9 @@ export interface LadderPoint {
   is_primary?: boolean;
   is_excluded?: boolean;
   exclude_reason?: string;
-  parse_source?: 'ticker' | 'title' | 'unknown';
+  parse_source?: ParseSource;
+  /** Strike, ticker and title disagreed on this market's line or side */
+  parse_disagreement?: string;
 }
 
 export interface LadderDiagnostics {
@@ -61,6 +67,7 @@ export interface LadderDiagnostics {
   parsed_markets: number;
   unparsed_markets: number;
   duplicates_dropped: number;
+  parse_disagreements: number;
   excluded_by_liquidity: number;
   excluded_by_spread: number;
   excluded_by_staleness: number;
@@ -100,14 +107,15 @@ export interface EnrichedMarketStats extends MarketStats {
   staleness_score?: number;
   jump_score_5s?: number;
   jump_score_30s?: number;
+  /** Cents below mid to exit a `KALSHI_EXIT_CLIP` clip on the worse side, walking the book */
   exitability_cents?: number;
   signals?: SignalType[];
   ladder_key?: string;
-  parse_source?: 'ticker' | 'title' | 'unknown';
+  parse_source?: ParseSource;
   is_parsed?: boolean;
 }
 
-export interface MarketMeta {
+export interface MarketMeta extends MarketStrikeFields {
   ticker: string;
   title?: string;
   group_type?: GroupType;
@@ -115,7 +123,8 @@ export interface MarketMeta {
   side?: string;
   event_ticker?: string;
   ladder_key?: string;
-  parse_source?: 'ticker' | 'title' | 'unknown';
+  parse_source?: ParseSource;
+  parse_disagreement?: string;
   is_parsed?: boolean;
 }
 
@@ -129,6 +138,44 @@ interface PendingSignal {
 const WIDE_SPREAD_THRESHOLD_CENTS = 8;
 const LOW_LIQUIDITY_THRESHOLD = 50;
 
+/**
+ * Pool Adjacent Violators (PAV) algorithm for isotonic regression
+ * Supports both non-increasing and non-decreasing constraints
+ * A pool's mean is weighted by every point it holds, however many merges built it
+ */
+export function isotonicRegression(values: number[], direction: MonotonicDirection): number[] {
+  if (values.length === 0) return [];
+
+  // For non-decreasing, we can negate, run non-increasing PAV, then negate back
+  const input = direction === 'nondecreasing'
+    ? values.map(v => -v)
+    : values;
+
+  // PAV for non-increasing: each block is a run of pooled points; a new value
+  // that rises above the block before it merges with it, and so on backwards
+  const blocks: { sum: number; weight: number }[] = [];
+  for (const value of input) {
+    blocks.push({ sum: value, weight: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sum / prev.weight >= last.sum / last.weight) break;
+      prev.sum += last.sum;
+      prev.weight += last.weight;
+      blocks.pop();
+    }
+  }
+
+  const result: number[] = [];
+  for (const block of blocks) {
+    const mean = block.sum / block.weight;
+    for (let k = 0; k < block.weight; k++) result.push(mean);
+  }
+
+  // For non-decreasing, negate back; clip to [0, 1]
+  return result.map(v => Math.max(0, Math.min(1, direction === 'nondecreasing' ? -v : v)));
+}
+
 export class SignalsEngine {
   private marketMeta: Map<string, MarketMeta> = new Map();
   private ladders: Map<string, LadderState> = new Map();
@@ -138,6 +185,8 @@ export class SignalsEngine {
   private midHistory: Map<string, { ts: number; mid: number }[]> = new Map();
   private gameId: string = '';
 
+  constructor(private readonly clock: Clock = systemClock) {}
+
   setGameId(gameId: string): void {
     this.gameId = gameId;
   }
@@ -151,7 +200,8 @@ export class SignalsEngine {
           m.ticker,
           m.title || '',
           m.group_type,
-          this.gameId
+          this.gameId,
+          m
         );
         this.marketMeta.set(m.ticker, {
           ...m,
@@ -159,6 +209,7 @@ export class SignalsEngine {
           side: parsed.side,
           ladder_key: parsed.ladderKey ?? undefined,
           parse_source: parsed.parseSource,
+          parse_disagreement: parsed.disagreement,
           is_parsed: parsed.isParsed,
         });
       } else {
@@ -179,11 +230,19 @@ export class SignalsEngine {
     }
   }
 
+  /** Prepend backfilled mids so jump scores have a lookback on the first tick */
+  seedMidHistory(ticker: string, mids: { ts: number; mid: number }[]): void {
+    const history = [...mids, ...(this.midHistory.get(ticker) ?? [])];
+    this.midHistory.set(ticker, history.slice(-100));
+  }
+
   computeEnrichedStats(
     baseStats: Record<string, MarketStats>,
-    now: number
+    now: number = this.clock.now(),
+    books?: Map<string, OrderBook>
   ): Record<string, EnrichedMarketStats> {
     const result: Record<string, EnrichedMarketStats> = {};
+    const exitClip = getExitClipContracts();
 
     for (const [ticker, stats] of Object.entries(baseStats)) {
       const meta = this.marketMeta.get(ticker);
@@ -202,7 +261,7 @@ export class SignalsEngine {
       enriched.jump_score_5s = jumpScores.jump5s;
       enriched.jump_score_30s = jumpScores.jump30s;
 
-      enriched.exitability_cents = this.computeExitability(stats);
+      enriched.exitability_cents = computeExitCost(books?.get(ticker), exitClip);
 
       if (stats.mid !== undefined) {
         this.recordMid(ticker, stats.mid, now);
@@ -226,6 +285,10 @@ export class SignalsEngine {
         signals.push('WIDE_SPREAD');
       }
 
+      if (stats.crossed) {
+        signals.push('CROSSED_BOOK');
+      }
+
       enriched.signals = signals;
       result[ticker] = enriched;
     }
@@ -287,23 +350,10 @@ export class SignalsEngine {
     return { jump5s, jump30s };
   }
 
-  private computeExitability(stats: MarketStats): number {
-    const bidSize = stats.bid_size_top ?? 0;
-    const askSize = stats.ask_size_top ?? 0;
-    const spread = stats.spread ?? 0;
-
-    if (bidSize === 0 && askSize === 0) return 99;
-
-    const avgTopSize = (bidSize + askSize) / 2;
-    const slippage = spread / 2 + (100 / Math.max(avgTopSize, 1));
-
-    return Math.min(slippage, 50);
-  }
-
   computeLadders(
     enrichedStats: Record<string, EnrichedMarketStats>,
     gameId: string,
-    now: number
+    now: number = this.clock.now()
   ): LadderState[] {
     // Group markets by ladder_key
     const ladderGroups = new Map<string, EnrichedMarketStats[]>();
@@ -381,6 +431,7 @@ export class SignalsEngine {
       parsed_markets: 0,
       unparsed_markets: 0,
       duplicates_dropped: 0,
+      parse_disagreements: 0,
       excluded_by_liquidity: 0,
       excluded_by_spread: 0,
       excluded_by_staleness: 0,
@@ -421,6 +472,9 @@ export class SignalsEngine {
         } else {
           diagnostics.unparsed_markets++;
         }
+        if (meta?.parse_disagreement) {
+          diagnostics.parse_disagreements++;
+        }
 
         return {
           line: m.line!,
@@ -438,6 +492,7 @@ export class SignalsEngine {
           volume: m.volume,
           spread_cents: spread,
           parse_source: meta?.parse_source,
+          parse_disagreement: meta?.parse_disagreement,
           is_excluded: isExcluded,
           exclude_reason: excludeReason,
           is_primary: true,
@@ -514,7 +569,7 @@ export class SignalsEngine {
    * Detect cross-ladder arbitrage opportunities (e.g. Spread vs Spread, Over vs Under)
    * Condition: P(A) + P(B) > 1 (implied probability > 100%)
    */
-  detectCrossLadderArb(ladders: LadderState[], now: number): SignalItem[] {
+  detectCrossLadderArb(ladders: LadderState[], now: number = this.clock.now()): SignalItem[] {
     const arbSignals: SignalItem[] = [];
     const processedPairs = new Set<string>();
 
@@ -664,7 +719,7 @@ export class SignalsEngine {
     if (points.length < 3) return { count: 0, maxCents: 0 };
 
     const midProbs = points.map(p => p.mid_prob);
-    const fitted = this.isotonicRegression(midProbs, direction);
+    const fitted = isotonicRegression(midProbs, direction);
 
     let count = 0;
     let maxCents = 0;
@@ -707,64 +762,6 @@ export class SignalsEngine {
     return { count, maxCents };
   }
 
-  /**
-   * Pool Adjacent Violators (PAV) algorithm for isotonic regression
-   * Supports both non-increasing and non-decreasing constraints
-   */
-  private isotonicRegression(values: number[], direction: MonotonicDirection): number[] {
-    const n = values.length;
-    if (n === 0) return [];
-
-    // For non-decreasing, we can negate, run non-increasing PAV, then negate back
-    const input = direction === 'nondecreasing'
-      ? values.map(v => -v)
-      : [...values];
-
-    // PAV for non-increasing
-    const result = [...input];
-    const weights = new Array(n).fill(1);
-
-    let i = 0;
-    while (i < n - 1) {
-      if (result[i] < result[i + 1]) {
-        // Violation: pool i and i+1
-        const sumW = weights[i] + weights[i + 1];
-        const avg = (result[i] * weights[i] + result[i + 1] * weights[i + 1]) / sumW;
-        result[i] = avg;
-        result[i + 1] = avg;
-        weights[i] = sumW;
-        weights[i + 1] = sumW;
-
-        // Check backwards for new violations
-        while (i > 0 && result[i - 1] < result[i]) {
-          const sw = weights[i - 1] + weights[i];
-          const av = (result[i - 1] * weights[i - 1] + result[i] * weights[i]) / sw;
-          result[i - 1] = av;
-          result[i] = av;
-          weights[i - 1] = sw;
-          weights[i] = sw;
-          i--;
-        }
-      }
-      i++;
-    }
-
-    // Propagate pooled values
-    for (let j = 1; j < n; j++) {
-      if (result[j] > result[j - 1]) {
-        result[j] = result[j - 1];
-      }
-    }
-
-    // For non-decreasing, negate back and clip to [0, 1]
-    if (direction === 'nondecreasing') {
-      return result.map(v => Math.max(0, Math.min(1, -v)));
-    }
-
-    // Clip to [0, 1]
-    return result.map(v => Math.max(0, Math.min(1, v)));
-  }
-
   /**
    * Handle signal persistence - only emit after PERSIST_MS, respect cooldown
    */
@@ -880,7 +877,7 @@ export class SignalsEngine {
   }
 
   clearOldSignals(maxAgeMs: number = 60000): void {
-    const now = Date.now();
+    const now = this.clock.now();
     for (const [id, signal] of this.activeSignals) {
       if (now - signal.ts > maxAgeMs) {
         this.activeSignals.delete(id);
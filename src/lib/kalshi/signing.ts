@@ -7,39 +7,212 @@ export interface KalshiAuthHeaders {
   'KALSHI-ACCESS-SIGNATURE': string;
 }
 
-function loadPrivateKey(): string | null {
+// Kalshi issues 2048-bit RSA keys; anything smaller is a wrong or test key
+const MIN_RSA_MODULUS_BITS = 2048;
+
+export type CredentialStatusCode =
+  | 'ok'
+  | 'missing_access_key'
+  | 'missing_private_key'
+  | 'unreadable_key_file'
+  | 'missing_passphrase'
+  | 'bad_passphrase'
+  | 'invalid_key'
+  | 'unsupported_key_type'
+  | 'key_too_small';
+
+/**
+ * What the server knows about its Kalshi credentials. Safe to send to the
+ * browser: the access key is masked and no key material is included.
+ */
+export interface CredentialStatus {
+  /** Requests can be signed */
+  usable: boolean;
+  code: CredentialStatusCode;
+  message: string;
+  /** Access key with all but the last four characters masked */
+  accessKey?: string;
+  keySource?: 'env' | 'file';
+  /** PEM container: `BEGIN RSA PRIVATE KEY` is PKCS#1, `BEGIN [ENCRYPTED] PRIVATE KEY` is PKCS#8 */
+  keyFormat?: 'pkcs1' | 'pkcs8';
+  encrypted?: boolean;
+  keyType?: string;
+  modulusBits?: number;
+}
+
+interface LoadedCredentials {
+  // Env values the entry was built from; a change in any of them reloads
+  fingerprint: string;
+  status: CredentialStatus;
+  accessKey: string | null;
+  key: crypto.KeyObject | null;
+  reportedSignError: boolean;
+}
+
+let loaded: LoadedCredentials | null = null;
+
+export function maskKey(key: string | undefined): string | undefined {
+  if (!key) return undefined;
+  return key.length <= 4 ? '****' : `${'*'.repeat(key.length - 4)}${key.slice(-4)}`;
+}
+
+function pemFormat(pem: string): { keyFormat?: 'pkcs1' | 'pkcs8'; encrypted: boolean } {
+  if (pem.includes('BEGIN ENCRYPTED PRIVATE KEY')) return { keyFormat: 'pkcs8', encrypted: true };
+  if (pem.includes('BEGIN PRIVATE KEY')) return { keyFormat: 'pkcs8', encrypted: false };
+  if (pem.includes('BEGIN RSA PRIVATE KEY')) {
+    // Legacy OpenSSL encryption keeps the PKCS#1 label and adds a Proc-Type header
+    return { keyFormat: 'pkcs1', encrypted: /Proc-Type:\s*4,ENCRYPTED/.test(pem) };
+  }
+  return { encrypted: false };
+}
+
+function readPem(): { pem: string | null; source?: 'env' | 'file'; error?: string } {
   const pemString = process.env.KALSHI_PRIVATE_KEY_PEM;
   if (pemString) {
-    return pemString.replace(/\\n/g, '\n');
+    return { pem: pemString.replace(/\\n/g, '\n'), source: 'env' };
   }
 
   const pemPath = process.env.KALSHI_PRIVATE_KEY_PATH;
   if (pemPath) {
     try {
-      return fs.readFileSync(pemPath, 'utf-8');
+      return { pem: fs.readFileSync(pemPath, 'utf-8'), source: 'file' };
     } catch (err) {
-      console.error('Failed to read private key from path:', err);
-      return null;
+      const reason = err instanceof Error ? err.message : String(err);
+      return { pem: null, source: 'file', error: `Could not read private key from ${pemPath} (${reason})` };
     }
   }
 
-  return null;
+  return { pem: null };
+}
+
+/** Parse and validate the configured key; never throws */
+function loadCredentials(): Omit<LoadedCredentials, 'fingerprint' | 'reportedSignError'> {
+  const accessKey = process.env.KALSHI_ACCESS_KEY || null;
+  const base = { accessKey: maskKey(accessKey ?? undefined) };
+  const { pem, source, error } = readPem();
+
+  if (!pem) {
+    const status: CredentialStatus = error
+      ? { ...base, usable: false, code: 'unreadable_key_file', message: error, keySource: source }
+      : { ...base, usable: false, code: 'missing_private_key', message: 'KALSHI_PRIVATE_KEY_PEM or KALSHI_PRIVATE_KEY_PATH is not set' };
+    return { status, accessKey, key: null };
+  }
+
+  const format = pemFormat(pem);
+  const described = { ...base, keySource: source, ...format };
+  const passphrase = process.env.KALSHI_PRIVATE_KEY_PASSPHRASE || undefined;
+
+  let key: crypto.KeyObject;
+  try {
+    key = crypto.createPrivateKey({ key: pem, format: 'pem', passphrase });
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    const reason = err instanceof Error ? err.message : String(err);
+    if (format.encrypted && !passphrase) {
+      return {
+        status: { ...described, usable: false, code: 'missing_passphrase', message: 'Private key is encrypted; set KALSHI_PRIVATE_KEY_PASSPHRASE' },
+        accessKey,
+        key: null,
+      };
+    }
+    if (format.encrypted || code === 'ERR_OSSL_BAD_DECRYPT') {
+      return {
+        status: { ...described, usable: false, code: 'bad_passphrase', message: 'Could not decrypt the private key; check KALSHI_PRIVATE_KEY_PASSPHRASE' },
+        accessKey,
+        key: null,
+      };
+    }
+    return {
+      status: { ...described, usable: false, code: 'invalid_key', message: `Private key is not a valid PEM key (${reason})` },
+      accessKey,
+      key: null,
+    };
+  }
+
+  const keyType = key.asymmetricKeyType ?? 'unknown';
+  const modulusBits = key.asymmetricKeyDetails?.modulusLength;
+  const keyDetails = { ...described, keyType, modulusBits };
+
+  if (keyType !== 'rsa' && keyType !== 'rsa-pss') {
+    return {
+      status: { ...keyDetails, usable: false, code: 'unsupported_key_type', message: `Expected an RSA private key, got ${keyType}` },
+      accessKey,
+      key: null,
+    };
+  }
+  if (modulusBits !== undefined && modulusBits < MIN_RSA_MODULUS_BITS) {
+    return {
+      status: { ...keyDetails, usable: false, code: 'key_too_small', message: `RSA key is ${modulusBits} bits; Kalshi keys are at least ${MIN_RSA_MODULUS_BITS}` },
+      accessKey,
+      key: null,
+    };
+  }
+  if (!accessKey) {
+    return {
+      status: { ...keyDetails, usable: false, code: 'missing_access_key', message: 'KALSHI_ACCESS_KEY is not set' },
+      accessKey,
+      key,
+    };
+  }
+
+  return {
+    status: { ...keyDetails, usable: true, code: 'ok', message: `Signing with ${modulusBits ?? '?'}-bit RSA key` },
+    accessKey,
+    key,
+  };
+}
+
+/**
+ * Parsed credentials, rebuilt only when the credential env vars change. A key
+ * file is read once; replacing it on disk needs a restart.
+ */
+function getLoadedCredentials(): LoadedCredentials {
+  const fingerprint = [
+    process.env.KALSHI_ACCESS_KEY,
+    process.env.KALSHI_PRIVATE_KEY_PEM,
+    process.env.KALSHI_PRIVATE_KEY_PATH,
+    process.env.KALSHI_PRIVATE_KEY_PASSPHRASE,
+  ].map((v) => v ?? '').join('\u0000');
+
+  if (loaded?.fingerprint === fingerprint) {
+    return loaded;
+  }
+
+  loaded = { ...loadCredentials(), fingerprint, reportedSignError: false };
+
+  const { status } = loaded;
+  const configured = status.code !== 'missing_private_key' || !!process.env.KALSHI_ACCESS_KEY;
+  if (status.usable) {
+    console.log(`[Auth] ${status.message} (${status.keyFormat ?? 'pem'}${status.encrypted ? ', encrypted' : ''}, from ${status.keySource})`);
+  } else if (configured) {
+    // Partial or broken credentials are a misconfiguration; none at all is public mode
+    console.error(`[Auth] Credentials unusable, requests will not be signed: ${status.message}`);
+  }
+
+  return loaded;
+}
+
+/** Current credential status; parses and validates the key on first call */
+export function getCredentialStatus(): CredentialStatus {
+  return getLoadedCredentials().status;
 }
 
 export function hasAuthCredentials(): boolean {
-  const accessKey = process.env.KALSHI_ACCESS_KEY;
-  const privateKey = loadPrivateKey();
-  return !!(accessKey && privateKey);
+  return getLoadedCredentials().status.usable;
 }
 
+/**
+ * Sign `timestamp + METHOD + path`. For REST calls the path is the full
+ * request path (`/trade-api/v2/...`) without its query string.
+ */
 export function generateAuthHeaders(
   method: string = 'GET',
   path: string = '/trade-api/ws/v2'
 ): KalshiAuthHeaders | null {
-  const accessKey = process.env.KALSHI_ACCESS_KEY;
-  const privateKeyPem = loadPrivateKey();
+  const credentials = getLoadedCredentials();
+  const { accessKey, key } = credentials;
 
-  if (!accessKey || !privateKeyPem) {
+  if (!credentials.status.usable || !accessKey || !key) {
     return null;
   }
 
@@ -47,13 +220,8 @@ export function generateAuthHeaders(
   const signatureText = timestamp + method.toUpperCase() + path;
 
   try {
-    const privateKey = crypto.createPrivateKey({
-      key: privateKeyPem,
-      format: 'pem',
-    });
-
     const signature = crypto.sign('sha256', Buffer.from(signatureText), {
-      key: privateKey,
+      key,
       padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
       saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
     });
@@ -64,7 +232,11 @@ export function generateAuthHeaders(
       'KALSHI-ACCESS-SIGNATURE': signature.toString('base64'),
     };
   } catch (err) {
-    console.error('Failed to generate auth signature:', err);
+    // Every REST call signs, so a bad key would otherwise log on each request
+    if (!credentials.reportedSignError) {
+      credentials.reportedSignError = true;
+      console.error('Failed to generate auth signature:', err);
+    }
     return null;
   }
 }
@@ -1,4 +1,6 @@
-import { TickerMessage, TradeMessage, ConnectionState } from './types';
+import { TickerMessage, TradeMessage, ConnectionState, BookIntegrity } from './types';
+import { Clock, systemClock, TimestampPolicy, getTimestampPolicy, resolveEventTime } from './clock';
+import { OrderBook, complement } from './orderbook';
 
 export interface MarketStats {
   market_ticker: string;
@@ -12,6 +14,14 @@ export interface MarketStats {
   spread_bps?: number;
   implied_prob?: number;
   price_delta_1m?: number;
+  /** Best bid at or above the best ask, on the quote or in the book; a missed update, not a tradeable edge */
+  crossed: boolean;
+
+  // NO side, in NO cents: a NO bid is a YES ask at 100 - p. NO bid sizes and depth are the YES ask ones.
+  no_bid?: number;
+  no_ask?: number;
+  no_mid?: number;
+  no_microprice?: number;
 
   // Microprice + imbalance
   microprice?: number;
@@ -27,6 +37,8 @@ export interface MarketStats {
   wall_ask_size?: number;
   wall_bid_ratio?: number;
   wall_ask_ratio?: number;
+  /** Full-book depth and sweep cost per band, keyed by width (`1c`, `5c`, ...); empty without a book and mid */
+  depth_bands: Record<string, DepthBand>;
 
   // Trade flow
   trades_per_min?: number;
@@ -44,11 +56,49 @@ export interface MarketStats {
   jump_flag?: boolean;
   jump_size?: number;
 
+  /** Rolling stats per configured horizon, keyed by label (`10s`, `1m`, ...) */
+  windows: Record<string, WindowStats>;
+
   // Data health
   last_ticker_age_ms?: number;
   last_orderbook_age_ms?: number;
   last_trade_ts?: number;
   feed_status: 'fresh' | 'stale' | 'unknown';
+  /** Orderbook sequence health; depth stats are unreliable unless 'ok' */
+  book_integrity?: BookIntegrity;
+}
+
+/** Stats over one trailing horizon, looked up by event time */
+export interface WindowStats {
+  window_ms: number;
+  /** Current mid minus the last mid at or before the window start; unset until history reaches back that far */
+  price_delta?: number;
+  vwap?: number;
+  trade_count: number;
+  /** Contracts traded */
+  volume: number;
+  buy_pressure?: number;
+  sell_pressure?: number;
+  /** Square root of the summed squared mid changes across the window, in cents */
+  realized_vol?: number;
+}
+
+/** How much the book holds near the touch */
+export interface DepthBand {
+  cents: number;
+  /** Contracts bid within `cents` of mid */
+  bid_depth: number;
+  /** Contracts offered within `cents` of mid */
+  ask_depth: number;
+  /** Dollars to buy YES until the best ask is `cents` higher; unset with no asks */
+  cost_up?: number;
+  /** Dollars to buy NO (sell YES) until the best bid is `cents` lower; unset with no bids */
+  cost_down?: number;
+}
+
+export interface StatsWindow {
+  label: string;
+  ms: number;
 }
 
 export interface StatsUpdate {
@@ -63,14 +113,14 @@ export interface SSEStatsPayload {
   markets: Record<string, MarketStats>;
 }
 
-interface TradeRecord {
+export interface TradeRecord {
   ts: number;
   price: number;
   count: number;
   side: 'buy' | 'sell' | 'unknown';
 }
 
-interface MidRecord {
+export interface MidRecord {
   ts: number;
   mid: number;
 }
@@ -78,26 +128,153 @@ interface MidRecord {
 interface MarketBuffer {
   trades: TradeRecord[];
   mids: MidRecord[];
+  // Receive times; feed health is about our connection, not the exchange clock
   lastTickerTs: number;
   lastOrderbookTs: number;
+  lastTradeReceivedTs: number;
+  /** Event time of the newest trade, backfilled ones included; not used for feed health */
   lastTradeTs: number;
   lastMid?: number;
   mid5sAgo?: number;
   mid5sAgoTs?: number;
-  mid1mAgo?: number;
-  mid1mAgoTs?: number;
 }
 
-const RING_BUFFER_MAX_SIZE = 500;
+// Per series; bounds memory when a busy market outruns the longest window
+const RING_BUFFER_MAX_SIZE = 5000;
+// The legacy flat fields (`vwap_60s`, `price_delta_1m`, ...) always cover a minute
 const RING_BUFFER_WINDOW_MS = 60000;
+const DEFAULT_STATS_WINDOWS = '10s,1m,5m,15m';
+const MAX_STATS_WINDOW_MS = 60 * 60 * 1000;
 const STALE_THRESHOLD_MS = 3000;
 const JUMP_THRESHOLD_CENTS = 5;
 const TOP_N_LEVELS = 5;
+const DEPTH_BAND_CENTS = [1, 2, 5, 10];
+
+const WINDOW_UNITS_MS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+/** `10s,1m,5m` → windows sorted by length; null if any entry is malformed or over an hour */
+export function parseStatsWindows(spec: string): StatsWindow[] | null {
+  const windows: StatsWindow[] = [];
+  for (const part of spec.split(',').map((p) => p.trim().toLowerCase()).filter(Boolean)) {
+    const match = part.match(/^(\d+)([smh])$/);
+    const ms = match ? Number(match[1]) * WINDOW_UNITS_MS[match[2]] : 0;
+    if (ms <= 0 || ms > MAX_STATS_WINDOW_MS) return null;
+    if (!windows.some((w) => w.ms === ms)) windows.push({ label: part, ms });
+  }
+  return windows.length > 0 ? windows.sort((a, b) => a.ms - b.ms) : null;
+}
+
+/** Horizons from KALSHI_STATS_WINDOWS, default 10s, 1m, 5m and 15m */
+export function getStatsWindows(): StatsWindow[] {
+  const spec = process.env.KALSHI_STATS_WINDOWS;
+  const windows = spec ? parseStatsWindows(spec) : null;
+  if (spec && !windows) {
+    console.warn(`[Stats] Ignoring KALSHI_STATS_WINDOWS="${spec}"; expected e.g. ${DEFAULT_STATS_WINDOWS}`);
+  }
+  return windows ?? parseStatsWindows(DEFAULT_STATS_WINDOWS)!;
+}
+
+/** Index of the first record at or after `ts`; series are kept in time order */
+function lowerBound(series: { ts: number }[], ts: number): number {
+  let lo = 0;
+  let hi = series.length;
+  while (lo < hi) {
+    const midIdx = (lo + hi) >> 1;
+    if (series[midIdx].ts < ts) lo = midIdx + 1;
+    else hi = midIdx;
+  }
+  return lo;
+}
 
+function computeWindowStats(buffer: MarketBuffer | undefined, mid: number | undefined, now: number, windowMs: number): WindowStats {
+  const start = now - windowMs;
+  const stats: WindowStats = { window_ms: windowMs, trade_count: 0, volume: 0 };
+  if (!buffer) return stats;
+
+  let value = 0;
+  let buyCount = 0;
+  let sellCount = 0;
+  for (let i = lowerBound(buffer.trades, start); i < buffer.trades.length; i++) {
+    const trade = buffer.trades[i];
+    stats.trade_count++;
+    stats.volume += trade.count;
+    value += trade.price * trade.count;
+    if (trade.side === 'buy') buyCount += trade.count;
+    else if (trade.side === 'sell') sellCount += trade.count;
+  }
+  if (stats.volume > 0) {
+    stats.vwap = value / stats.volume;
+  }
+  if (buyCount + sellCount > 0) {
+    stats.buy_pressure = buyCount / (buyCount + sellCount);
+    stats.sell_pressure = sellCount / (buyCount + sellCount);
+  }
+
+  // The mid in force at the window start, then every mid after it
+  const firstInside = lowerBound(buffer.mids, start + 1);
+  const anchor = firstInside > 0 ? buffer.mids[firstInside - 1] : undefined;
+  if (anchor && mid !== undefined) {
+    stats.price_delta = mid - anchor.mid;
+  }
+
+  let sumSquares = 0;
+  let changes = 0;
+  let previous = anchor?.mid;
+  for (let i = firstInside; i < buffer.mids.length; i++) {
+    if (previous !== undefined) {
+      sumSquares += (buffer.mids[i].mid - previous) ** 2;
+      changes++;
+    }
+    previous = buffer.mids[i].mid;
+  }
+  if (changes > 0) {
+    stats.realized_vol = Math.sqrt(sumSquares);
+  }
+
+  return stats;
+}
+
+/**
+ * Depth within each band of mid, and the cost of walking the touch that far.
+ * YES asks are NO bids, so both sweeps read a bid side down from its best.
+ */
+function computeDepthBands(book: OrderBook, mid: number): Record<string, DepthBand> {
+  const bands: Record<string, DepthBand> = {};
+  const bestYes = book.yes.best;
+  const bestNo = book.no.best;
+
+  for (const cents of DEPTH_BAND_CENTS) {
+    const band: DepthBand = {
+      cents,
+      bid_depth: book.yes.depthFrom(Math.ceil(mid - cents)),
+      ask_depth: book.no.depthFrom(Math.ceil(100 - mid - cents)),
+    };
+    if (bestNo !== undefined) band.cost_up = book.no.sweepCostFrom(bestNo - cents + 1) / 100;
+    if (bestYes !== undefined) band.cost_down = book.yes.sweepCostFrom(bestYes - cents + 1) / 100;
+    bands[`${cents}c`] = band;
+  }
+  return bands;
+}
+
+/**
+ * Rolling per-market stats. Trades and mids are stamped with their event time
+ * (see `TimestampPolicy`); ticker and orderbook ages use receive time. All
+ * time comes from the injected clock, so a scripted message sequence always
+ * produces the same output.
+ */
 export class StatsEngine {
   private buffers: Map<string, MarketBuffer> = new Map();
   private lastComputedStats: Map<string, MarketStats> = new Map();
   private dirtyMarkets: Set<string> = new Set();
+  private readonly retentionMs: number;
+
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly timestampPolicy: TimestampPolicy = getTimestampPolicy(),
+    private readonly windows: StatsWindow[] = getStatsWindows()
+  ) {
+    this.retentionMs = Math.max(RING_BUFFER_WINDOW_MS, ...windows.map((w) => w.ms));
+  }
 
   private getOrCreateBuffer(marketTicker: string): MarketBuffer {
     let buffer = this.buffers.get(marketTicker);
@@ -107,6 +284,7 @@ export class StatsEngine {
         mids: [],
         lastTickerTs: 0,
         lastOrderbookTs: 0,
+        lastTradeReceivedTs: 0,
         lastTradeTs: 0,
       };
       this.buffers.set(marketTicker, buffer);
@@ -115,25 +293,59 @@ export class StatsEngine {
   }
 
   private pruneBuffer(buffer: MarketBuffer, now: number): void {
-    const cutoff = now - RING_BUFFER_WINDOW_MS;
+    const cutoff = now - this.retentionMs;
 
-    while (buffer.trades.length > 0 && buffer.trades[0].ts < cutoff) {
-      buffer.trades.shift();
-    }
+    const expiredTrades = lowerBound(buffer.trades, cutoff);
+    if (expiredTrades > 0) buffer.trades.splice(0, expiredTrades);
     if (buffer.trades.length > RING_BUFFER_MAX_SIZE) {
       buffer.trades = buffer.trades.slice(-RING_BUFFER_MAX_SIZE);
     }
 
-    while (buffer.mids.length > 0 && buffer.mids[0].ts < cutoff) {
-      buffer.mids.shift();
-    }
+    // Keep the last mid before the cutoff: it is the longest window's starting price
+    const expiredMids = lowerBound(buffer.mids, cutoff + 1) - 1;
+    if (expiredMids > 0) buffer.mids.splice(0, expiredMids);
     if (buffer.mids.length > RING_BUFFER_MAX_SIZE) {
       buffer.mids = buffer.mids.slice(-RING_BUFFER_MAX_SIZE);
     }
   }
 
+  /**
+   * Seed a market's buffers from REST history so every window has data
+   * before the first live message. Call before subscribing.
+   */
+  seedHistory(marketTicker: string, trades: TradeRecord[], mids: MidRecord[]): void {
+    const now = this.clock.now();
+    const cutoff = now - this.retentionMs;
+    const buffer = this.getOrCreateBuffer(marketTicker);
+
+    const recentTrades = trades.filter(t => t.ts >= cutoff && t.ts <= now);
+    if (recentTrades.length > 0) {
+      buffer.trades = [...recentTrades, ...buffer.trades].sort((a, b) => a.ts - b.ts);
+      buffer.lastTradeTs = Math.max(buffer.lastTradeTs, recentTrades[recentTrades.length - 1].ts);
+    }
+
+    const pastMids = mids.filter(m => m.ts <= now);
+    if (pastMids.length > 0) {
+      // Pruning keeps the newest mid before the cutoff as the longest window's anchor
+      buffer.mids = [...pastMids, ...buffer.mids].sort((a, b) => a.ts - b.ts);
+      if (buffer.lastMid === undefined) {
+        buffer.lastMid = pastMids[pastMids.length - 1].mid;
+      }
+    }
+
+    this.pruneBuffer(buffer, now);
+    this.dirtyMarkets.add(marketTicker);
+  }
+
+  /** Event time for a message, kept in order with what the series already holds */
+  private eventTime(exchangeTs: number | undefined, now: number, series: { ts: number }[]): number {
+    const ts = resolveEventTime(exchangeTs, now, this.timestampPolicy);
+    const last = series[series.length - 1];
+    return last && last.ts > ts ? last.ts : ts;
+  }
+
   onTickerUpdate(msg: TickerMessage['msg']): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const buffer = this.getOrCreateBuffer(msg.market_ticker);
     buffer.lastTickerTs = now;
 
@@ -141,16 +353,12 @@ export class StatsEngine {
     const ask = msg.yes_ask;
     if (bid !== undefined && ask !== undefined && bid > 0 && ask > 0) {
       const mid = (bid + ask) / 2;
-      buffer.mids.push({ ts: now, mid });
+      const ts = this.eventTime(msg.ts, now, buffer.mids);
+      buffer.mids.push({ ts, mid });
 
-      if (buffer.mid5sAgoTs === undefined || now - buffer.mid5sAgoTs >= 5000) {
+      if (buffer.mid5sAgoTs === undefined || ts - buffer.mid5sAgoTs >= 5000) {
         buffer.mid5sAgo = buffer.lastMid;
-        buffer.mid5sAgoTs = now;
-      }
-
-      if (buffer.mid1mAgoTs === undefined || now - buffer.mid1mAgoTs >= 60000) {
-        buffer.mid1mAgo = buffer.lastMid;
-        buffer.mid1mAgoTs = now;
+        buffer.mid5sAgoTs = ts;
       }
       buffer.lastMid = mid;
     }
@@ -160,16 +368,18 @@ export class StatsEngine {
   }
 
   onOrderbookUpdate(marketTicker: string): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const buffer = this.getOrCreateBuffer(marketTicker);
     buffer.lastOrderbookTs = now;
     this.dirtyMarkets.add(marketTicker);
   }
 
   onTradeUpdate(msg: TradeMessage['msg'], currentBid?: number, currentAsk?: number): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const buffer = this.getOrCreateBuffer(msg.market_ticker);
-    buffer.lastTradeTs = now;
+    const ts = this.eventTime(msg.ts, now, buffer.trades);
+    buffer.lastTradeReceivedTs = now;
+    buffer.lastTradeTs = ts;
 
     const price = msg.yes_price ?? 0;
     const count = msg.count ?? 1;
@@ -186,13 +396,13 @@ export class StatsEngine {
       }
     }
 
-    buffer.trades.push({ ts: now, price, count, side });
+    buffer.trades.push({ ts, price, count, side });
     this.pruneBuffer(buffer, now);
     this.dirtyMarkets.add(msg.market_ticker);
   }
 
   computeStats(state: ConnectionState): Record<string, MarketStats> {
-    const now = Date.now();
+    const now = this.clock.now();
     const result: Record<string, MarketStats> = {};
 
     for (const marketTicker of this.dirtyMarkets) {
@@ -208,7 +418,7 @@ export class StatsEngine {
   }
 
   computeAllStats(state: ConnectionState): Record<string, MarketStats> {
-    const now = Date.now();
+    const now = this.clock.now();
     const result: Record<string, MarketStats> = {};
 
     for (const marketTicker of state.tickersByMarket.keys()) {
@@ -242,40 +452,26 @@ export class StatsEngine {
     const ticker = state.tickersByMarket.get(marketTicker);
     const book = state.orderbookByMarket.get(marketTicker);
 
-    let bestBid = ticker?.yes_bid;
-    let bestAsk = ticker?.yes_ask;
+    // A quote missing its YES side is rebuilt from the NO side, then from the book
+    let bestBid = ticker?.yes_bid ?? complement(ticker?.no_ask);
+    let bestAsk = ticker?.yes_ask ?? complement(ticker?.no_bid);
     let bidSizeTop = 0;
     let askSizeTop = 0;
 
-    const yesLevels: [number, number][] = [];
-    const noLevels: [number, number][] = [];
+    const yesLevels = book ? book.yes.top(TOP_N_LEVELS) : [];
+    const noLevels = book ? book.no.top(TOP_N_LEVELS) : [];
 
     if (book) {
-      const sortedYes = Array.from(book.yes.entries()).sort((a, b) => b[0] - a[0]);
-      const sortedNo = Array.from(book.no.entries()).sort((a, b) => b[0] - a[0]);
-
-      for (let i = 0; i < Math.min(TOP_N_LEVELS, sortedYes.length); i++) {
-        yesLevels.push(sortedYes[i]);
-      }
-      for (let i = 0; i < Math.min(TOP_N_LEVELS, sortedNo.length); i++) {
-        noLevels.push(sortedNo[i]);
-      }
-
-      if (yesLevels.length > 0) {
-        if (bestBid === undefined) bestBid = yesLevels[0][0];
-        bidSizeTop = yesLevels[0][1];
-      }
-      if (noLevels.length > 0) {
-        if (bestAsk === undefined) bestAsk = 100 - noLevels[0][0];
-        askSizeTop = noLevels[0][1];
-      }
+      if (bestBid === undefined) bestBid = book.yesBid;
+      if (bestAsk === undefined) bestAsk = book.yesAsk;
+      bidSizeTop = book.yes.bestSize;
+      askSizeTop = book.no.bestSize;
     }
 
     let mid: number | undefined;
     let spread: number | undefined;
     let spreadBps: number | undefined;
     let impliedProb: number | undefined;
-    let priceDelta1m: number | undefined;
     let microprice: number | undefined;
     let imbalanceTop: number | undefined;
 
@@ -294,12 +490,13 @@ export class StatsEngine {
           imbalanceTop = (bidSizeTop - askSizeTop) / totalSize;
         }
       }
-
-      if (buffer && buffer.mid1mAgo !== undefined && mid !== undefined) {
-        priceDelta1m = mid - buffer.mid1mAgo;
-      }
     }
 
+    const noBid = ticker?.no_bid ?? complement(bestAsk);
+    const noAsk = ticker?.no_ask ?? complement(bestBid);
+    const crossed =
+      (bestBid !== undefined && bestAsk !== undefined && bestBid > 0 && bestBid >= bestAsk) || (book?.crossed ?? false);
+
     let sumBidTop5 = 0;
     let sumAskTop5 = 0;
     let wallBidSize = 0;
@@ -321,42 +518,18 @@ export class StatsEngine {
 
     const wallBidRatio = sumBidTop5 > 0 ? wallBidSize / sumBidTop5 : undefined;
     const wallAskRatio = sumAskTop5 > 0 ? wallAskSize / sumAskTop5 : undefined;
+    const depthBands = book && mid !== undefined ? computeDepthBands(book, mid) : {};
+
+    const windows: Record<string, WindowStats> = {};
+    for (const window of this.windows) {
+      windows[window.label] = computeWindowStats(buffer, mid, now, window.ms);
+    }
+    const minute = this.windows.find((w) => w.ms === RING_BUFFER_WINDOW_MS);
+    const last60s = minute ? windows[minute.label] : computeWindowStats(buffer, mid, now, RING_BUFFER_WINDOW_MS);
 
-    let tradesLast60s = 0;
-    let tradesPerMin = 0;
-    let buyPressure = 0;
-    let sellPressure = 0;
-    let vwap60s: number | undefined;
     let lastTradeAgeMs: number | undefined;
     let lastTradePrice: number | undefined;
-
     if (buffer && buffer.trades.length > 0) {
-      const cutoff = now - RING_BUFFER_WINDOW_MS;
-      let totalValue = 0;
-      let totalCount = 0;
-      let buyCount = 0;
-      let sellCount = 0;
-
-      for (const trade of buffer.trades) {
-        if (trade.ts >= cutoff) {
-          tradesLast60s++;
-          totalValue += trade.price * trade.count;
-          totalCount += trade.count;
-          if (trade.side === 'buy') buyCount += trade.count;
-          else if (trade.side === 'sell') sellCount += trade.count;
-        }
-      }
-
-      tradesPerMin = tradesLast60s;
-      if (totalCount > 0) {
-        vwap60s = totalValue / totalCount;
-        const totalPressure = buyCount + sellCount;
-        if (totalPressure > 0) {
-          buyPressure = buyCount / totalPressure;
-          sellPressure = sellCount / totalPressure;
-        }
-      }
-
       const lastTrade = buffer.trades[buffer.trades.length - 1];
       lastTradeAgeMs = now - lastTrade.ts;
       lastTradePrice = lastTrade.price;
@@ -399,7 +572,7 @@ export class StatsEngine {
     const latestUpdate = Math.max(
       buffer?.lastTickerTs || 0,
       buffer?.lastOrderbookTs || 0,
-      buffer?.lastTradeTs || 0
+      buffer?.lastTradeReceivedTs || 0
     );
     if (latestUpdate > 0) {
       feedStatus = now - latestUpdate < STALE_THRESHOLD_MS ? 'fresh' : 'stale';
@@ -414,7 +587,12 @@ export class StatsEngine {
       spread,
       spread_bps: spreadBps,
       implied_prob: impliedProb,
-      price_delta_1m: priceDelta1m,
+      price_delta_1m: last60s.price_delta,
+      crossed,
+      no_bid: noBid,
+      no_ask: noAsk,
+      no_mid: complement(mid),
+      no_microprice: complement(microprice),
       microprice,
       imbalance_top: imbalanceTop,
       bid_size_top: bidSizeTop > 0 ? bidSizeTop : undefined,
@@ -426,20 +604,23 @@ export class StatsEngine {
       wall_ask_size: wallAskSize > 0 ? wallAskSize : undefined,
       wall_bid_ratio: wallBidRatio,
       wall_ask_ratio: wallAskRatio,
-      trades_per_min: tradesPerMin,
-      trades_last_60s: tradesLast60s,
-      buy_pressure: buyPressure > 0 ? buyPressure : undefined,
-      sell_pressure: sellPressure > 0 ? sellPressure : undefined,
-      vwap_60s: vwap60s,
+      depth_bands: depthBands,
+      trades_per_min: last60s.trade_count,
+      trades_last_60s: last60s.trade_count,
+      buy_pressure: last60s.buy_pressure || undefined,
+      sell_pressure: last60s.sell_pressure || undefined,
+      vwap_60s: last60s.vwap,
       last_trade_age_ms: lastTradeAgeMs,
       last_trade_price: lastTradePrice,
       vol_mid_60s: volMid60s,
       jump_flag: jumpFlag,
       jump_size: jumpSize,
+      windows,
       last_ticker_age_ms: lastTickerAgeMs,
       last_orderbook_age_ms: lastOrderbookAgeMs,
       last_trade_ts: buffer?.lastTradeTs,
       feed_status: feedStatus,
+      book_integrity: state.bookIntegrityByMarket.get(marketTicker),
     };
   }
 
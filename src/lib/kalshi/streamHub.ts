@@ -0,0 +1,877 @@
+import crypto from 'crypto';
+import {
+  fetchRelatedEvents,
+  fetchEnrichedMarkets,
+  extractMarketTickers,
+  EnrichedMarket,
+  ResolvedEventInfo,
+} from './rest';
+import { parseEventTicker } from './relatedSeries';
+import { KalshiApiError, isTransientError } from './http';
+import { selectMarkets } from './marketSelection';
+import { connectPool, getOrderbookSummary, ConnectionPoolHandle, WSConnectionOptions } from './ws';
+import { hasAuthCredentials } from './signing';
+import { StatsEngine, MarketStats, MidRecord } from './stats';
+import { backfillHistory, isHistoryBackfillEnabled } from './history';
+import { createRecorder, SessionRecorder } from './recorder';
+import { connectReplay, loadRecordingMeta, ReplaySpeed } from './replay';
+import { Clock, ManualClock, systemClock } from './clock';
+import { SignalsEngine } from './signals';
+import { OrderBook } from './orderbook';
+import { registerStream, unregisterStream, MarketChangeResult } from './streamRegistry';
+import {
+  KalshiEvent,
+  ExcludedMarket,
+  ResolutionTrace,
+  KalshiWSMessage,
+  ConnectionState,
+  SSEPayload,
+  SSEMetaPayload,
+  SSEStatusPayload,
+  SSEErrorPayload,
+  SSESignalsPayload,
+  SSEHistoryPayload,
+  TickerMessage,
+  TradeMessage,
+  OrderbookSnapshotMessage,
+  OrderbookDeltaMessage,
+  BookResyncMessage,
+  SSEDepthPayload,
+} from './types';
+
+const MAX_MARKETS_PER_GAME = 50;
+const TICKER_BATCH_INTERVAL = 300;
+const RAW_BATCH_INTERVAL = 500;
+const DEPTH_EMIT_INTERVAL = 300;
+const STATS_EMIT_INTERVAL = 500;
+const SIGNALS_EMIT_INTERVAL = 1000;
+/** How long an upstream socket stays open after its last listener leaves */
+const CLOSE_GRACE_MS = 15000;
+export const MAX_GAMES_PER_STREAM = 16;
+
+/** Error payload fields telling a missing event apart from a transient Kalshi failure */
+function errorDetails(cause: unknown): Pick<SSEErrorPayload, 'code' | 'retryable'> {
+  if (!(cause instanceof KalshiApiError)) return {};
+  return { code: cause.kind, retryable: cause.transient };
+}
+
+export interface StreamListener {
+  send: (payload: SSEPayload) => void;
+  /** The stream ended on its own (e.g. no event could be resolved) */
+  end: () => void;
+  /** Also receive `depth` payloads carrying every level of every book */
+  fullDepth?: boolean;
+}
+
+export interface StreamRequest {
+  /** One or more games; related spread/total series are resolved for each */
+  eventTickers: string[];
+  /** Restrict the stream to these markets; all resolved markets when omitted */
+  marketTickers?: string[];
+  /** Play a recorded session instead of connecting to Kalshi; eventTickers is ignored */
+  replay?: { recording: string; speed: ReplaySpeed };
+}
+
+export interface StreamSubscription {
+  streamId: string;
+  leave: () => void;
+}
+
+/** One game of a watchlist: its markets and the signals engine fitted to them */
+interface GameSession {
+  gameId: string;
+  event: KalshiEvent;
+  resolvedEvents: ResolvedEventInfo[];
+  resolution: ResolutionTrace;
+  markets: EnrichedMarket[];
+  excludedMarkets: ExcludedMarket[];
+  signalsEngine: SignalsEngine;
+}
+
+/**
+ * One upstream Kalshi connection pool plus its stats/signals engines, shared
+ * by every browser listener that asks for the same watchlist and market set.
+ */
+class SharedStream {
+  readonly id = crypto.randomUUID();
+  private listeners = new Set<StreamListener>();
+  private closeTimer: NodeJS.Timeout | null = null;
+  private isClosed = false;
+
+  private connection: ConnectionPoolHandle | null = null;
+  private timers: NodeJS.Timeout[] = [];
+  private pendingTickers: Map<string, TickerMessage['msg']> = new Map();
+  private pendingRaw: { ts: number; data: unknown }[] = [];
+  private currentState: ConnectionState | null = null;
+  private statsEngine: StatsEngine;
+  private games: Map<string, GameSession> = new Map();
+  private recorder: SessionRecorder | null;
+  // Replays run on the recording's clock; stats/signals emit as it crosses each interval
+  private readonly clock: Clock;
+  private readonly replayClock: ManualClock | null;
+  private nextStatsAt: number | null = null;
+  private nextSignalsAt: number | null = null;
+
+  // Replayed to listeners that join an already running stream
+  private lastMetaByGame: Map<string, SSEMetaPayload> = new Map();
+  private lastSignalsByGame: Map<string, SSESignalsPayload> = new Map();
+  private lastHistoryByGame: Map<string, SSEHistoryPayload> = new Map();
+  private lastStatus: SSEStatusPayload | null = null;
+
+  // Books as last sent to full-depth listeners; `depth` payloads carry the changes since
+  private depthSent: Map<string, OrderBook> = new Map();
+  private depthDirty: Set<string> = new Set();
+
+  constructor(
+    public key: string,
+    private readonly request: StreamRequest,
+    private readonly onClosed: (stream: SharedStream) => void,
+    private readonly onRekeyed: (stream: SharedStream, previousKey: string) => void
+  ) {
+    this.replayClock = request.replay ? new ManualClock() : null;
+    this.clock = this.replayClock ?? systemClock;
+    this.statsEngine = new StatsEngine(this.clock);
+    this.recorder = request.replay ? null : createRecorder(key);
+  }
+
+  get listenerCount(): number {
+    return this.listeners.size;
+  }
+
+  addListener(listener: StreamListener): void {
+    if (this.closeTimer) {
+      clearTimeout(this.closeTimer);
+      this.closeTimer = null;
+    }
+    this.listeners.add(listener);
+
+    for (const meta of this.lastMetaByGame.values()) listener.send(meta);
+    for (const history of this.lastHistoryByGame.values()) listener.send(history);
+    if (this.lastStatus) listener.send(this.lastStatus);
+    for (const signals of this.lastSignalsByGame.values()) listener.send(signals);
+
+    if (listener.fullDepth) {
+      for (const [market, book] of this.depthSent) {
+        listener.send({ type: 'depth', market_ticker: market, snapshot: true, yes: book.yes.encode(), no: book.no.encode() });
+      }
+      // Books nobody has been sent yet go out on the next depth tick
+      for (const market of this.currentState?.orderbookByMarket.keys() ?? []) this.depthDirty.add(market);
+    }
+  }
+
+  removeListener(listener: StreamListener): void {
+    this.listeners.delete(listener);
+    if (this.listeners.size > 0 || this.isClosed || this.closeTimer) return;
+
+    this.closeTimer = setTimeout(() => {
+      this.closeTimer = null;
+      if (this.listeners.size === 0) this.close();
+    }, CLOSE_GRACE_MS);
+  }
+
+  close(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+
+    if (this.closeTimer) clearTimeout(this.closeTimer);
+    for (const timer of this.timers) clearInterval(timer);
+    this.timers = [];
+    this.connection?.close();
+    this.recorder?.close();
+    unregisterStream(this.id);
+    this.onClosed(this);
+  }
+
+  private broadcast(payload: SSEPayload): void {
+    if (this.isClosed) return;
+
+    if (payload.type === 'meta') this.recorder?.recordMeta(payload);
+
+    if (payload.type === 'meta' && payload.gameId) this.lastMetaByGame.set(payload.gameId, payload);
+    else if (payload.type === 'signals' && payload.gameId) this.lastSignalsByGame.set(payload.gameId, payload);
+    else if (payload.type === 'history' && payload.gameId) this.lastHistoryByGame.set(payload.gameId, payload);
+    else if (payload.type === 'status') this.lastStatus = payload;
+
+    for (const listener of this.listeners) {
+      this.deliver(listener, payload);
+    }
+  }
+
+  private deliver(listener: StreamListener, payload: SSEPayload): void {
+    try {
+      listener.send(payload);
+    } catch (err) {
+      console.warn('[StreamHub] Dropping listener after send failure:', err);
+      this.listeners.delete(listener);
+    }
+  }
+
+  /** Report a fatal error, end every listener and shut the stream down */
+  private fail(message: string, cause?: unknown): void {
+    this.broadcast({ type: 'error', message, ...errorDetails(cause) });
+    for (const listener of this.listeners) {
+      listener.end();
+    }
+    this.listeners.clear();
+    this.close();
+  }
+
+  private updateMarketMeta(game: GameSession): void {
+    game.signalsEngine.setMarketMeta(game.markets.map(m => ({
+      ticker: m.ticker || m.market_ticker || '',
+      title: m.title,
+      group_type: m.group_type,
+      line: m.line,
+      side: m.side,
+      event_ticker: m.event_ticker,
+      strike_type: m.strike_type,
+      floor_strike: m.floor_strike,
+      cap_strike: m.cap_strike,
+      yes_sub_title: m.yes_sub_title,
+    })));
+  }
+
+  private sendMeta(game: GameSession): void {
+    this.broadcast({
+      type: 'meta',
+      event: { ...game.event, markets: game.markets },
+      markets: game.markets,
+      resolvedEvents: game.resolvedEvents,
+      resolution: game.resolution,
+      gameId: game.gameId,
+      streamId: this.id,
+      gameIds: Array.from(this.games.keys()),
+      excludedMarkets: game.excludedMarkets,
+    });
+  }
+
+  /**
+   * Key the stream by the market set it now streams, so a listener asking for
+   * the original set gets a stream of its own instead of this edited one.
+   */
+  private rekey(marketTickers: string[]): void {
+    const previousKey = this.key;
+    this.key = getStreamKey({ eventTickers: this.request.eventTickers, marketTickers });
+    if (this.key !== previousKey) this.onRekeyed(this, previousKey);
+  }
+
+  /** Game a market belongs to, falling back to the first game for unrelated tickers */
+  private gameForMarket(market: EnrichedMarket): GameSession | undefined {
+    const gameId = market.event_ticker ? parseEventTicker(market.event_ticker).gameId : '';
+    return this.games.get(gameId) ?? this.games.values().next().value;
+  }
+
+  async start(): Promise<void> {
+    if (this.request.replay) return this.startReplay(this.request.replay);
+
+    const { eventTickers, marketTickers: requestedMarkets } = this.request;
+    this.broadcast({
+      type: 'status',
+      status: 'resolving',
+      message: eventTickers.length > 1 ? `Fetching ${eventTickers.length} games...` : 'Fetching event details...',
+    });
+
+    try {
+      const results = await Promise.allSettled(eventTickers.map(ticker => fetchRelatedEvents(ticker)));
+      if (this.isClosed) return;
+
+      const requested = requestedMarkets && requestedMarkets.length > 0 ? new Set(requestedMarkets) : null;
+      const failures: string[] = [];
+      const failureCauses: unknown[] = [];
+      const warnings: string[] = [];
+
+      results.forEach((result, i) => {
+        const eventTicker = eventTickers[i];
+        if (result.status === 'rejected') {
+          const message = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+          failures.push(message);
+          failureCauses.push(result.reason);
+          if (eventTickers.length > 1) {
+            this.broadcast({
+              type: 'error',
+              message,
+              gameId: parseEventTicker(eventTicker).gameId,
+              ...errorDetails(result.reason),
+            });
+          }
+          return;
+        }
+
+        const { primaryEvent, resolvedEvents, gameId, resolution } = result.value;
+        // Two tickers from the same game (e.g. its spread and total events) share a session
+        if (this.games.has(gameId)) return;
+
+        let markets = result.value.markets;
+        if (requested) {
+          markets = markets.filter(m => requested.has(m.ticker || m.market_ticker || ''));
+        }
+        if (markets.length === 0) {
+          failures.push(`No markets found for event: ${eventTicker}`);
+          return;
+        }
+        // Series that failed after retries are missing from this game, not absent on Kalshi
+        const unavailable = resolution.candidates
+          .filter(c => c.status === 'error' && c.groupType && c.groupType !== 'other')
+          .map(c => c.groupType);
+        if (unavailable.length > 0) {
+          const groups = Array.from(new Set(unavailable)).join('/');
+          warnings.push(eventTickers.length > 1 ? `${gameId}: ${groups} unavailable` : `${groups} unavailable`);
+        }
+        // Over budget: keep the best-ranked markets per group instead of the first N
+        const { selected, excluded } = selectMarkets(markets, MAX_MARKETS_PER_GAME);
+        if (excluded.length > 0) {
+          warnings.push(eventTickers.length > 1
+            ? `${gameId}: top ${selected.length} of ${markets.length}`
+            : `showing top ${selected.length} of ${markets.length} markets`);
+        }
+        markets = selected;
+
+        const game: GameSession = {
+          gameId,
+          event: primaryEvent || { event_ticker: eventTicker, title: `Game: ${gameId}` },
+          resolvedEvents,
+          resolution,
+          markets,
+          excludedMarkets: excluded,
+          signalsEngine: new SignalsEngine(this.clock),
+        };
+        // Game ID first so ladder keys are built against it, then market metadata
+        game.signalsEngine.setGameId(gameId);
+        this.updateMarketMeta(game);
+        this.games.set(gameId, game);
+      });
+
+      if (this.games.size === 0) {
+        // Retryable only when every game failed for a transient reason
+        const cause = failureCauses.find(c => !isTransientError(c)) ?? failureCauses[0];
+        this.fail(failures.length > 0 ? failures.join('; ') : 'No markets found for this event', cause);
+        return;
+      }
+
+      for (const game of this.games.values()) {
+        this.sendMeta(game);
+      }
+
+      await this.backfill();
+      if (this.isClosed) return;
+
+      if (warnings.length > 0) {
+        this.broadcast({
+          type: 'status',
+          status: 'streaming',
+          message: `Connected (${warnings.join(', ')})`
+        });
+      }
+
+      this.broadcast({ type: 'status', status: 'connecting', message: 'Connecting to WebSocket...' });
+
+      const marketTickers = Array.from(this.games.values()).flatMap(game => extractMarketTickers(game.markets));
+      const connection = this.connect(marketTickers);
+      this.connection = connection;
+      if (connection.getSocketCount() > 1) {
+        console.log(`[StreamHub] ${marketTickers.length} markets split over ${connection.getSocketCount()} sockets`);
+      }
+
+      registerStream(this.id, {
+        addMarkets: async (tickers: string[]): Promise<MarketChangeResult> => {
+          const current = new Set(connection.getMarketTickers());
+          const requestedTickers = Array.from(new Set(tickers.map(t => t.trim().toUpperCase())))
+            .filter(t => t.length > 0 && !current.has(t));
+
+          const fetched = await fetchEnrichedMarkets(requestedTickers);
+          const byGame = new Map<GameSession, EnrichedMarket[]>();
+          for (const market of fetched) {
+            const game = this.gameForMarket(market);
+            if (!game) continue;
+            byGame.set(game, [...(byGame.get(game) ?? []), market]);
+          }
+
+          for (const [game, markets] of byGame) {
+            if (game.markets.length + markets.length > MAX_MARKETS_PER_GAME) {
+              throw new Error(`Game ${game.gameId} is limited to ${MAX_MARKETS_PER_GAME} markets (${game.markets.length} subscribed)`);
+            }
+          }
+
+          const added = connection.addMarkets(extractMarketTickers(fetched));
+          const addedSet = new Set(added);
+
+          for (const [game, markets] of byGame) {
+            const newMarkets = markets.filter(m => addedSet.has(m.ticker));
+            if (newMarkets.length === 0 || this.isClosed) continue;
+            game.markets = [...game.markets, ...newMarkets];
+            game.excludedMarkets = game.excludedMarkets.filter(m => !addedSet.has(m.ticker));
+            this.updateMarketMeta(game);
+            this.sendMeta(game);
+          }
+          if (added.length > 0 && !this.isClosed) this.rekey(connection.getMarketTickers());
+
+          return { added, removed: [], marketCount: connection.getMarketTickers().length };
+        },
+        removeMarkets: async (tickers: string[]): Promise<MarketChangeResult> => {
+          const removed = connection.removeMarkets(tickers.map(t => t.trim().toUpperCase()));
+          const removedSet = new Set(removed);
+
+          if (removed.length > 0 && !this.isClosed) {
+            for (const game of this.games.values()) {
+              if (!game.markets.some(m => removedSet.has(m.ticker))) continue;
+              game.markets = game.markets.filter(m => !removedSet.has(m.ticker));
+              this.updateMarketMeta(game);
+              this.sendMeta(game);
+            }
+            this.rekey(connection.getMarketTickers());
+          }
+
+          return { added: [], removed, marketCount: connection.getMarketTickers().length };
+        },
+        getOrderBook: (ticker: string) => connection.getState().orderbookByMarket.get(ticker),
+      });
+
+      this.startTimers();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      this.fail(message, err);
+    }
+  }
+
+  /**
+   * Seed stats and signals from recent trades and candlesticks before
+   * subscribing, so rolling windows and sparklines start warm.
+   */
+  private async backfill(): Promise<void> {
+    if (!isHistoryBackfillEnabled()) return;
+
+    this.broadcast({ type: 'status', status: 'resolving', message: 'Loading recent trades...' });
+    const markets = Array.from(this.games.values()).flatMap(game => game.markets);
+    const history = await backfillHistory(markets);
+    if (this.isClosed) return;
+
+    for (const game of this.games.values()) {
+      const mids: Record<string, MidRecord[]> = {};
+      for (const market of game.markets) {
+        const entry = history.get(market.ticker);
+        if (!entry) continue;
+        this.statsEngine.seedHistory(market.ticker, entry.trades, entry.mids);
+        game.signalsEngine.seedMidHistory(market.ticker, entry.mids);
+        if (entry.mids.length > 0) mids[market.ticker] = entry.mids;
+      }
+      if (Object.keys(mids).length > 0) {
+        this.broadcast({ type: 'history', gameId: game.gameId, markets: mids });
+      }
+    }
+  }
+
+  /** Rebuild the games from a recording's meta lines and play its messages through the same pipeline */
+  private async startReplay(replay: { recording: string; speed: ReplaySpeed }): Promise<void> {
+    this.broadcast({ type: 'status', status: 'resolving', message: `Loading recording ${replay.recording}...` });
+
+    try {
+      const metas = await loadRecordingMeta(replay.recording);
+      if (this.isClosed) return;
+
+      const requested = this.request.marketTickers && this.request.marketTickers.length > 0
+        ? new Set(this.request.marketTickers)
+        : null;
+
+      for (const meta of metas) {
+        const gameId = meta.gameId || parseEventTicker(meta.event.event_ticker).gameId;
+        const markets = (meta.markets as EnrichedMarket[])
+          .filter(m => !requested || requested.has(m.ticker || m.market_ticker || ''));
+        const game: GameSession = {
+          gameId,
+          event: meta.event,
+          resolvedEvents: meta.resolvedEvents ?? [],
+          resolution: meta.resolution ?? { method: 'prefix_fallback', fallbackReason: 'not recorded', seriesScanned: 0, candidates: [] },
+          markets,
+          excludedMarkets: meta.excludedMarkets ?? [],
+          signalsEngine: new SignalsEngine(this.clock),
+        };
+        game.signalsEngine.setGameId(gameId);
+        this.updateMarketMeta(game);
+        this.games.set(gameId, game);
+      }
+
+      for (const game of this.games.values()) {
+        this.sendMeta(game);
+      }
+
+      const marketTickers = Array.from(this.games.values()).flatMap(game => extractMarketTickers(game.markets));
+      const speedLabel = replay.speed === 'step' ? 'step mode' : `${replay.speed}x`;
+      const connection = connectReplay({
+        marketTickers,
+        recording: replay.recording,
+        speed: replay.speed,
+        clock: this.replayClock!,
+        ...this.connectionCallbacks(false),
+        onConnected: () => {
+          if (this.isClosed) return;
+          this.broadcast({ type: 'status', status: 'streaming', message: `Replaying ${replay.recording} (${speedLabel})` });
+        },
+        onAdvance: (ts) => this.advanceReplayClock(ts),
+        onMeta: (meta) => {
+          const game = meta.gameId ? this.games.get(meta.gameId) : undefined;
+          if (!game || this.isClosed) return;
+          game.markets = meta.markets as EnrichedMarket[];
+          game.excludedMarkets = meta.excludedMarkets ?? [];
+          this.updateMarketMeta(game);
+          this.sendMeta(game);
+        },
+        onFinished: (progress) => {
+          if (this.isClosed) return;
+          // Flush the final partial interval so the last messages show up in stats
+          this.emitStats(this.clock.now());
+          this.emitSignals(this.clock.now());
+          this.broadcast({
+            type: 'status',
+            status: 'disconnected',
+            message: `Replay finished (${progress.position} messages)`,
+          });
+        },
+      });
+      this.connection = connection;
+
+      const unsupported = async (): Promise<MarketChangeResult> => {
+        throw new Error('Markets cannot be changed while replaying a recording');
+      };
+      registerStream(this.id, {
+        addMarkets: unsupported,
+        removeMarkets: unsupported,
+        getOrderBook: (ticker: string) => connection.getState().orderbookByMarket.get(ticker),
+        replay: {
+          step: connection.step,
+          pause: connection.pause,
+          resume: connection.resume,
+          getProgress: connection.getProgress,
+        },
+      });
+
+      this.startTimers();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      this.fail(message, err);
+    }
+  }
+
+  private connect(marketTickers: string[]): ConnectionPoolHandle {
+    const shouldUseAuth = hasAuthCredentials();
+
+    return connectPool({
+      marketTickers,
+      channels: ['ticker', 'orderbook_delta', 'trade'],
+      useAuth: shouldUseAuth,
+      ...this.connectionCallbacks(shouldUseAuth),
+    });
+  }
+
+  /** Handlers shared by the live pool and the replay source */
+  private connectionCallbacks(shouldUseAuth: boolean): Pick<
+    WSConnectionOptions,
+    'onMessage' | 'onStateUpdate' | 'onError' | 'onConnected' | 'onReconnecting' | 'onDisconnected' | 'onDegraded'
+  > {
+    return {
+      onMessage: (msg: KalshiWSMessage) => {
+        if (this.isClosed) return;
+        this.recorder?.recordMessage(msg);
+
+        if (msg.type === 'ticker') {
+          const tickerMsg = msg as TickerMessage;
+          this.pendingTickers.set(tickerMsg.msg.market_ticker, tickerMsg.msg);
+          this.statsEngine.onTickerUpdate(tickerMsg.msg);
+        } else if (msg.type === 'orderbook_snapshot') {
+          const obMsg = msg as OrderbookSnapshotMessage;
+          this.statsEngine.onOrderbookUpdate(obMsg.msg.market_ticker);
+          this.depthDirty.add(obMsg.msg.market_ticker);
+        } else if (msg.type === 'orderbook_delta') {
+          const obMsg = msg as OrderbookDeltaMessage;
+          this.statsEngine.onOrderbookUpdate(obMsg.msg.market_ticker);
+          this.depthDirty.add(obMsg.msg.market_ticker);
+        } else if (msg.type === 'book_resync') {
+          this.depthDirty.add((msg as BookResyncMessage).msg.market_ticker);
+        } else if (msg.type === 'trade') {
+          const tradeMsg = msg as TradeMessage;
+          const ticker = this.currentState?.tickersByMarket.get(tradeMsg.msg.market_ticker);
+          this.statsEngine.onTradeUpdate(tradeMsg.msg, ticker?.yes_bid, ticker?.yes_ask);
+        }
+
+        this.pendingRaw.push({ ts: this.clock.now(), data: msg });
+        if (this.pendingRaw.length > 50) {
+          this.pendingRaw = this.pendingRaw.slice(-50);
+        }
+      },
+      onStateUpdate: (state: ConnectionState) => {
+        if (this.isClosed) return;
+        this.currentState = state;
+
+        for (const [marketTicker] of this.pendingTickers) {
+          const summary = getOrderbookSummary(state, marketTicker);
+          if (summary.yes_levels.length > 0 || summary.no_levels.length > 0) {
+            this.broadcast({
+              type: 'orderbook',
+              market_ticker: marketTicker,
+              ...summary,
+            });
+          }
+        }
+      },
+      onError: (error: string, requiresAuth?: boolean) => {
+        if (this.isClosed) return;
+        this.broadcast({
+          type: 'error',
+          message: error,
+          requiresAuth
+        });
+        if (requiresAuth && !shouldUseAuth && hasAuthCredentials()) {
+          this.broadcast({
+            type: 'status',
+            status: 'error',
+            message: 'Auth available - reconnect with useAuth=true'
+          });
+        }
+      },
+      onConnected: () => {
+        if (this.isClosed) return;
+        this.broadcast({ type: 'status', status: 'streaming', message: 'Connected and streaming' });
+      },
+      onReconnecting: (attempt: number, delayMs: number) => {
+        if (this.isClosed) return;
+        this.broadcast({
+          type: 'status',
+          status: 'reconnecting',
+          message: `WebSocket dropped - reconnecting in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt})`,
+          attempt,
+        });
+      },
+      onDisconnected: () => {
+        if (this.isClosed) return;
+        this.broadcast({ type: 'status', status: 'disconnected', message: 'WebSocket disconnected' });
+      },
+      onDegraded: (upSockets: number, totalSockets: number) => {
+        if (this.isClosed) return;
+        this.broadcast({
+          type: 'status',
+          status: 'degraded',
+          message: `${upSockets} of ${totalSockets} sockets streaming; markets on the others are not updating`,
+        });
+      },
+    };
+  }
+
+  /** Slice the combined stats so each game's signals engine only sees its own markets */
+  private statsForGame(game: GameSession, allStats: Record<string, MarketStats>): Record<string, MarketStats> {
+    const subset: Record<string, MarketStats> = {};
+    for (const market of game.markets) {
+      const stats = allStats[market.ticker];
+      if (stats) subset[market.ticker] = stats;
+    }
+    return subset;
+  }
+
+  private startTimers(): void {
+    this.timers.push(setInterval(() => {
+      if (this.isClosed || this.pendingTickers.size === 0) return;
+
+      for (const [, tickerData] of this.pendingTickers) {
+        this.broadcast({ type: 'ticker', data: tickerData });
+      }
+      this.pendingTickers.clear();
+    }, TICKER_BATCH_INTERVAL));
+
+    this.timers.push(setInterval(() => {
+      if (this.isClosed || this.pendingRaw.length === 0) return;
+
+      this.broadcast({ type: 'raw', messages: [...this.pendingRaw] });
+      this.pendingRaw = [];
+    }, RAW_BATCH_INTERVAL));
+
+    this.timers.push(setInterval(() => this.emitDepth(), DEPTH_EMIT_INTERVAL));
+
+    // Replays emit stats and signals from advanceReplayClock instead
+    if (this.replayClock) return;
+
+    this.timers.push(setInterval(() => this.emitStats(this.clock.now()), STATS_EMIT_INTERVAL));
+    // Signals and ladders batch timer (less frequent)
+    this.timers.push(setInterval(() => this.emitSignals(this.clock.now()), SIGNALS_EMIT_INTERVAL));
+  }
+
+  /**
+   * Called before each replayed message: emit stats/signals at the last
+   * interval boundary the recording's clock has passed. Idle stretches emit
+   * once rather than once per skipped interval.
+   */
+  private advanceReplayClock(ts: number): void {
+    if (!this.replayClock) return;
+    this.nextStatsAt ??= ts + STATS_EMIT_INTERVAL;
+    this.nextSignalsAt ??= ts + SIGNALS_EMIT_INTERVAL;
+
+    if (ts >= this.nextStatsAt) {
+      const boundary = this.nextStatsAt + Math.floor((ts - this.nextStatsAt) / STATS_EMIT_INTERVAL) * STATS_EMIT_INTERVAL;
+      this.replayClock.advanceTo(boundary);
+      this.emitStats(boundary);
+      this.nextStatsAt = boundary + STATS_EMIT_INTERVAL;
+    }
+    if (ts >= this.nextSignalsAt) {
+      const boundary = this.nextSignalsAt + Math.floor((ts - this.nextSignalsAt) / SIGNALS_EMIT_INTERVAL) * SIGNALS_EMIT_INTERVAL;
+      this.replayClock.advanceTo(boundary);
+      this.emitSignals(boundary);
+      this.nextSignalsAt = boundary + SIGNALS_EMIT_INTERVAL;
+    }
+  }
+
+  /** Send full-depth listeners each changed book: a snapshot the first time, then level changes */
+  private emitDepth(): void {
+    if (this.isClosed || this.depthDirty.size === 0 || !this.currentState) return;
+
+    const listeners = Array.from(this.listeners).filter((l) => l.fullDepth);
+    if (listeners.length === 0) {
+      this.depthDirty.clear();
+      this.depthSent.clear();
+      return;
+    }
+
+    for (const market of this.depthDirty) {
+      const book = this.currentState.orderbookByMarket.get(market);
+      const sent = this.depthSent.get(market);
+      let payload: SSEDepthPayload | null = null;
+
+      if (!book) {
+        // Resyncing or removed: empty it until a fresh snapshot arrives
+        if (sent) {
+          payload = { type: 'depth', market_ticker: market, snapshot: true, yes: [], no: [] };
+          this.depthSent.delete(market);
+        }
+      } else if (!sent) {
+        payload = { type: 'depth', market_ticker: market, snapshot: true, yes: book.yes.encode(), no: book.no.encode() };
+        const copy = new OrderBook();
+        copy.copyFrom(book);
+        this.depthSent.set(market, copy);
+      } else {
+        const yes = book.yes.changesSince(sent.yes);
+        const no = book.no.changesSince(sent.no);
+        if (yes.length > 0 || no.length > 0) {
+          payload = { type: 'depth', market_ticker: market, snapshot: false, yes, no };
+          sent.copyFrom(book);
+        }
+      }
+
+      if (payload) {
+        for (const listener of listeners) this.deliver(listener, payload);
+      }
+    }
+    this.depthDirty.clear();
+  }
+
+  private emitStats(now: number): void {
+    if (this.isClosed || !this.currentState) return;
+
+    const allStats = this.statsEngine.computeAllStats(this.currentState);
+
+    for (const game of this.games.values()) {
+      const baseStats = this.statsForGame(game, allStats);
+      if (Object.keys(baseStats).length === 0) continue;
+
+      // Compute enriched stats with signals
+      const enrichedStats = game.signalsEngine.computeEnrichedStats(baseStats, now, this.currentState.orderbookByMarket);
+      this.broadcast({ type: 'stats', gameId: game.gameId, ts: now, markets: enrichedStats });
+    }
+  }
+
+  private emitSignals(now: number): void {
+    if (this.isClosed || !this.currentState) return;
+
+    const allStats = this.statsEngine.computeAllStats(this.currentState);
+
+    for (const game of this.games.values()) {
+      const enrichedStats = game.signalsEngine.computeEnrichedStats(this.statsForGame(game, allStats), now, this.currentState.orderbookByMarket);
+
+      // Compute ladders for this game
+      const ladders = game.signalsEngine.computeLadders(enrichedStats, game.gameId, now);
+      const signals = game.signalsEngine.getActiveSignals();
+
+      // Clear old signals
+      game.signalsEngine.clearOldSignals(60000);
+
+      if (signals.length > 0 || ladders.length > 0) {
+        this.broadcast({
+          type: 'signals',
+          gameId: game.gameId,
+          ts: now,
+          signals,
+          ladders,
+        });
+      }
+    }
+  }
+}
+
+// Shared across route bundles for the same reason as the stream registry
+const globalForHub = globalThis as unknown as {
+  kalshiStreamHub?: Map<string, SharedStream>;
+};
+
+const streamsByKey: Map<string, SharedStream> =
+  globalForHub.kalshiStreamHub ?? (globalForHub.kalshiStreamHub = new Map());
+
+export function getStreamKey(request: StreamRequest): string {
+  // Every replay request plays from the start, so replays are never shared
+  if (request.replay) {
+    return `replay:${request.replay.recording}|${request.replay.speed}|${crypto.randomUUID()}`;
+  }
+  const events = request.eventTickers.map(t => t.trim().toLowerCase()).sort().join(',');
+  const markets = request.marketTickers && request.marketTickers.length > 0
+    ? [...request.marketTickers].sort().join(',')
+    : '*';
+  return `${events}|${markets}`;
+}
+
+/**
+ * Attach a listener to the shared stream for this watchlist/market set,
+ * starting the upstream connection if no one is watching it yet.
+ */
+export function joinStream(request: StreamRequest, listener: StreamListener): StreamSubscription {
+  const eventTickers = Array.from(new Set(
+    request.eventTickers.map(t => t.trim()).filter(t => t.length > 0)
+  ));
+  const normalized: StreamRequest = {
+    eventTickers,
+    marketTickers: request.marketTickers?.map(t => t.trim().toUpperCase()).filter(t => t.length > 0),
+    replay: request.replay,
+  };
+  const key = getStreamKey(normalized);
+
+  let stream = streamsByKey.get(key);
+  const isNew = !stream;
+  if (!stream) {
+    stream = new SharedStream(
+      key,
+      normalized,
+      (closed) => {
+        if (streamsByKey.get(closed.key) === closed) {
+          streamsByKey.delete(closed.key);
+        }
+      },
+      (rekeyed, previousKey) => {
+        if (streamsByKey.get(previousKey) === rekeyed) {
+          streamsByKey.delete(previousKey);
+        }
+        // A stream already serving the new set keeps it; this one stays with its own listeners
+        if (!streamsByKey.has(rekeyed.key)) {
+          streamsByKey.set(rekeyed.key, rekeyed);
+        }
+        console.log(`[StreamHub] Re-keyed ${previousKey} -> ${rekeyed.key}`);
+      }
+    );
+    streamsByKey.set(key, stream);
+  }
+
+  const shared = stream;
+  shared.addListener(listener);
+  if (isNew) {
+    void shared.start();
+  }
+
+  console.log(`[StreamHub] ${isNew ? 'Opened' : 'Joined'} ${key} (${shared.listenerCount} listener(s))`);
+
+  return {
+    streamId: shared.id,
+    leave: () => shared.removeListener(listener),
+  };
+}
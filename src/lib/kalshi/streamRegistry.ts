@@ -0,0 +1,42 @@
+import { ReplayHandle } from './replay';
+import { OrderBook } from './orderbook';
+
+export interface MarketChangeResult {
+  added: string[];
+  removed: string[];
+  marketCount: number;
+}
+
+/**
+ * Hooks a running /api/stream session exposes so other routes can change its
+ * market set without tearing the stream down.
+ */
+export interface StreamControls {
+  addMarkets: (tickers: string[]) => Promise<MarketChangeResult>;
+  removeMarkets: (tickers: string[]) => Promise<MarketChangeResult>;
+  /** The live book for one of the stream's markets */
+  getOrderBook: (marketTicker: string) => OrderBook | undefined;
+  /** Playback controls, only on streams replaying a recording */
+  replay?: Pick<ReplayHandle, 'step' | 'pause' | 'resume' | 'getProgress'>;
+}
+
+// Route handlers can be bundled separately (notably in dev), so the registry
+// lives on globalThis to guarantee every route sees the same instance.
+const globalForStreams = globalThis as unknown as {
+  kalshiStreams?: Map<string, StreamControls>;
+};
+
+const streams: Map<string, StreamControls> =
+  globalForStreams.kalshiStreams ?? (globalForStreams.kalshiStreams = new Map());
+
+export function registerStream(streamId: string, controls: StreamControls): void {
+  streams.set(streamId, controls);
+}
+
+export function unregisterStream(streamId: string): void {
+  streams.delete(streamId);
+}
+
+export function getStream(streamId: string): StreamControls | undefined {
+  return streams.get(streamId);
+}
@@ -1,3 +1,5 @@
+import type { OrderBook } from './orderbook';
+
 export type GroupType = 'winner' | 'spread' | 'total' | 'other';
 
 export interface KalshiMarket {
@@ -14,6 +16,19 @@ export interface KalshiMarket {
   open_interest?: number;
   result?: string;
   event_ticker?: string;
+  yes_sub_title?: string;
+  no_sub_title?: string;
+  no_bid?: number;
+  no_ask?: number;
+  liquidity?: number;
+  open_time?: string;
+  close_time?: string;
+  expected_expiration_time?: string;
+  expiration_time?: string;
+  rules_primary?: string;
+  strike_type?: string;
+  floor_strike?: number;
+  cap_strike?: number;
   group_type?: GroupType;
   line?: number | null;
   side?: string;
@@ -26,6 +41,43 @@ export interface KalshiEvent {
   category?: string;
   markets?: KalshiMarket[];
   mutually_exclusive?: boolean;
+  strike_date?: string;
+  series_ticker?: string;
+}
+
+export interface KalshiSeries {
+  ticker: string;
+  title: string;
+  category?: string;
+  tags?: string[];
+}
+
+export interface KalshiTrade {
+  trade_id?: string;
+  ticker: string;
+  yes_price?: number;
+  no_price?: number;
+  count?: number;
+  taker_side?: string;
+  created_time?: string;
+}
+
+/** Open/high/low/close in cents; sides with no quotes in the period have no values */
+export interface KalshiOhlc {
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+}
+
+export interface KalshiCandlestick {
+  /** Unix seconds at the end of the period */
+  end_period_ts: number;
+  yes_bid?: KalshiOhlc;
+  yes_ask?: KalshiOhlc;
+  price?: KalshiOhlc;
+  volume?: number;
+  open_interest?: number;
 }
 
 export interface EventWithMarkets {
@@ -51,6 +103,10 @@ export interface TickerMessage {
 
 export interface OrderbookSnapshotMessage {
   type: 'orderbook_snapshot';
+  /** Subscription id the message belongs to */
+  sid?: number;
+  /** Per-subscription sequence number; consecutive across snapshot and deltas */
+  seq?: number;
   msg: {
     market_ticker: string;
     yes: [number, number][];
@@ -61,6 +117,8 @@ export interface OrderbookSnapshotMessage {
 
 export interface OrderbookDeltaMessage {
   type: 'orderbook_delta';
+  sid?: number;
+  seq?: number;
   msg: {
     market_ticker: string;
     price: number;
@@ -85,12 +143,36 @@ export interface TradeMessage {
 
 export interface SubscribedMessage {
   type: 'subscribed';
+  id?: number;
   msg: {
     channel: string;
+    sid?: number;
     market_tickers?: string[];
   };
 }
 
+/**
+ * Synthetic message (not sent by Kalshi) recorded in the raw feed when a
+ * market's book is discarded and re-requested because of a sequence problem.
+ */
+export interface BookResyncMessage {
+  type: 'book_resync';
+  msg: {
+    market_ticker: string;
+    sid: number;
+    expected_seq: number;
+    received_seq: number;
+    reason: 'gap';
+  };
+}
+
+/**
+ * ok        - snapshot received and every delta since arrived in sequence
+ * pending   - waiting for the first snapshot (new subscription or reconnect)
+ * resyncing - a sequence gap was detected; waiting for a fresh snapshot
+ */
+export type BookIntegrity = 'ok' | 'pending' | 'resyncing';
+
 export interface ErrorMessage {
   type: 'error';
   msg: {
@@ -106,6 +188,7 @@ export type KalshiWSMessage =
   | TradeMessage
   | SubscribedMessage
   | ErrorMessage
+  | BookResyncMessage
   | { type: string; msg: unknown };
 
 export interface ResolvedEventInfo {
@@ -113,6 +196,66 @@ export interface ResolvedEventInfo {
   title: string;
   category?: string;
   marketCount: number;
+  groupType?: GroupType;
+}
+
+/** One open game in the /api/events browser */
+export interface GameListing {
+  eventTicker: string;
+  title: string;
+  subtitle?: string;
+  gameId: string;
+  /** ISO timestamp (or date only, when parsed from the game id); null when unknown */
+  startTime: string | null;
+  marketCount: number;
+  totalVolume: number;
+  status: string;
+}
+
+export interface LeagueGames {
+  leagueId: string;
+  name: string;
+  games: GameListing[];
+}
+
+export interface GamesResponse {
+  leagues: LeagueGames[];
+  fetchedAt: string;
+  /** Series that could not be listed; their leagues are missing or partial */
+  errors?: string[];
+}
+
+/** One event (or series, when discovery found nothing in it) tried while resolving a game */
+export interface ResolutionCandidate {
+  source: 'series_listing' | 'prefix';
+  seriesTicker?: string;
+  eventTicker?: string;
+  status: 'found' | 'not_found' | 'error';
+  groupType?: GroupType;
+  marketCount?: number;
+  error?: string;
+}
+
+/** How a game's related events were resolved, for tracking down missing markets */
+export interface ResolutionTrace {
+  method: 'series_listing' | 'prefix_fallback';
+  /** Why the prefix table was used instead of series discovery */
+  fallbackReason?: string;
+  /** Series whose open events were listed */
+  seriesScanned: number;
+  candidates: ResolutionCandidate[];
+}
+
+/** A resolved market left out of the subscription by the per-game budget */
+export interface ExcludedMarket {
+  ticker: string;
+  group_type?: GroupType;
+  reason: 'group_quota';
+  /** Rank within its group by selection score (1 = best) */
+  rank: number;
+  score: number;
+  /** Slots the group was guaranteed before leftover budget was shared out */
+  quota: number;
 }
 
 export interface SSEMetaPayload {
@@ -121,6 +264,14 @@ export interface SSEMetaPayload {
   markets: KalshiMarket[];
   resolvedEvents?: ResolvedEventInfo[];
   gameId?: string;
+  /** Identifies this stream for /api/stream/markets */
+  streamId?: string;
+  /** Every game on the stream, in watchlist order (one meta payload is sent per game) */
+  gameIds?: string[];
+  /** Markets dropped by prioritized selection, with why */
+  excludedMarkets?: ExcludedMarket[];
+  /** Candidates tried while resolving this game's events */
+  resolution?: ResolutionTrace;
 }
 
 export interface SSETickerPayload {
@@ -133,10 +284,26 @@ export interface SSEOrderbookPayload {
   market_ticker: string;
   yes_bid?: number;
   yes_ask?: number;
+  no_bid?: number;
+  no_ask?: number;
   yes_levels: [number, number][];
   no_levels: [number, number][];
 }
 
+/**
+ * The whole book, for listeners that asked for full depth. Levels are flat
+ * [price, quantity, ...] pairs. A snapshot replaces the market's book; otherwise
+ * only levels changed since the previous payload are sent, and quantity 0
+ * removes a level.
+ */
+export interface SSEDepthPayload {
+  type: 'depth';
+  market_ticker: string;
+  snapshot: boolean;
+  yes: number[];
+  no: number[];
+}
+
 export interface SSERawPayload {
   type: 'raw';
   messages: { ts: number; data: unknown }[];
@@ -146,56 +313,89 @@ export interface SSEErrorPayload {
   type: 'error';
   message: string;
   requiresAuth?: boolean;
+  /** Set when the error only affects one game of a watchlist */
+  gameId?: string;
+  /** Kalshi failure kind (e.g. 'not_found', 'rate_limited') when the error came from the REST API */
+  code?: string;
+  /** Transient upstream failure; reconnecting later may succeed */
+  retryable?: boolean;
 }
 
 export interface SSEStatusPayload {
   type: 'status';
-  status: 'resolving' | 'connecting' | 'streaming' | 'disconnected' | 'error';
+  status: 'resolving' | 'connecting' | 'streaming' | 'degraded' | 'reconnecting' | 'disconnected' | 'error';
   message?: string;
+  /** Reconnect attempt number (only set when status is 'reconnecting') */
+  attempt?: number;
 }
 
 export interface SSEStatsPayload {
   type: 'stats';
+  gameId?: string;
   ts: number;
   markets: Record<string, import('./stats').MarketStats>;
 }
 
 export interface SSESignalsPayload {
   type: 'signals';
+  gameId?: string;
   ts: number;
   signals: import('./signals').SignalItem[];
   ladders: import('./signals').LadderState[];
 }
 
+/** Recent mids per market from REST backfill, sent once before live data */
+export interface SSEHistoryPayload {
+  type: 'history';
+  gameId?: string;
+  markets: Record<string, { ts: number; mid: number }[]>;
+}
+
 export type SSEPayload =
   | SSEMetaPayload
   | SSETickerPayload
   | SSEOrderbookPayload
+  | SSEDepthPayload
   | SSERawPayload
   | SSEErrorPayload
   | SSEStatusPayload
   | SSEStatsPayload
-  | SSESignalsPayload;
+  | SSESignalsPayload
+  | SSEHistoryPayload;
 
 export interface ConnectionState {
   tickersByMarket: Map<string, TickerMessage['msg']>;
-  orderbookByMarket: Map<string, { yes: Map<number, number>; no: Map<number, number> }>;
+  orderbookByMarket: Map<string, OrderBook>;
+  bookIntegrityByMarket: Map<string, BookIntegrity>;
   rawFeed: { ts: number; data: unknown }[];
 }
 
-export function getKalshiEnv(): 'prod' | 'demo' {
+export type KalshiEnv = 'prod' | 'demo' | 'mock';
+
+const DEFAULT_MOCK_URL = 'http://127.0.0.1:4010';
+
+export function getKalshiEnv(): KalshiEnv {
   const env = process.env.KALSHI_ENV?.toLowerCase();
-  return env === 'demo' ? 'demo' : 'prod';
+  return env === 'demo' || env === 'mock' ? env : 'prod';
+}
+
+/** Base URL of the local mock server (`npm run mock`) used when KALSHI_ENV=mock */
+function getMockUrl(): string {
+  return (process.env.KALSHI_MOCK_URL || DEFAULT_MOCK_URL).replace(/\/+$/, '');
 }
 
 export function getRestBaseUrl(): string {
-  return getKalshiEnv() === 'demo'
+  const env = getKalshiEnv();
+  if (env === 'mock') return getMockUrl();
+  return env === 'demo'
     ? 'https://demo-api.kalshi.co'
     : 'https://api.elections.kalshi.com';
 }
 
 export function getWsUrl(): string {
-  return getKalshiEnv() === 'demo'
+  const env = getKalshiEnv();
+  if (env === 'mock') return `${getMockUrl().replace(/^http/, 'ws')}/trade-api/ws/v2`;
+  return env === 'demo'
     ? 'wss://demo-api.kalshi.co/trade-api/ws/v2'
     : 'wss://api.elections.kalshi.com/trade-api/ws/v2';
 }
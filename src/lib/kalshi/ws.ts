@@ -5,227 +5,699 @@ import {
   TickerMessage,
   OrderbookSnapshotMessage,
   OrderbookDeltaMessage,
+  SubscribedMessage,
+  BookResyncMessage,
   getWsUrl 
 } from './types';
 import { generateAuthHeaders, hasAuthCredentials } from './signing';
+import { OrderBook } from './orderbook';
 
 const MAX_RAW_FEED_SIZE = 200;
+const AUTH_CLOSE_CODES = [1008, 4001, 4003];
+
+export interface ReconnectOptions {
+  /** Reconnect automatically after an unexpected close (default: true) */
+  enabled?: boolean;
+  /** Give up after this many consecutive failed attempts (default: unlimited) */
+  maxAttempts?: number;
+  /** Delay before the first attempt; doubles on each subsequent attempt */
+  baseDelayMs?: number;
+  /** Upper bound for the backoff delay */
+  maxDelayMs?: number;
+  /** A socket must stay open this long before the backoff starts over (default: 30s) */
+  stableAfterMs?: number;
+}
+
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+  enabled: true,
+  maxAttempts: Infinity,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  stableAfterMs: 30000,
+};
 
 export interface WSConnectionOptions {
   marketTickers: string[];
   channels?: string[];
   useAuth?: boolean;
+  reconnect?: ReconnectOptions;
+  /** Write into this state instead of a private one (used to merge several sockets) */
+  state?: ConnectionState;
   onMessage?: (msg: KalshiWSMessage) => void;
   onStateUpdate?: (state: ConnectionState) => void;
   onError?: (error: string, requiresAuth?: boolean) => void;
   onConnected?: () => void;
+  onReconnecting?: (attempt: number, delayMs: number) => void;
   onDisconnected?: () => void;
+  /** Pools only: some sockets are streaming while others reconnect or have given up */
+  onDegraded?: (upSockets: number, totalSockets: number) => void;
+}
+
+export interface WSConnectionHandle {
+  close: () => void;
+  getState: () => ConnectionState;
+  /** Markets currently subscribed (initial set plus additions, minus removals) */
+  getMarketTickers: () => string[];
+  /** Subscribe additional markets on the live socket; returns the tickers actually added */
+  addMarkets: (tickers: string[]) => string[];
+  /** Drop markets from the live socket and forget their state; returns the tickers actually removed */
+  removeMarkets: (tickers: string[]) => string[];
 }
 
 export function createConnectionState(): ConnectionState {
   return {
     tickersByMarket: new Map(),
     orderbookByMarket: new Map(),
+    bookIntegrityByMarket: new Map(),
     rawFeed: [],
   };
 }
 
-function applyTickerUpdate(state: ConnectionState, msg: TickerMessage['msg']) {
+/**
+ * Per-connection orderbook sequence state. Kalshi numbers orderbook messages
+ * per subscription (sid): the snapshot carries the first seq and every delta
+ * must follow it by exactly one.
+ */
+export interface SequenceTracker {
+  lastSeqBySid: Map<number, number>;
+  sidByMarket: Map<string, number>;
+}
+
+export type SequenceCheck = 'ok' | 'gap' | 'duplicate' | 'untracked' | 'orphan';
+
+export function createSequenceTracker(): SequenceTracker {
+  return {
+    lastSeqBySid: new Map(),
+    sidByMarket: new Map(),
+  };
+}
+
+/**
+ * Validate a delta's seq against its subscription and advance the tracker.
+ *
+ * - untracked: message carries no sid/seq, so it cannot be checked
+ * - orphan:    no snapshot seen for this sid (retired by a resync, or early)
+ * - duplicate: seq already applied
+ * - gap:       one or more messages were lost; the book must be resnapshotted
+ */
+export function checkSequence(
+  tracker: SequenceTracker,
+  sid: number | undefined,
+  seq: number | undefined
+): SequenceCheck {
+  if (sid === undefined || seq === undefined) return 'untracked';
+
+  const lastSeq = tracker.lastSeqBySid.get(sid);
+  if (lastSeq === undefined) return 'orphan';
+  if (seq <= lastSeq) return 'duplicate';
+  if (seq !== lastSeq + 1) return 'gap';
+
+  tracker.lastSeqBySid.set(sid, seq);
+  return 'ok';
+}
+
+export function applyTickerUpdate(state: ConnectionState, msg: TickerMessage['msg']) {
   state.tickersByMarket.set(msg.market_ticker, msg);
 }
 
-function applyOrderbookSnapshot(state: ConnectionState, msg: OrderbookSnapshotMessage['msg']) {
-  const yesMap = new Map<number, number>();
-  const noMap = new Map<number, number>();
+export function applyOrderbookSnapshot(state: ConnectionState, msg: OrderbookSnapshotMessage['msg']) {
+  const book = new OrderBook();
 
   for (const [price, quantity] of msg.yes || []) {
-    if (quantity > 0) yesMap.set(price, quantity);
+    book.yes.set(price, quantity);
   }
   for (const [price, quantity] of msg.no || []) {
-    if (quantity > 0) noMap.set(price, quantity);
+    book.no.set(price, quantity);
   }
 
-  state.orderbookByMarket.set(msg.market_ticker, { yes: yesMap, no: noMap });
+  state.orderbookByMarket.set(msg.market_ticker, book);
 }
 
-function applyOrderbookDelta(state: ConnectionState, msg: OrderbookDeltaMessage['msg']) {
+export function applyOrderbookDelta(state: ConnectionState, msg: OrderbookDeltaMessage['msg']) {
   let book = state.orderbookByMarket.get(msg.market_ticker);
   if (!book) {
-    book = { yes: new Map(), no: new Map() };
+    book = new OrderBook();
     state.orderbookByMarket.set(msg.market_ticker, book);
   }
 
-  const sideMap = msg.side === 'yes' ? book.yes : book.no;
-  const currentQty = sideMap.get(msg.price) || 0;
-  const newQty = currentQty + msg.delta;
+  const side = msg.side === 'yes' ? book.yes : book.no;
+  side.add(msg.price, msg.delta);
+}
 
-  if (newQty <= 0) {
-    sideMap.delete(msg.price);
-  } else {
-    sideMap.set(msg.price, newQty);
-  }
+/**
+ * Exponential backoff with "full jitter": a random delay between 0 and
+ * min(maxDelay, baseDelay * 2^(attempt - 1)), so that many clients dropped
+ * at the same moment do not reconnect in lockstep.
+ */
+export function computeReconnectDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(Math.random() * ceiling);
 }
 
-function addToRawFeed(state: ConnectionState, data: unknown) {
-  state.rawFeed.push({ ts: Date.now(), data });
+export function addToRawFeed(state: ConnectionState, data: unknown, ts = Date.now()) {
+  state.rawFeed.push({ ts, data });
   if (state.rawFeed.length > MAX_RAW_FEED_SIZE) {
     state.rawFeed.shift();
   }
 }
 
-export function connectAndSubscribe(options: WSConnectionOptions): { 
-  close: () => void; 
-  getState: () => ConnectionState;
-} {
+export function connectAndSubscribe(options: WSConnectionOptions): WSConnectionHandle {
   const {
-    marketTickers,
     channels = ['ticker', 'orderbook_delta', 'trade'],
     useAuth = false,
     onMessage,
     onStateUpdate,
     onError,
     onConnected,
+    onReconnecting,
     onDisconnected,
   } = options;
+  const reconnect = { ...DEFAULT_RECONNECT, ...options.reconnect };
 
   const wsUrl = getWsUrl();
-  const state = createConnectionState();
+  const state = options.state ?? createConnectionState();
+  const sequences = createSequenceTracker();
+  const marketTickers = new Set(options.marketTickers);
+  const bookChannels: string[] = channels.filter((c) => c === 'orderbook_delta');
+  const streamChannels = channels.filter((c) => c !== 'orderbook_delta');
   let ws: WebSocket | null = null;
   let subscribeId = 1;
+  // Outstanding subscribe commands by id, so 'subscribed' replies can be matched to markets
+  const pendingSubscribes = new Map<number, { channels: string[]; marketTickers: string[] }>();
+  // ticker/trade subscriptions cover many markets and are updated in place (sid -> channel)
+  const streamSids = new Map<number, string>();
   let isClosed = false;
   let hasReceivedMessage = false;
+  let everReceivedMessage = false;
+  let reconnectAttempt = 0;
   let authFailureTimeout: NodeJS.Timeout | null = null;
+  let reconnectTimeout: NodeJS.Timeout | null = null;
+  let stableTimeout: NodeJS.Timeout | null = null;
 
-  const wsOptions: WebSocket.ClientOptions = {
-    headers: {},
+  const clearAuthFailureTimeout = () => {
+    if (authFailureTimeout) {
+      clearTimeout(authFailureTimeout);
+      authFailureTimeout = null;
+    }
   };
 
-  if (useAuth) {
-    const authHeaders = generateAuthHeaders('GET', '/trade-api/ws/v2');
-    if (authHeaders) {
-      wsOptions.headers = authHeaders as unknown as { [key: string]: string };
+  const clearStableTimeout = () => {
+    if (stableTimeout) {
+      clearTimeout(stableTimeout);
+      stableTimeout = null;
     }
-  }
+  };
 
-  try {
-    ws = new WebSocket(wsUrl, wsOptions);
-  } catch (err) {
-    onError?.(`Failed to create WebSocket: ${err}`, false);
-    return { close: () => {}, getState: () => state };
-  }
+  const sendCommand = (cmd: string, params: Record<string, unknown>): number | null => {
+    if (!ws || ws.readyState !== WebSocket.OPEN) return null;
+    const id = subscribeId++;
+    ws.send(JSON.stringify({ id, cmd, params }));
+    return id;
+  };
 
-  ws.on('open', () => {
-    if (isClosed || !ws) return;
+  const sendSubscribe = (subChannels: string[], tickers: string[]) => {
+    const id = sendCommand('subscribe', { channels: subChannels, market_tickers: tickers });
+    if (id !== null) {
+      pendingSubscribes.set(id, { channels: subChannels, marketTickers: tickers });
+    }
+  };
 
-    authFailureTimeout = setTimeout(() => {
-      if (!hasReceivedMessage && !isClosed) {
-        if (!useAuth && hasAuthCredentials()) {
-          onError?.('WebSocket connection may require authentication. Retrying with auth...', true);
-        } else if (!useAuth) {
-          onError?.('Kalshi WebSocket requires API-key auth. Set KALSHI_ACCESS_KEY + KALSHI_PRIVATE_KEY_PEM to enable fallback auth mode.', true);
-        }
+  const handleSubscribed = (message: SubscribedMessage) => {
+    const { channel, sid } = message.msg;
+    const pending = message.id !== undefined ? pendingSubscribes.get(message.id) : undefined;
+    if (message.id !== undefined) pendingSubscribes.delete(message.id);
+    if (sid === undefined) return;
+
+    if (!bookChannels.includes(channel)) {
+      streamSids.set(sid, channel);
+      return;
+    }
+
+    const ticker = pending?.marketTickers[0];
+    if (!ticker) return;
+    if (!marketTickers.has(ticker)) {
+      // Removed while the subscribe was in flight
+      sendCommand('unsubscribe', { sids: [sid] });
+      return;
+    }
+    sequences.sidByMarket.set(ticker, sid);
+  };
+
+  // sids only live as long as the socket, and books must be rebuilt from fresh snapshots
+  const resetSubscriptions = () => {
+    // Only this socket's books: the state may be shared with other sockets
+    for (const ticker of marketTickers) {
+      state.orderbookByMarket.delete(ticker);
+    }
+    sequences.lastSeqBySid.clear();
+    sequences.sidByMarket.clear();
+    pendingSubscribes.clear();
+    streamSids.clear();
+    if (bookChannels.length > 0) {
+      for (const ticker of marketTickers) {
+        state.bookIntegrityByMarket.set(ticker, 'pending');
       }
-    }, 5000);
+    }
+  };
+
+  // Orderbooks are subscribed one market per sid, so a gap in a sid's seq
+  // pinpoints the single book that needs a fresh snapshot.
+  const subscribeBooks = (tickers: Iterable<string>) => {
+    for (const ticker of tickers) {
+      if (bookChannels.length > 0) {
+        state.bookIntegrityByMarket.set(ticker, 'pending');
+        sendSubscribe(bookChannels, [ticker]);
+      }
+    }
+  };
+
+  const subscribeAll = () => {
+    if (streamChannels.length > 0 && marketTickers.size > 0) {
+      sendSubscribe(streamChannels, Array.from(marketTickers));
+    }
+    subscribeBooks(marketTickers);
+  };
 
-    const subscribeMessage = {
-      id: subscribeId++,
-      cmd: 'subscribe',
-      params: {
-        channels,
-        market_tickers: marketTickers,
+  const resyncMarket = (marketTicker: string, sid: number, expectedSeq: number, receivedSeq: number) => {
+    if (state.bookIntegrityByMarket.get(marketTicker) === 'resyncing') return;
+
+    sequences.lastSeqBySid.delete(sid);
+    sequences.sidByMarket.delete(marketTicker);
+    state.orderbookByMarket.delete(marketTicker);
+    state.bookIntegrityByMarket.set(marketTicker, 'resyncing');
+
+    sendCommand('unsubscribe', { sids: [sid] });
+    sendSubscribe(bookChannels, [marketTicker]);
+
+    const event: BookResyncMessage = {
+      type: 'book_resync',
+      msg: {
+        market_ticker: marketTicker,
+        sid,
+        expected_seq: expectedSeq,
+        received_seq: receivedSeq,
+        reason: 'gap',
       },
     };
+    addToRawFeed(state, event);
+    onMessage?.(event);
+  };
 
-    ws.send(JSON.stringify(subscribeMessage));
-    onConnected?.();
-  });
+  const scheduleReconnect = (): boolean => {
+    if (!reconnect.enabled || reconnectAttempt >= reconnect.maxAttempts) {
+      return false;
+    }
 
-  ws.on('message', (data: WebSocket.Data) => {
-    if (isClosed) return;
-    hasReceivedMessage = true;
+    reconnectAttempt++;
+    const delayMs = computeReconnectDelay(reconnectAttempt, reconnect.baseDelayMs, reconnect.maxDelayMs);
 
-    if (authFailureTimeout) {
-      clearTimeout(authFailureTimeout);
-      authFailureTimeout = null;
-    }
+    // Books are rebuilt from the snapshots sent after resubscribing; applying
+    // deltas on top of pre-disconnect levels would silently corrupt them.
+    resetSubscriptions();
 
-    try {
-      const message = JSON.parse(data.toString()) as KalshiWSMessage;
-      
-      addToRawFeed(state, message);
-
-      switch (message.type) {
-        case 'ticker':
-          applyTickerUpdate(state, (message as TickerMessage).msg);
-          break;
-        case 'orderbook_snapshot':
-          applyOrderbookSnapshot(state, (message as OrderbookSnapshotMessage).msg);
-          break;
-        case 'orderbook_delta':
-          applyOrderbookDelta(state, (message as OrderbookDeltaMessage).msg);
-          break;
-        case 'error':
-          const errMsg = message.msg as { message?: string };
-          if (errMsg.message?.toLowerCase().includes('auth') || 
-              errMsg.message?.toLowerCase().includes('unauthorized')) {
-            onError?.(errMsg.message || 'Authentication error', true);
-          } else {
-            onError?.(errMsg.message || 'WebSocket error', false);
-          }
-          break;
+    onReconnecting?.(reconnectAttempt, delayMs);
+    reconnectTimeout = setTimeout(() => {
+      reconnectTimeout = null;
+      if (!isClosed) openSocket();
+    }, delayMs);
+    return true;
+  };
+
+  const openSocket = () => {
+    hasReceivedMessage = false;
+
+    const wsOptions: WebSocket.ClientOptions = {
+      headers: {},
+    };
+
+    if (useAuth) {
+      const authHeaders = generateAuthHeaders('GET', '/trade-api/ws/v2');
+      if (authHeaders) {
+        wsOptions.headers = authHeaders as unknown as { [key: string]: string };
       }
+    }
 
-      onMessage?.(message);
-      onStateUpdate?.(state);
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(wsUrl, wsOptions);
     } catch (err) {
-      console.error('Failed to parse WS message:', err);
+      if (!everReceivedMessage || !scheduleReconnect()) {
+        onError?.(`Failed to create WebSocket: ${err}`, false);
+        onDisconnected?.();
+      }
+      return;
     }
-  });
+    ws = socket;
 
-  ws.on('error', (err: Error) => {
-    if (isClosed) return;
-    console.error('WebSocket error:', err);
-    onError?.(`WebSocket error: ${err.message}`, false);
-  });
+    socket.on('open', () => {
+      if (isClosed || ws !== socket) return;
 
-  ws.on('close', (code: number, reason: Buffer) => {
-    if (isClosed) return;
-    
-    if (authFailureTimeout) {
-      clearTimeout(authFailureTimeout);
-      authFailureTimeout = null;
-    }
+      authFailureTimeout = setTimeout(() => {
+        if (!hasReceivedMessage && !isClosed) {
+          if (!useAuth && hasAuthCredentials()) {
+            onError?.('WebSocket connection may require authentication. Retrying with auth...', true);
+          } else if (!useAuth) {
+            onError?.('Kalshi WebSocket requires API-key auth. Set KALSHI_ACCESS_KEY + KALSHI_PRIVATE_KEY_PEM to enable fallback auth mode.', true);
+          }
+        }
+      }, 5000);
+
+      // A socket that drops soon after opening keeps backing off
+      stableTimeout = setTimeout(() => {
+        stableTimeout = null;
+        reconnectAttempt = 0;
+      }, reconnect.stableAfterMs);
+
+      resetSubscriptions();
+      subscribeAll();
+      onConnected?.();
+    });
+
+    socket.on('message', (data: WebSocket.Data) => {
+      if (isClosed || ws !== socket) return;
+      hasReceivedMessage = true;
+      everReceivedMessage = true;
+      clearAuthFailureTimeout();
+
+      try {
+        const message = JSON.parse(data.toString()) as KalshiWSMessage;
+        
+        addToRawFeed(state, message);
+
+        switch (message.type) {
+          case 'ticker': {
+            const ticker = (message as TickerMessage).msg;
+            if (marketTickers.has(ticker.market_ticker)) applyTickerUpdate(state, ticker);
+            break;
+          }
+          case 'subscribed':
+            handleSubscribed(message as SubscribedMessage);
+            break;
+          case 'orderbook_snapshot': {
+            const snapshot = message as OrderbookSnapshotMessage;
+            if (!marketTickers.has(snapshot.msg.market_ticker)) break;
+            if (snapshot.sid !== undefined && snapshot.seq !== undefined) {
+              sequences.lastSeqBySid.set(snapshot.sid, snapshot.seq);
+              sequences.sidByMarket.set(snapshot.msg.market_ticker, snapshot.sid);
+            }
+            applyOrderbookSnapshot(state, snapshot.msg);
+            state.bookIntegrityByMarket.set(snapshot.msg.market_ticker, 'ok');
+            break;
+          }
+          case 'orderbook_delta': {
+            const delta = message as OrderbookDeltaMessage;
+            // A late delta for a removed market must not recreate its book
+            if (!marketTickers.has(delta.msg.market_ticker)) break;
+            const lastSeq = delta.sid !== undefined ? sequences.lastSeqBySid.get(delta.sid) : undefined;
+            const check = checkSequence(sequences, delta.sid, delta.seq);
+            if (check === 'ok' || check === 'untracked') {
+              applyOrderbookDelta(state, delta.msg);
+            } else if (check === 'gap' && lastSeq !== undefined) {
+              resyncMarket(delta.msg.market_ticker, delta.sid!, lastSeq + 1, delta.seq!);
+            }
+            // duplicates and deltas for retired subscriptions are dropped
+            break;
+          }
+          case 'error':
+            const errMsg = message.msg as { message?: string };
+            if (errMsg.message?.toLowerCase().includes('auth') || 
+                errMsg.message?.toLowerCase().includes('unauthorized')) {
+              onError?.(errMsg.message || 'Authentication error', true);
+            } else {
+              onError?.(errMsg.message || 'WebSocket error', false);
+            }
+            break;
+        }
 
-    if (code === 1008 || code === 4001 || code === 4003) {
-      onError?.('Kalshi WebSocket requires API-key auth. Set KALSHI_ACCESS_KEY + KALSHI_PRIVATE_KEY_PEM to enable fallback auth mode.', true);
-    } else if (!hasReceivedMessage && code !== 1000) {
-      if (!useAuth && hasAuthCredentials()) {
-        onError?.('Connection closed without messages. Will retry with auth.', true);
-      } else if (!useAuth) {
+        onMessage?.(message);
+        onStateUpdate?.(state);
+      } catch (err) {
+        console.error('Failed to parse WS message:', err);
+      }
+    });
+
+    socket.on('error', (err: Error) => {
+      if (isClosed || ws !== socket) return;
+      console.error('WebSocket error:', err);
+      // Failed reconnect attempts are reported through onReconnecting instead
+      if (reconnectAttempt === 0) {
+        onError?.(`WebSocket error: ${err.message}`, false);
+      }
+    });
+
+    socket.on('close', (code: number) => {
+      if (isClosed || ws !== socket) return;
+      ws = null;
+      clearAuthFailureTimeout();
+      clearStableTimeout();
+
+      if (AUTH_CLOSE_CODES.includes(code)) {
         onError?.('Kalshi WebSocket requires API-key auth. Set KALSHI_ACCESS_KEY + KALSHI_PRIVATE_KEY_PEM to enable fallback auth mode.', true);
+        onDisconnected?.();
+        return;
+      }
+
+      if (!everReceivedMessage) {
+        if (code !== 1000) {
+          if (!useAuth && hasAuthCredentials()) {
+            onError?.('Connection closed without messages. Will retry with auth.', true);
+          } else if (!useAuth) {
+            onError?.('Kalshi WebSocket requires API-key auth. Set KALSHI_ACCESS_KEY + KALSHI_PRIVATE_KEY_PEM to enable fallback auth mode.', true);
+          }
+        }
+        onDisconnected?.();
+        return;
       }
-    }
-    
-    onDisconnected?.();
-  });
+
+      if (!scheduleReconnect()) {
+        onDisconnected?.();
+      }
+    });
+  };
+
+  openSocket();
 
   return {
     close: () => {
       isClosed = true;
-      if (authFailureTimeout) {
-        clearTimeout(authFailureTimeout);
+      clearAuthFailureTimeout();
+      clearStableTimeout();
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
+        reconnectTimeout = null;
       }
       if (ws && ws.readyState !== WebSocket.CLOSED) {
         ws.close();
       }
     },
     getState: () => state,
+    getMarketTickers: () => Array.from(marketTickers),
+    addMarkets: (tickers: string[]) => {
+      const added = Array.from(new Set(tickers)).filter((t) => t && !marketTickers.has(t));
+      if (added.length === 0) return [];
+      for (const ticker of added) marketTickers.add(ticker);
+
+      // While disconnected the next subscribeAll() picks the new markets up
+      if (!ws || ws.readyState !== WebSocket.OPEN) return added;
+
+      const missingChannels: string[] = [];
+      for (const channel of streamChannels) {
+        const sid = Array.from(streamSids.entries()).find(([, c]) => c === channel)?.[0];
+        if (sid !== undefined) {
+          sendCommand('update_subscription', { sids: [sid], market_tickers: added, action: 'add_markets' });
+        } else {
+          missingChannels.push(channel);
+        }
+      }
+      if (missingChannels.length > 0) {
+        sendSubscribe(missingChannels, added);
+      }
+      subscribeBooks(added);
+      return added;
+    },
+    removeMarkets: (tickers: string[]) => {
+      const removed = Array.from(new Set(tickers)).filter((t) => marketTickers.has(t));
+      if (removed.length === 0) return [];
+
+      const bookSids: number[] = [];
+      for (const ticker of removed) {
+        marketTickers.delete(ticker);
+        const sid = sequences.sidByMarket.get(ticker);
+        if (sid !== undefined) {
+          bookSids.push(sid);
+          sequences.lastSeqBySid.delete(sid);
+          sequences.sidByMarket.delete(ticker);
+        }
+        state.tickersByMarket.delete(ticker);
+        state.orderbookByMarket.delete(ticker);
+        state.bookIntegrityByMarket.delete(ticker);
+      }
+
+      for (const sid of streamSids.keys()) {
+        sendCommand('update_subscription', { sids: [sid], market_tickers: removed, action: 'delete_markets' });
+      }
+      if (bookSids.length > 0) {
+        sendCommand('unsubscribe', { sids: bookSids });
+      }
+      onStateUpdate?.(state);
+      return removed;
+    },
+  };
+}
+
+/** Markets per upstream socket before the pool opens another one */
+export const MAX_MARKETS_PER_SOCKET = 50;
+
+export interface ConnectionPoolOptions extends Omit<WSConnectionOptions, 'state'> {
+  maxMarketsPerSocket?: number;
+}
+
+export interface ConnectionPoolHandle extends WSConnectionHandle {
+  getSocketCount: () => number;
+}
+
+type SocketStatus = 'connecting' | 'up' | 'reconnecting' | 'down';
+
+/**
+ * Spread markets over as many sockets as the per-socket cap requires. Every
+ * socket writes into one shared ConnectionState, so callers see a single
+ * connection; callbacks fire once per socket.
+ */
+export function connectPool(options: ConnectionPoolOptions): ConnectionPoolHandle {
+  const {
+    marketTickers: initialTickers,
+    maxMarketsPerSocket = MAX_MARKETS_PER_SOCKET,
+    onConnected,
+    onReconnecting,
+    onDisconnected,
+    onDegraded,
+    ...socketOptions
+  } = options;
+  const state = createConnectionState();
+  const sockets: WSConnectionHandle[] = [];
+
+  // One socket dropping must not read as the whole stream going down, so the
+  // pool reports connected when every socket is up, disconnected when every
+  // one has given up, and degraded in between
+  const statusById = new Map<number, SocketStatus>();
+  const idBySocket = new Map<WSConnectionHandle, number>();
+  let nextSocketId = 0;
+  let reported = '';
+
+  const report = () => {
+    const statuses = Array.from(statusById.values());
+    const up = statuses.filter((s) => s === 'up').length;
+    let next = reported;
+    if (up === statuses.length) next = 'connected';
+    else if (statuses.every((s) => s === 'down')) next = 'disconnected';
+    else if (up > 0 && statuses.some((s) => s === 'reconnecting' || s === 'down')) next = `degraded ${up}/${statuses.length}`;
+    if (next === reported) return;
+
+    reported = next;
+    if (next === 'connected') onConnected?.();
+    else if (next === 'disconnected') onDisconnected?.();
+    else onDegraded?.(up, statuses.length);
+  };
+
+  const openSocket = (marketTickers: string[]): WSConnectionHandle => {
+    const id = nextSocketId++;
+    statusById.set(id, 'connecting');
+    const socket = connectAndSubscribe({
+      ...socketOptions,
+      marketTickers,
+      state,
+      onConnected: () => {
+        statusById.set(id, 'up');
+        report();
+      },
+      onReconnecting: (attempt, delayMs) => {
+        statusById.set(id, 'reconnecting');
+        // With nothing else streaming, the stream as a whole is reconnecting
+        if (!Array.from(statusById.values()).includes('up')) {
+          reported = 'reconnecting';
+          onReconnecting?.(attempt, delayMs);
+        } else {
+          report();
+        }
+      },
+      onDisconnected: () => {
+        statusById.set(id, 'down');
+        report();
+      },
+    });
+    idBySocket.set(socket, id);
+    return socket;
+  };
+
+  const closeSocket = (socket: WSConnectionHandle) => {
+    socket.close();
+    statusById.delete(idBySocket.get(socket)!);
+    idBySocket.delete(socket);
+  };
+
+  const getMarketTickers = () => sockets.flatMap((socket) => socket.getMarketTickers());
+
+  const assignMarkets = (tickers: string[]): string[] => {
+    const current = new Set(getMarketTickers());
+    let remaining = Array.from(new Set(tickers)).filter((t) => t && !current.has(t));
+    const added: string[] = [];
+
+    // Fill sockets that still have room before opening new ones
+    for (const socket of sockets) {
+      if (remaining.length === 0) break;
+      const capacity = maxMarketsPerSocket - socket.getMarketTickers().length;
+      if (capacity <= 0) continue;
+      added.push(...socket.addMarkets(remaining.slice(0, capacity)));
+      remaining = remaining.slice(capacity);
+    }
+
+    while (remaining.length > 0) {
+      const chunk = remaining.slice(0, maxMarketsPerSocket);
+      remaining = remaining.slice(maxMarketsPerSocket);
+      sockets.push(openSocket(chunk));
+      added.push(...chunk);
+    }
+
+    return added;
+  };
+
+  assignMarkets(initialTickers);
+
+  return {
+    close: () => {
+      for (const socket of sockets) closeSocket(socket);
+      sockets.length = 0;
+    },
+    getState: () => state,
+    getMarketTickers,
+    getSocketCount: () => sockets.length,
+    addMarkets: assignMarkets,
+    removeMarkets: (tickers: string[]) => {
+      const removed: string[] = [];
+      for (let i = sockets.length - 1; i >= 0; i--) {
+        const socket = sockets[i];
+        removed.push(...socket.removeMarkets(tickers));
+        // Keep at least one socket so later additions have somewhere to go
+        if (socket.getMarketTickers().length === 0 && sockets.length > 1) {
+          closeSocket(socket);
+          sockets.splice(i, 1);
+        }
+      }
+      report();
+      return removed;
+    },
   };
 }
 
 export function getOrderbookSummary(state: ConnectionState, marketTicker: string): {
   yes_bid?: number;
   yes_ask?: number;
+  no_bid?: number;
+  no_ask?: number;
   yes_levels: [number, number][];
   no_levels: [number, number][];
 } {
@@ -234,16 +706,12 @@ export function getOrderbookSummary(state: ConnectionState, marketTicker: string
     return { yes_levels: [], no_levels: [] };
   }
 
-  const yesLevels = Array.from(book.yes.entries()).sort((a, b) => b[0] - a[0]);
-  const noLevels = Array.from(book.no.entries()).sort((a, b) => b[0] - a[0]);
-
-  const yesBid = yesLevels.length > 0 ? yesLevels[0][0] : undefined;
-  const yesAsk = noLevels.length > 0 ? 100 - noLevels[0][0] : undefined;
-
   return {
-    yes_bid: yesBid,
-    yes_ask: yesAsk,
-    yes_levels: yesLevels.slice(0, 5),
-    no_levels: noLevels.slice(0, 5),
+    yes_bid: book.yesBid,
+    yes_ask: book.yesAsk,
+    no_bid: book.noBid,
+    no_ask: book.noAsk,
+    yes_levels: book.yes.top(5),
+    no_levels: book.no.top(5),
   };
 }